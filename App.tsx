@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Medication, InteractionResult, View, DoseStatus, UserPreferences } from './types';
 import { checkInteractions } from './services/geminiService';
 import Dashboard from './components/Dashboard';
@@ -17,6 +17,8 @@ import SymptomJournal from './components/SymptomJournal';
 import EasyModeDashboard from './components/EasyModeDashboard';
 import AppLock from './components/AppLock';
 import BehavioralPatternAlert from './components/BehavioralPatternAlert';
+import SyncConflicts from './components/SyncConflicts';
+import EscalationInbox from './components/EscalationInbox';
 import WeeklyCoachingSummary from './components/WeeklyCoachingSummary';
 import EmergencyMedicalID from './components/EmergencyMedicalID';
 import DashboardWidgetConfig from './components/DashboardWidgetConfig';
@@ -32,24 +34,67 @@ import CostSavingSuggestions from './components/CostSavingSuggestions';
 import CrisisSafetyCards from './components/CrisisSafetyCards';
 import PeriodicCheckIn from './components/PeriodicCheckIn';
 import AccessHistory from './components/AccessHistory';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import HouseholdDueNow from './components/HouseholdDueNow';
 import { logAction } from './services/auditLogService';
 import { undoService } from './services/undoService';
 import { analyzeBehavioralPatterns } from './services/behaviorService';
 import { generateWeeklyCoachingSummary, getCurrentWeekStart } from './services/coachingService';
 import { checkDoseSafety } from './services/doseSafetyService';
+import { getMealTimes, rescheduleMealDoses } from './services/mealService';
+import { getInventoryLabel, getInventoryUnit, getQuantityAfterDose, parseDosage } from './services/dosageService';
 import { canTakePRN, isPRNMedication, getDefaultPRNConfig } from './services/prnService';
-import { SymptomEntry, AppSecurity, UndoAction, BehavioralPattern, MedicationEducation, TravelInfo, PRNConfig } from './types';
+import { addDays } from './services/scheduleService';
+import { getDoseInstances } from './services/doseInstanceService';
+import { appendDoseEvents, createDoseEvent, getDoseState, getDoseStates } from './services/doseEventService';
+import { PinHash } from './services/pinService';
+import { getCurrentActor, setCurrentActor, getAvailableActors, getActorCaregiver } from './services/actorService';
+import { getActorPermissions, getPermissionDenial, getVisibleMedications, widensPermissions } from './services/permissionService';
+import { syncNow, isSyncConfigured, SyncResult } from './services/syncService';
+import { registerReminderWorker, reconcileReminders, checkReminders, getSentRefillReminders, onReminderWorkerMessage } from './services/reminderQueueService';
+import { getReminderActions, removeReminderActions, getSentEscalations, removeSentEscalations } from './services/reminderQueueStore';
+import { applyReminderAction, applyInactiveProfileReminderAction } from './services/reminderActionService';
+import { recordSentEscalations, getUnacknowledgedEscalations, acknowledgeEscalation, hasUnsyncedEscalations } from './services/escalationService';
+import { getSyncConflicts, resolveSyncConflict } from './services/syncConflictService';
+import {
+  getProfiles,
+  getActiveProfile,
+  createProfile,
+  renameProfile,
+  removeProfile,
+  switchProfile,
+  getHouseholdMedications,
+  recordInactiveProfileDose,
+} from './services/profileService';
+import { isLockEnabled, getEffectiveLockTimeout, shouldLockOnLoad, startInactivityMonitor } from './services/inactivityService';
+import { getItem, setItem, isStorageEncrypted, isStorageLocked, enableStorageEncryption, changeStoragePin, disableStorageEncryption } from './services/storageService';
+import { SymptomEntry, AppSecurity, Escalation, UndoAction, BehavioralPattern, MedicationEducation, TravelInfo, PRNConfig, EmergencyInfo, NotificationBehavior, Actor, Profile, CaregiverAction, SyncConflict } from './types';
+
+const SYNC_INTERVAL_MINUTES = 5;
+
+const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  fontSize: 'normal',
+  highContrast: false,
+  voiceGuidance: false,
+  calendarSync: false,
+  adaptiveNotifications: true,
+  offlineMode: true,
+};
+
+const EMPTY_EMERGENCY_INFO: EmergencyInfo = {
+  name: '',
+  emergencyContact: '',
+  emergencyPhone: '',
+  criticalMedications: [],
+  allergies: [],
+  conditions: [],
+};
+
+// Alerts about missed doses are shown to the caregiver they were sent to
+const getEscalationInbox = (actor: Actor): Escalation[] => (actor.type === 'caregiver' ? getUnacknowledgedEscalations(actor.id) : []);
 
 const App: React.FC = () => {
-  const [medications, setMedications] = useState<Medication[]>(() => {
-    try {
-      const savedMeds = localStorage.getItem('medications');
-      return savedMeds ? JSON.parse(savedMeds) : [];
-    } catch (error) {
-      console.error("Failed to parse medications from localStorage", error);
-      return [];
-    }
-  });
+  const [medications, setMedications] = useState<Medication[]>(() => getItem('medications') || []);
 
   const [interactionResult, setInteractionResult] = useState<InteractionResult | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -71,135 +116,181 @@ const App: React.FC = () => {
   });
   const [missedDoses, setMissedDoses] = useState<{ med: Medication; date: string; time: string }[]>([]);
   const [isMissedDosesModalOpen, setIsMissedDosesModalOpen] = useState(false);
-  const [userPreferences, setUserPreferences] = useState<UserPreferences>(() => {
-    try {
-      const saved = localStorage.getItem('userPreferences');
-      return saved ? JSON.parse(saved) : {
-        fontSize: 'normal',
-        highContrast: false,
-        voiceGuidance: false,
-        calendarSync: false,
-        adaptiveNotifications: true,
-        offlineMode: true,
-      };
-    } catch {
-      return {
-        fontSize: 'normal',
-        highContrast: false,
-        voiceGuidance: false,
-        calendarSync: false,
-        adaptiveNotifications: true,
-        offlineMode: true,
-        easyMode: false,
-        lowLiteracyMode: false,
-        reminderStyle: 'detailed' as const,
-        motivationalMessages: true,
-        showTips: true,
-      };
-    }
-  });
+  const [userPreferences, setUserPreferences] = useState<UserPreferences>(() => getItem('userPreferences') || DEFAULT_USER_PREFERENCES);
   const [actionFeedback, setActionFeedback] = useState<{ type: 'add' | 'edit' | 'delete'; message: string } | null>(null);
-  const [symptomEntries, setSymptomEntries] = useState<SymptomEntry[]>(() => {
-    try {
-      const saved = localStorage.getItem('symptomEntries');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
+  const [symptomEntries, setSymptomEntries] = useState<SymptomEntry[]>(() => getItem('symptomEntries') || []);
   const [appSecurity, setAppSecurity] = useState<AppSecurity>(() => {
-    try {
-      const saved = localStorage.getItem('appSecurity');
-      return saved ? JSON.parse(saved) : {
-        isLocked: false,
-        lockMethod: 'none' as const,
-        lockTimeout: 5,
-      };
-    } catch {
-      return {
-        isLocked: false,
-        lockMethod: 'none' as const,
-        lockTimeout: 5,
-      };
-    }
+    const saved: AppSecurity = getItem('appSecurity') || {
+      isLocked: false,
+      lockMethod: 'none' as const,
+      lockTimeout: 5,
+    };
+    // Reloading mustn't skip the lock
+    return shouldLockOnLoad(saved) ? { ...saved, isLocked: true } : saved;
   });
+  const [showPinSetup, setShowPinSetup] = useState(false);
+  const [pendingActorId, setPendingActorId] = useState<string | null>(null); // Waiting for the patient's PIN
   const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
   const [behavioralPatterns, setBehavioralPatterns] = useState<BehavioralPattern[]>([]);
-  const [medicationEducations, setMedicationEducations] = useState<{ [medId: string]: MedicationEducation }>(() => {
-    try {
-      const saved = localStorage.getItem('medicationEducations');
-      return saved ? JSON.parse(saved) : {};
-    } catch {
-      return {};
-    }
-  });
-  const [emergencyInfo, setEmergencyInfo] = useState(() => {
-    try {
-      const saved = localStorage.getItem('emergencyInfo');
-      return saved ? JSON.parse(saved) : {
-        name: '',
-        emergencyContact: '',
-        emergencyPhone: '',
-        criticalMedications: [],
-        allergies: [],
-        conditions: [],
-      };
-    } catch {
-      return {
-        name: '',
-        emergencyContact: '',
-        emergencyPhone: '',
-        criticalMedications: [],
-        allergies: [],
-        conditions: [],
-      };
-    }
-  });
-  const [travelInfo, setTravelInfo] = useState<TravelInfo>(() => {
-    try {
-      const saved = localStorage.getItem('travelInfo');
-      return saved ? JSON.parse(saved) : { isActive: false };
-    } catch {
-      return { isActive: false };
-    }
-  });
-  const [prnConfigs, setPRNConfigs] = useState<{ [medId: string]: PRNConfig }>(() => {
-    try {
-      const saved = localStorage.getItem('prnConfigs');
-      return saved ? JSON.parse(saved) : {};
-    } catch {
-      return {};
-    }
-  });
-  const [showOnboarding, setShowOnboarding] = useState(() => {
-    const hasSeenOnboarding = localStorage.getItem('hasSeenOnboarding');
-    return !hasSeenOnboarding;
-  });
+  const [medicationEducations, setMedicationEducations] = useState<{ [medId: string]: MedicationEducation }>(() => getItem('medicationEducations') || {});
+  const [emergencyInfo, setEmergencyInfo] = useState<EmergencyInfo>(() => getItem('emergencyInfo') || EMPTY_EMERGENCY_INFO);
+  const [travelInfo, setTravelInfo] = useState<TravelInfo>(() => getItem('travelInfo') || { isActive: false });
+  const [prnConfigs, setPRNConfigs] = useState<{ [medId: string]: PRNConfig }>(() => getItem('prnConfigs') || {});
+  const [showOnboarding, setShowOnboarding] = useState(() => !getItem('hasSeenOnboarding'));
   const [showTutorial, setShowTutorial] = useState(false);
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [dismissedTips, setDismissedTips] = useState<string[]>([]);
+  const [currentActor, setCurrentActorState] = useState<Actor>(() => getCurrentActor());
+  const [profiles, setProfiles] = useState<Profile[]>(() => getProfiles());
+  const [activeProfile, setActiveProfile] = useState<Profile>(() => getActiveProfile());
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(() => getSyncConflicts());
+  const [householdVersion, setHouseholdVersion] = useState(0); // Bumped to re-render when another profile's doses change
+  const [escalationInbox, setEscalationInbox] = useState<Escalation[]>(() => getEscalationInbox(getCurrentActor()));
+  const [reminderCheckCount, setReminderCheckCount] = useState(0);
 
   useEffect(() => {
-    try {
-      localStorage.setItem('medications', JSON.stringify(medications));
-      if (userPreferences.offlineMode) {
-        localStorage.setItem('lastSyncTime', new Date().toISOString());
-      }
-    } catch (error) {
-       console.error("Failed to save medications to localStorage", error);
+    setItem('medications', medications).catch(error => {
+       console.error("Failed to save medications", error);
        if (error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22)) {
             alert("Storage is full. Please remove some medications with large images or clear application data.");
        }
+    });
+  }, [medications]);
+
+  useEffect(() => {
+    setItem('userPreferences', userPreferences).catch(error => console.error("Failed to save user preferences", error));
+  }, [userPreferences]);
+
+  // Doses timed by meals follow the meals when they move
+  useEffect(() => {
+    setMedications(prev => rescheduleMealDoses(prev, getMealTimes(userPreferences)));
+  }, [userPreferences.mealTimes]);
+
+  useEffect(() => {
+    setItem('symptomEntries', symptomEntries).catch(error => console.error("Failed to save symptom entries", error));
+  }, [symptomEntries]);
+
+  useEffect(() => {
+    setItem('appSecurity', appSecurity).catch(error => console.error("Failed to save security settings", error));
+  }, [appSecurity]);
+
+  // Choosing a lock without a PIN starts PIN setup, since biometric unlock falls back to the PIN.
+  // Leaving the PIN lock stores data unencrypted again.
+  useEffect(() => {
+    if (appSecurity.lockMethod !== 'none' && !appSecurity.pinHash) {
+      setShowPinSetup(true);
+    }
+    if (appSecurity.lockMethod !== 'pin' && isStorageEncrypted() && !isStorageLocked()) {
+      disableStorageEncryption().catch(error => console.error("Failed to decrypt stored data", error));
     }
-  }, [medications, userPreferences.offlineMode]);
+  }, [appSecurity.lockMethod, appSecurity.pinHash]);
 
+  // Relock after the timeout without input, including time spent in the background
   useEffect(() => {
+    if (appSecurity.isLocked || showPinSetup || !isLockEnabled(appSecurity)) return;
+
+    return startInactivityMonitor({
+      timeoutMinutes: getEffectiveLockTimeout(appSecurity),
+      onInactive: () => setAppSecurity(prev => ({ ...prev, isLocked: true })),
+      onActivity: at => setAppSecurity(prev => ({ ...prev, lastActiveTime: at.toISOString() })),
+    });
+  }, [
+    appSecurity.isLocked,
+    appSecurity.lockMethod,
+    appSecurity.pinHash,
+    appSecurity.lockTimeout,
+    appSecurity.caregiverLockTimeout,
+    showPinSetup,
+  ]);
+
+  const handleUnlock = (pin?: string) => {
+    const now = new Date().toISOString();
+    setAppSecurity(prev => ({
+      ...prev,
+      isLocked: false,
+      lastUnlockTime: now,
+      lastActiveTime: now,
+    }));
+    // PINs set before data was encrypted start encrypting on the next unlock
+    if (pin && appSecurity.lockMethod === 'pin' && !isStorageEncrypted()) {
+      enableStorageEncryption(pin).catch(error => console.error("Failed to encrypt stored data", error));
+    }
+  };
+
+  const handleSetPin = async (hash: PinHash, pin: string) => {
     try {
-      localStorage.setItem('userPreferences', JSON.stringify(userPreferences));
+      if (isStorageEncrypted()) {
+        await changeStoragePin(pin);
+      } else if (appSecurity.lockMethod === 'pin') {
+        await enableStorageEncryption(pin);
+      }
     } catch (error) {
-      console.error("Failed to save user preferences", error);
+      console.error("Failed to encrypt stored data", error);
+      alert("Your PIN was saved, but your data couldn't be encrypted on this device.");
     }
-  }, [userPreferences]);
+    setAppSecurity(prev => ({ ...prev, ...hash, lockMethod: prev.lockMethod === 'none' ? 'pin' as const : prev.lockMethod }));
+    setShowPinSetup(false);
+  };
+
+  // The app lock decides whether data is encrypted, so only the patient changes it
+  const handleSecuritySettingsChange = (security: AppSecurity) => {
+    if (currentActor.type !== 'patient') {
+      alert('Only the patient can change app security settings.');
+      return;
+    }
+    setAppSecurity(security);
+  };
+
+  const handleCancelPinSetup = () => {
+    setShowPinSetup(false);
+    // A lock can't be on without a PIN
+    if (!appSecurity.pinHash) {
+      setAppSecurity(prev => ({ ...prev, lockMethod: 'none' as const }));
+    }
+  };
+
+  useEffect(() => {
+    setItem('medicationEducations', medicationEducations).catch(error => console.error("Failed to save medication education", error));
+  }, [medicationEducations]);
+
+  useEffect(() => {
+    setItem('emergencyInfo', emergencyInfo).catch(error => console.error("Failed to save emergency info", error));
+  }, [emergencyInfo]);
+
+  useEffect(() => {
+    setItem('prnConfigs', prnConfigs).catch(error => console.error("Failed to save PRN settings", error));
+  }, [prnConfigs]);
+
+  // Reload what other devices changed; caregivers are read from storage when rendering
+  const handleSync = async (): Promise<SyncResult> => {
+    const result = await syncNow();
+    if (result.pulled > 0) {
+      setMedications(getItem('medications') || []);
+      setSymptomEntries(getItem('symptomEntries') || []);
+      setCurrentActorState(getCurrentActor());
+      setHouseholdVersion(version => version + 1);
+    }
+    setSyncConflicts(getSyncConflicts());
+    setEscalationInbox(getEscalationInbox(getCurrentActor()));
+    return result;
+  };
+
+  // Sync with the household's server, if one is set up, every few minutes and on reconnecting
+  useEffect(() => {
+    if (appSecurity.isLocked) return;
+
+    const syncInBackground = () => {
+      if (!isSyncConfigured() || !navigator.onLine) return;
+      handleSync().catch(error => console.error("Background sync failed", error));
+    };
+    syncInBackground();
+    const interval = setInterval(syncInBackground, SYNC_INTERVAL_MINUTES * 60 * 1000);
+    window.addEventListener('online', syncInBackground);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', syncInBackground);
+    };
+  }, [appSecurity.isLocked]);
 
   // Apply accessibility preferences
   useEffect(() => {
@@ -224,11 +315,9 @@ const App: React.FC = () => {
     if (!userPreferences.adaptiveNotifications) return scheduledTime;
     
     try {
-      const behaviorKey = `notificationBehavior_${med.id}`;
-      const behaviorStr = localStorage.getItem(behaviorKey);
-      if (!behaviorStr) return scheduledTime;
+      const behavior = getItem('notificationBehaviors')?.[med.id];
+      if (!behavior) return scheduledTime;
       
-      const behavior = JSON.parse(behaviorStr);
       const adjustedTimes = behavior.adjustedTimes || [];
       const timeIndex = med.times.indexOf(scheduledTime);
       
@@ -255,9 +344,9 @@ const App: React.FC = () => {
     if (!userPreferences.adaptiveNotifications) return;
     
     try {
-      const behaviorKey = `notificationBehavior_${medId}`;
-      const behaviorStr = localStorage.getItem(behaviorKey);
-      const behavior = behaviorStr ? JSON.parse(behaviorStr) : {
+      const behaviors = getItem('notificationBehaviors') || {};
+      const behavior: NotificationBehavior = behaviors[medId] ? { ...behaviors[medId] } : {
+        medicationId: medId,
         averageResponseTime: 0,
         snoozeCount: 0,
         lateDoseCount: 0,
@@ -286,69 +375,145 @@ const App: React.FC = () => {
         behavior.adjustedTimes[timeIndex] = `${adjustedHours.toString().padStart(2, '0')}:${finalMins.toString().padStart(2, '0')}`;
       }
       
-      localStorage.setItem(behaviorKey, JSON.stringify(behavior));
+      setItem('notificationBehaviors', { ...behaviors, [medId]: behavior })
+        .catch(error => console.error('Error saving notification behavior:', error));
     } catch (e) {
       console.error('Error updating notification behavior:', e);
     }
   }, [userPreferences.adaptiveNotifications, medications]);
 
-  // Handle Dose and Refill Notifications
+  // Dose, follow-up and refill reminders are shown by the service worker, even once the app is closed
   useEffect(() => {
     if ('Notification' in window && window.Notification.permission !== 'granted') {
       window.Notification.requestPermission();
     }
+    registerReminderWorker().catch(error => console.error("Failed to register the reminder service worker", error));
 
+    // While the app is open it checks in every minute, which also covers browsers without a worker
     const interval = setInterval(() => {
-      if (window.Notification && window.Notification.permission === 'granted') {
-        const now = new Date();
-        const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-        const todayStr = now.toISOString().split('T')[0];
-
-        medications.forEach(med => {
-          // Dose reminders with adaptive timing
-          med.times.forEach(scheduledTime => {
-            const adjustedTime = getAdjustedTime(med, scheduledTime);
-            if (adjustedTime === currentTime) {
-              const dateTimeKey = `${todayStr}T${scheduledTime}`;
-              if (!med.doseStatus?.[dateTimeKey]) {
-                new window.Notification(`Time for your ${med.name}`, {
-                  body: `It's time to take your ${med.dosage} dose.`,
-                  icon: '/favicon.ico' 
-                });
-              }
-            }
+      checkReminders()
+        .then(() => setReminderCheckCount(count => count + 1))
+        .catch(error => console.error("Failed to check reminders", error));
+    }, 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Requeue reminders whenever anyone's medications change; marked doses drop out of the queue
+  useEffect(() => {
+    reconcileReminders(getHouseholdMedications(medications), { getReminderTime: (med, time, isActive) => (isActive ? getAdjustedTime(med, time) : time) })
+      .then(queue => {
+        const sentRefills = getSentRefillReminders(queue, activeProfile.id);
+        setMedications(prev => {
+          let changed = false;
+          const updated = prev.map(med => {
+            const isLow = med.quantity !== undefined && med.refillThreshold !== undefined && med.quantity <= med.refillThreshold;
+            // Remembered so the reminder isn't repeated, and forgotten once they refill
+            const refillNotified = isLow ? !!med.refillNotified || sentRefills.includes(med.id) : false;
+            if (!!med.refillNotified === refillNotified) return med;
+            changed = true;
+            return { ...med, refillNotified };
           });
+          return changed ? updated : prev;
+        });
+      })
+      .catch(error => console.error("Failed to update the reminder queue", error));
+  }, [medications, getAdjustedTime, householdVersion, profiles, activeProfile.id, userPreferences.sleepTime, userPreferences.wakeTime, userPreferences.quietHours]);
+
+  // Record Taken, Snooze and Skip pressed on notifications, once the app is unlocked
+  const isRecordingReminderActions = useRef(false);
+  useEffect(() => {
+    if (appSecurity.isLocked) return;
 
-          // Refill reminders (check once daily around 9 AM)
-          if (currentTime === '09:00') {
-            if (
-                med.quantity !== undefined &&
-                med.refillThreshold !== undefined &&
-                med.quantity <= med.refillThreshold &&
-                !med.refillNotified
-            ) {
-                new window.Notification(`Refill ${med.name}`, {
-                    body: `You have ${med.quantity} pills left. Time to get a refill.`,
-                    icon: '/favicon.ico'
-                });
-                setMedications(prev => prev.map(m => m.id === med.id ? {...m, refillNotified: true} : m));
+    const recordReminderActions = async () => {
+      if (isRecordingReminderActions.current) return;
+      isRecordingReminderActions.current = true;
+      try {
+        const actions = await getReminderActions();
+        if (actions.length === 0) return;
+
+        let updatedMedications = medications;
+        const problems: string[] = [];
+        for (const action of actions) {
+          if (getPermissionDenial(currentActor, 'markDoses', action.medicationId)) {
+            problems.push(`${currentActor.name} can't mark doses here.`);
+            continue;
+          }
+          const [date, time] = action.doseKey.split('T');
+          const isActive = action.profileId === activeProfile.id;
+          const medName = (isActive ? updatedMedications : getItem('profileData')?.[action.profileId]?.medications)
+            ?.find(med => med.id === action.medicationId)?.name || 'A medication';
+          try {
+            const result = isActive
+              ? applyReminderAction(updatedMedications, getItem('notificationBehaviors') || {}, action, currentActor)
+              : await applyInactiveProfileReminderAction(action, currentActor);
+            if (result.error) {
+              problems.push(`${medName} (${time} on ${date}): ${result.error}`);
+              continue;
             }
-            // Reset notification status if they refill
-            if (
-                med.quantity !== undefined &&
-                med.refillThreshold !== undefined &&
-                med.quantity > med.refillThreshold &&
-                med.refillNotified
-            ) {
-                setMedications(prev => prev.map(m => m.id === med.id ? {...m, refillNotified: false} : m));
+            if (isActive) {
+              updatedMedications = result.medications;
+              if (action.type === 'snooze') await setItem('notificationBehaviors', result.notificationBehaviors);
+              if (action.type === 'taken') updateNotificationBehavior(action.medicationId, time, new Date(action.recordedAt).toTimeString().slice(0, 5));
+            } else {
+              setHouseholdVersion(version => version + 1);
             }
+            const what = action.type === 'snooze' ? 'Snoozed' : `Marked ${action.type === 'taken' ? 'taken' : 'skipped'}`;
+            logAction('edit', 'medication', action.medicationId, `${what} from a notification: ${medName} dose at ${time} on ${date}`);
+          } catch (error: any) {
+            problems.push(`${medName} (${time} on ${date}): ${error?.message || 'Not recorded'}`);
           }
-        });
+        }
+
+        await removeReminderActions(actions.map(action => action.id));
+        if (updatedMedications !== medications) setMedications(updatedMedications);
+        if (problems.length > 0) alert(`Some buttons pressed on notifications weren't recorded:\n${problems.join('\n')}`);
+      } catch (error) {
+        console.error("Failed to record notification actions", error);
+      } finally {
+        isRecordingReminderActions.current = false;
       }
-    }, 60000); // Check every minute
+    };
 
-    return () => clearInterval(interval);
-  }, [medications, getAdjustedTime]);
+    recordReminderActions();
+    return onReminderWorkerMessage('actions', recordReminderActions);
+  }, [appSecurity.isLocked, medications, currentActor, activeProfile.id, updateNotificationBehavior]);
+
+  // Save caregiver alerts the worker sent, which records them in the audit log, once the app is unlocked
+  useEffect(() => {
+    if (appSecurity.isLocked) return;
+
+    const recordEscalations = async () => {
+      try {
+        const sent = await getSentEscalations();
+        if (sent.length === 0) return;
+        await recordSentEscalations(sent);
+        await removeSentEscalations(sent.map(escalation => escalation.id));
+        setEscalationInbox(getEscalationInbox(currentActor));
+        // Inbox alerts only reach the caregiver by syncing, so don't wait for the next one
+        if (hasUnsyncedEscalations() && isSyncConfigured() && navigator.onLine) {
+          await handleSync();
+        }
+      } catch (error) {
+        console.error("Failed to record caregiver alerts", error);
+      }
+    };
+
+    recordEscalations();
+    return onReminderWorkerMessage('escalations', recordEscalations);
+  }, [appSecurity.isLocked, currentActor, reminderCheckCount]);
+
+  useEffect(() => {
+    setEscalationInbox(getEscalationInbox(currentActor));
+  }, [currentActor]);
+
+  const handleAcknowledgeEscalation = async (escalation: Escalation) => {
+    try {
+      await acknowledgeEscalation(escalation.id);
+    } catch (error: any) {
+      alert(error?.message || "Couldn't acknowledge the alert");
+    }
+    setEscalationInbox(getEscalationInbox(currentActor));
+  };
 
   // Check for missed doses once per session
   useEffect(() => {
@@ -359,28 +524,12 @@ const App: React.FC = () => {
 
     const checkMissedDoses = () => {
       const now = new Date();
-      const foundMissedDoses: { med: Medication; date: string; time: string }[] = [];
-
-      medications.forEach(med => {
-        // Check today and yesterday
-        for (let i = 0; i < 2; i++) {
-          const dateToCheck = new Date();
-          dateToCheck.setDate(now.getDate() - i);
-          const dateStr = dateToCheck.toISOString().split('T')[0];
-
-          med.times.forEach(time => {
-            const doseDateTime = new Date(`${dateStr}T${time}`);
-            // If the scheduled time is in the past
-            if (doseDateTime < now) {
-              const dateTimeKey = `${dateStr}T${time}`;
-              const status = med.doseStatus?.[dateTimeKey];
-              if (!status) { // Undefined status means neither taken nor skipped
-                foundMissedDoses.push({ med, date: dateStr, time });
-              }
-            }
-          });
-        }
-      });
+      const todayStr = now.toISOString().split('T')[0];
+
+      // Check today and yesterday
+      const foundMissedDoses = getDoseInstances(medications, addDays(todayStr, -1), todayStr, { now, includePRN: false })
+        .filter(dose => dose.status === 'missed')
+        .map(dose => ({ med: dose.medication, date: dose.date, time: dose.time }));
 
       if (foundMissedDoses.length > 0) {
         // Sort with the most recent missed dose first
@@ -442,19 +591,58 @@ const App: React.FC = () => {
     }
   };
 
+  // Caregivers can only do what the patient has allowed
+  const isAllowed = (action: CaregiverAction, medicationId?: string, actor: Actor = currentActor): boolean => {
+    const denial = getPermissionDenial(actor, action, medicationId);
+    if (denial) alert(denial);
+    return !denial;
+  };
+
+  // Picking a side is an edit like any other, so it needs the same permission
+  const handleResolveSyncConflict = async (conflict: SyncConflict, choice: 'local' | 'remote') => {
+    if (conflict.collection === 'caregivers' && currentActor.type !== 'patient') {
+      alert('Only the patient can change caregivers.');
+      return;
+    }
+    if (conflict.collection === 'symptoms' && !isAllowed('viewJournal')) return;
+    if (conflict.collection === 'medications' && !isAllowed('editSchedules', conflict.recordId)) return;
+    if (conflict.collection === 'doseEvents' && !isAllowed('markDoses', conflict.recordId)) return;
+    // Alerts aren't gated: any caregiver may acknowledge the ones sent to them
+
+    try {
+      await resolveSyncConflict(conflict.id, choice);
+    } catch (error: any) {
+      alert(error?.message || "Couldn't apply that choice");
+      return;
+    }
+    setMedications(getItem('medications') || []);
+    setSymptomEntries(getItem('symptomEntries') || []);
+    setHouseholdVersion(version => version + 1);
+    setSyncConflicts(getSyncConflicts());
+    setEscalationInbox(getEscalationInbox(currentActor));
+    const resource = conflict.collection === 'symptoms'
+      ? 'symptom'
+      : conflict.collection === 'caregivers' || conflict.collection === 'escalations' ? 'caregiver' : 'medication';
+    logAction('edit', resource, conflict.recordId, `Chose ${choice === 'local' ? "this device's" : "the other device's"} version of ${conflict.label}`);
+  };
+
   const addMedication = (med: Omit<Medication, 'id'>) => {
-    const newMed: Medication = { ...med, id: Date.now().toString() };
+    if (!isAllowed('editSchedules')) return;
+    const newMed: Medication = { ...med, dose: med.dose || parseDosage(med.dosage) || undefined, id: Date.now().toString() };
     setMedications(prev => [...prev, newMed]);
     showActionFeedback('add', `Added ${med.name} to your medication list`);
+    logAction('add', 'medication', newMed.id, `Added medication: ${newMed.name}`);
   };
   
   const updateMedication = (updatedMed: Medication) => {
+    if (!isAllowed('editSchedules', updatedMed.id)) return;
     setMedications(prev => prev.map(med => med.id === updatedMed.id ? updatedMed : med));
     showActionFeedback('edit', `Updated ${updatedMed.name}`);
     logAction('edit', 'medication', updatedMed.id, `Updated medication: ${updatedMed.name}`);
   };
 
   const deleteMedication = (id: string) => {
+    if (!isAllowed('editSchedules', id)) return;
     const med = medications.find(m => m.id === id);
     setMedications(prev => prev.filter(med => med.id !== id));
     if (med) {
@@ -464,11 +652,13 @@ const App: React.FC = () => {
   };
   
   const handleEdit = (med: Medication) => {
+    if (!isAllowed('editSchedules', med.id)) return;
     setEditingMedication(med);
     setIsModalOpen(true);
   };
 
   const handleDeleteRequest = (med: Medication) => {
+    if (!isAllowed('editSchedules', med.id)) return;
     setConfirmModalProps({
         title: 'Confirm Deletion',
         message: `Are you sure you want to delete ${med.name}? This action cannot be undone.`,
@@ -498,6 +688,7 @@ const App: React.FC = () => {
   };
   
   const openAddModal = (prefilledData?: Partial<Medication>) => {
+    if (!isAllowed('editSchedules')) return;
     setEditingMedication(null);
     setIsModalOpen(true);
     // Store prefilled data to be used by AddMedicationModal
@@ -506,20 +697,35 @@ const App: React.FC = () => {
     }
   };
 
-  const updateDoseStatus = (id: string, date: string, time: string, status: DoseStatus | null) => {
-    // Track notification behavior for adaptive notifications
-    if (status === 'taken' && userPreferences.adaptiveNotifications) {
-      const now = new Date();
-      const actualTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-      updateNotificationBehavior(id, time, actualTime);
-    }
+  const updateDoseStatus = (id: string, date: string, time: string, status: DoseStatus | null, actor: Actor = currentActor) => {
+    if (!isAllowed('markDoses', id, actor)) return;
     const dateTimeKey = `${date}T${time}`;
     
     // Get current medication state for undo action
     const med = medications.find(m => m.id === id);
     if (!med) return;
     
-    const oldStatus = med.doseStatus?.[dateTimeKey];
+    const oldState = getDoseState(med, dateTimeKey);
+    const oldStatus = oldState.status;
+    
+    // Marking an already-taken dose as taken again keeps the original time
+    if (status === 'taken' && oldStatus === 'taken') return;
+
+    // The same checks as doses marked from a notification; nothing is recorded if one fails
+    if (status === 'taken') {
+      const safety = checkDoseSafety(med, date, time, 'taken', medications);
+      if (!safety.canProceed) {
+        alert(safety.errors.join('\n'));
+        return;
+      }
+    }
+
+    // Track notification behavior for adaptive notifications
+    if (status === 'taken' && userPreferences.adaptiveNotifications) {
+      const now = new Date();
+      const actualTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+      updateNotificationBehavior(id, time, actualTime);
+    }
     
     // Create undo action
     const undoAction: UndoAction = {
@@ -528,18 +734,11 @@ const App: React.FC = () => {
       timestamp: new Date().toISOString(),
       data: { id, date, time, oldStatus },
       undo: () => {
-        setMedications(prevMed => prevMed.map(m => {
-          if (m.id === id) {
-            const newDoseStatus = { ...m.doseStatus };
-            if (oldStatus) {
-              newDoseStatus[dateTimeKey] = oldStatus;
-            } else {
-              delete newDoseStatus[dateTimeKey];
-            }
-            return { ...m, doseStatus: newDoseStatus };
-          }
-          return m;
-        }));
+        // The log is append-only, so undoing records the previous state again
+        const restoreEvent = oldStatus
+          ? createDoseEvent(id, dateTimeKey, oldState.amount !== undefined ? 'partial' : oldStatus, { takenAt: oldState.takenAt, amount: oldState.amount, actor })
+          : createDoseEvent(id, dateTimeKey, 'undone', { actor });
+        setMedications(prevMed => prevMed.map(m => m.id === id ? appendDoseEvents(m, [restoreEvent]) : m));
       },
     };
     
@@ -548,39 +747,27 @@ const App: React.FC = () => {
     setUndoAction(undoAction);
     setTimeout(() => setUndoAction(null), 5000); // Show undo for 5 seconds
     
+    const event = createDoseEvent(id, dateTimeKey, status === null ? 'undone' : status, { actor });
+    logAction('edit', 'medication', id, `${status === null ? 'Cleared' : `Marked ${status}`}: ${med.name} dose at ${time} on ${date}`, actor);
+    
     // Update medication state
     setMedications(prev => prev.map(med => {
       if (med.id === id) {
-        const newDoseStatus = { ...(med.doseStatus || {}) };
-
-        if (status === null) { // This means un-marking the dose
-          delete newDoseStatus[dateTimeKey];
-        } else {
-          newDoseStatus[dateTimeKey] = status;
-        }
-
-        let newQuantity = med.quantity;
-        if (typeof newQuantity === 'number') {
-            if (status === 'taken' && oldStatus !== 'taken') {
-                newQuantity -= 1;
-            } else if (oldStatus === 'taken' && status !== 'taken') {
-                newQuantity += 1;
-            }
-        }
-        
-        return { ...med, doseStatus: newDoseStatus, quantity: newQuantity };
+        return { ...appendDoseEvents(med, [event]), quantity: getQuantityAfterDose(med, dateTimeKey, oldStatus, status) };
       }
       return med;
     }));
   };
 
   const saveMissedDoseReasons = (reasonsToSave: { [medId: string]: { [dateTimeKey: string]: string } }) => {
+    if (!isAllowed('markDoses')) return;
     setMedications(prevMeds =>
         prevMeds.map(med => {
             if (reasonsToSave[med.id]) {
-                const newReasons = { ...(med.missedDoseReasons || {}) };
-                Object.assign(newReasons, reasonsToSave[med.id]);
-                return { ...med, missedDoseReasons: newReasons };
+                const noteEvents = Object.entries(reasonsToSave[med.id]).map(([dateTimeKey, reason]) =>
+                    createDoseEvent(med.id, dateTimeKey, 'note', { note: reason })
+                );
+                return appendDoseEvents(med, noteEvents);
             }
             return med;
         })
@@ -589,12 +776,12 @@ const App: React.FC = () => {
 
   const logRefill = (id: string) => {
     const medToRefill = medications.find(m => m.id === id);
-    if (!medToRefill) return;
+    if (!medToRefill || !isAllowed('editSchedules', id)) return;
 
-    const newQuantityStr = window.prompt(`Enter the new quantity for ${medToRefill.name}:`, medToRefill.quantity?.toString() || '30');
+    const newQuantityStr = window.prompt(`Enter the new quantity for ${medToRefill.name} (${getInventoryLabel(getInventoryUnit(medToRefill))}):`, medToRefill.quantity?.toString() || '30');
     if (newQuantityStr === null) return; // User cancelled
 
-    const newQuantity = parseInt(newQuantityStr, 10);
+    const newQuantity = parseFloat(newQuantityStr);
     if (isNaN(newQuantity) || newQuantity < 0) {
         alert("Please enter a valid number.");
         return;
@@ -617,6 +804,7 @@ const App: React.FC = () => {
   };
 
   const exportData = () => {
+    if (!isAllowed('exportReports')) return;
     if (medications.length === 0) {
         alert("No data to export.");
         return;
@@ -657,22 +845,16 @@ const App: React.FC = () => {
     // Export Dose History
     const historyLog: {date: string; time: string; name: string; status: DoseStatus | 'missed'; reason?: string}[] = [];
     medications.forEach(med => {
-        const allDateTimeKeys = new Set([
-          ...Object.keys(med.doseStatus || {}),
-          ...Object.keys(med.missedDoseReasons || {}),
-        ]);
-
-        allDateTimeKeys.forEach(dateTimeKey => {
+        Object.entries(getDoseStates(med)).forEach(([dateTimeKey, state]) => {
             const [date, time] = dateTimeKey.split('T');
-            const status = med.doseStatus?.[dateTimeKey];
-            const reason = med.missedDoseReasons?.[dateTimeKey];
+            if (!state.status && !state.note) return; // Snoozed only
             
             historyLog.push({
                 date,
                 time,
                 name: med.name,
-                status: status || 'missed',
-                reason: reason,
+                status: state.status || 'missed',
+                reason: state.note,
             });
         });
     });
@@ -710,10 +892,12 @@ const App: React.FC = () => {
   }, [medications]);
 
   const handleSaveSymptom = (entry: SymptomEntry) => {
+    if (!isAllowed('viewJournal')) return;
     setSymptomEntries(prev => [...prev, entry]);
   };
 
   const handleAcceptPatternSuggestion = (patternId: string, medicationId: string, suggestion: string) => {
+    if (!isAllowed('editSchedules', medicationId)) return;
     // Apply suggestion - in a real app, this would update medication times
     console.log('Applying suggestion:', suggestion, 'for medication:', medicationId);
     // For now, just remove the pattern
@@ -735,7 +919,134 @@ const App: React.FC = () => {
     }));
   };
 
+  // Caregivers are managed in Settings; fall back to the patient if the current one was removed
+  useEffect(() => {
+    setCurrentActorState(getCurrentActor());
+  }, [currentView]);
+
+  // Caregivers only see the medications, and the journal, they've been given access to
+  const permissions = getActorPermissions(currentActor);
+  const visibleMedications = getVisibleMedications(currentActor, medications);
+  const visibleSymptomEntries = permissions.viewJournal ? symptomEntries : [];
+
+  const switchActor = (actorId: string) => {
+    setPendingActorId(null);
+    if (currentActor.type === 'caregiver') {
+      logAction('logout', 'caregiver', currentActor.id, `${currentActor.name} stopped using the app`, currentActor);
+    }
+    const actor = setCurrentActor(actorId);
+    setCurrentActorState(actor);
+    if (actor.type === 'caregiver') {
+      logAction('login', 'caregiver', actor.id, `${actor.name} started using the app`, actor);
+    }
+  };
+
+  // Only the patient can give back access a caregiver doesn't have, so that needs their PIN
+  const handleSwitchActor = (actorId: string) => {
+    const actor = availableActors.find(entry => entry.id === actorId);
+    if (!actor || actorId === currentActor.id) return;
+    if (!appSecurity.pinHash) {
+      if (currentActor.type === 'patient' && actor.type === 'caregiver') {
+        if (confirm('Set a PIN first, so only you can switch back from a caregiver. Set one now?')) {
+          setShowPinSetup(true);
+        }
+        return;
+      }
+    } else if (widensPermissions(currentActor, actor)) {
+      setPendingActorId(actor.id);
+      return;
+    }
+    switchActor(actor.id);
+  };
+
+  const handleSwitchProfile = async (profileId: string) => {
+    if (profileId === activeProfile.id) return;
+    try {
+      const data = await switchProfile(profileId);
+      setMedications(data.medications);
+      setSymptomEntries(data.symptomEntries);
+      setUserPreferences(data.userPreferences || DEFAULT_USER_PREFERENCES);
+      setEmergencyInfo(data.emergencyInfo || EMPTY_EMERGENCY_INFO);
+      setPRNConfigs(data.prnConfigs);
+      setMedicationEducations(data.medicationEducations);
+      setProfiles(getProfiles());
+      setActiveProfile(getActiveProfile());
+      // Undoing would apply to the other profile's medications
+      undoService.clear();
+      setUndoAction(null);
+      logAction('view', 'data', profileId, `Switched to ${getActiveProfile().name}'s profile`);
+    } catch (error) {
+      console.error("Failed to switch profiles", error);
+      alert("Couldn't switch profiles. Please try again.");
+    }
+  };
+
+  const handleAddProfile = async (name: string) => {
+    try {
+      const profile = await createProfile(name);
+      setProfiles(getProfiles());
+      logAction('add', 'data', profile.id, `Added a profile for ${profile.name}`);
+    } catch (error) {
+      console.error("Failed to add profile", error);
+      alert("Couldn't add the profile. Please try again.");
+    }
+  };
+
+  const handleRenameProfile = async (profileId: string, name: string) => {
+    try {
+      await renameProfile(profileId, name);
+      setProfiles(getProfiles());
+      setActiveProfile(getActiveProfile());
+    } catch (error) {
+      console.error("Failed to rename profile", error);
+    }
+  };
+
+  const handleRemoveProfile = async (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    try {
+      await removeProfile(profileId);
+      setProfiles(getProfiles());
+      logAction('delete', 'data', profileId, `Removed the profile for ${profile?.name || 'a household member'}`);
+    } catch (error: any) {
+      console.error("Failed to remove profile", error);
+      alert(error?.message || "Couldn't remove the profile.");
+    }
+  };
+
+  const handleHouseholdMarkDose = async (profileId: string, medicationId: string, date: string, time: string, status: DoseStatus) => {
+    if (profileId === activeProfile.id) {
+      updateDoseStatus(medicationId, date, time, status);
+      return;
+    }
+    if (!isAllowed('markDoses', medicationId)) return;
+    try {
+      await recordInactiveProfileDose(profileId, medicationId, `${date}T${time}`, status);
+      const profile = profiles.find(p => p.id === profileId);
+      logAction('edit', 'medication', medicationId, `Marked ${status} for ${profile?.name || 'another profile'}: dose at ${time} on ${date}`);
+      setHouseholdVersion(version => version + 1);
+    } catch (error: any) {
+      console.error("Failed to record dose", error);
+      alert(error?.message || "Couldn't record the dose. Please try again.");
+    }
+  };
+
   const renderView = () => {
+    // Caregivers get their own dashboard, and the doses they mark are recorded as theirs
+    const actingCaregiver = getActorCaregiver(currentActor);
+    if (actingCaregiver && currentView === View.Dashboard) {
+      return (
+        <CaregiverDashboard
+          medications={visibleMedications}
+          caregivers={getItem('caregivers') || []}
+          currentDate={new Date().toISOString().split('T')[0]}
+          onMarkDose={(medicationId, date, time, status) => updateDoseStatus(medicationId, date, time, status, currentActor)}
+          permissions={permissions}
+          caregiverName={actingCaregiver.name}
+        />
+      );
+    }
+
     // Check if Easy Mode is enabled
     if (userPreferences.easyMode && currentView === View.Dashboard) {
       const today = new Date();
@@ -743,7 +1054,7 @@ const App: React.FC = () => {
       const todayString = today.toISOString().split('T')[0];
       return (
         <EasyModeDashboard
-          medications={medications}
+          medications={visibleMedications}
           updateDoseStatus={updateDoseStatus}
           todayString={todayString}
         />
@@ -754,14 +1065,14 @@ const App: React.FC = () => {
       case View.Dashboard:
         return (
           <Dashboard 
-            medications={medications} 
+            medications={visibleMedications} 
             updateDoseStatus={updateDoseStatus} 
             logRefill={logRefill} 
             interactionResult={interactionResult} 
             requestConfirmation={requestConfirmation}
             userPreferences={userPreferences}
-            symptomEntries={symptomEntries}
-            onSaveSymptom={handleSaveSymptom}
+            symptomEntries={visibleSymptomEntries}
+            onSaveSymptom={permissions.viewJournal ? handleSaveSymptom : undefined}
             behavioralPatterns={behavioralPatterns}
             onAcceptPatternSuggestion={handleAcceptPatternSuggestion}
             onDismissPattern={handleDismissPattern}
@@ -776,24 +1087,44 @@ const App: React.FC = () => {
           />
         );
       case View.Meds:
-        return <MedicationListScreen medications={medications} onEdit={handleEdit} onDeleteRequest={handleDeleteRequest} />;
+        return <MedicationListScreen medications={visibleMedications} onEdit={handleEdit} onDeleteRequest={handleDeleteRequest} />;
       case View.Reports:
-        return <ReportsScreen medications={medications} />;
+        return <ReportsScreen medications={visibleMedications} />;
+      case View.Household:
+        return (
+          <HouseholdDueNow
+            members={getHouseholdMedications(medications).map(member => ({
+              ...member,
+              medications: getVisibleMedications(currentActor, member.medications),
+            }))}
+            onMarkDose={handleHouseholdMarkDose}
+            onOpenProfile={async (profileId) => {
+              await handleSwitchProfile(profileId);
+              setCurrentView(View.Dashboard);
+            }}
+          />
+        );
       case View.Settings:
         return <SettingsScreen 
           onExportData={exportData} 
           userPreferences={userPreferences}
           setUserPreferences={setUserPreferences}
           appSecurity={appSecurity}
-          setAppSecurity={setAppSecurity}
+          setAppSecurity={handleSecuritySettingsChange}
+          onChangePin={() => setShowPinSetup(true)}
           emergencyInfo={emergencyInfo}
           onUpdateEmergencyInfo={setEmergencyInfo}
-          medications={medications}
-          symptomEntries={symptomEntries}
+          medications={visibleMedications}
+          symptomEntries={visibleSymptomEntries}
+          permissions={permissions}
+          canManageCaregivers={currentActor.type === 'patient'}
+          canManageSecurity={currentActor.type === 'patient'}
+          onSync={handleSync}
+          onRemindersChange={() => setHouseholdVersion(version => version + 1)}
         />;
       default:
         return <Dashboard 
-          medications={medications} 
+          medications={visibleMedications} 
           updateDoseStatus={updateDoseStatus} 
           logRefill={logRefill} 
           interactionResult={interactionResult} 
@@ -803,6 +1134,8 @@ const App: React.FC = () => {
     }
   };
 
+  const availableActors = getAvailableActors();
+
   const fontSizeClass = userPreferences.fontSize === 'large' ? 'text-base' : 
                        userPreferences.fontSize === 'extra-large' ? 'text-lg' : 'text-sm';
   const contrastClass = userPreferences.highContrast ? 'high-contrast' : '';
@@ -844,7 +1177,7 @@ const App: React.FC = () => {
 
   const handleOnboardingComplete = (preferences: Partial<UserPreferences>, mode: string) => {
     setUserPreferences({ ...userPreferences, ...preferences });
-    localStorage.setItem('hasSeenOnboarding', 'true');
+    setItem('hasSeenOnboarding', true);
     setShowOnboarding(false);
   };
 
@@ -853,7 +1186,7 @@ const App: React.FC = () => {
     const newMed: Medication = {
       ...medication,
       id: Date.now().toString(),
-      doseStatus: {},
+      doseEvents: [],
       quantity: medication.quantity || undefined,
     };
     addMedication(newMed);
@@ -866,7 +1199,7 @@ const App: React.FC = () => {
         <OnboardingQuestionnaire
           onComplete={handleOnboardingComplete}
           onSkip={() => {
-            localStorage.setItem('hasSeenOnboarding', 'true');
+            setItem('hasSeenOnboarding', true);
             setShowOnboarding(false);
           }}
         />
@@ -881,19 +1214,26 @@ const App: React.FC = () => {
       )}
 
       {/* App Lock */}
-      {appSecurity.isLocked && (
+      {(appSecurity.isLocked || showPinSetup) && (
         <AppLock
           security={appSecurity}
-          onUnlock={() => setAppSecurity(prev => ({ 
-            ...prev, 
-            isLocked: false, 
-            lastUnlockTime: new Date().toISOString() 
-          }))}
-          onSetPin={(pinHash) => setAppSecurity(prev => ({ 
-            ...prev, 
-            pinHash, 
-            lockMethod: 'pin' as const 
-          }))}
+          onUnlock={handleUnlock}
+          onSetPin={handleSetPin}
+          onUpdateSecurity={changes => setAppSecurity(prev => ({ ...prev, ...changes }))}
+          isChangingPin={showPinSetup && !appSecurity.isLocked}
+          onCancel={handleCancelPinSetup}
+        />
+      )}
+
+      {/* PIN check before switching to someone with more access */}
+      {pendingActorId && !appSecurity.isLocked && (
+        <AppLock
+          security={appSecurity}
+          onUnlock={() => switchActor(pendingActorId)}
+          onSetPin={handleSetPin}
+          onUpdateSecurity={changes => setAppSecurity(prev => ({ ...prev, ...changes }))}
+          verifyReason={`Enter the patient's PIN to switch to ${availableActors.find(actor => actor.id === pendingActorId)?.name || 'them'}`}
+          onCancel={() => setPendingActorId(null)}
         />
       )}
 
@@ -910,13 +1250,13 @@ const App: React.FC = () => {
       {/* Contextual Tips */}
       <ContextualTips
         userPreferences={userPreferences}
-        medications={medications}
+        medications={visibleMedications}
         onDismiss={(tipId) => setDismissedTips(prev => [...prev, tipId])}
       />
 
       {/* Seasonal Alerts */}
       <SeasonalAlerts
-        medications={medications}
+        medications={visibleMedications}
         userPreferences={userPreferences}
         onDismiss={(alertId) => {
           const dismissed = JSON.parse(localStorage.getItem('dismissedSeasonalAlerts') || '[]');
@@ -930,7 +1270,7 @@ const App: React.FC = () => {
 
       {/* Cost Saving Suggestions */}
       <CostSavingSuggestions
-        medications={medications}
+        medications={visibleMedications}
         onDismiss={(suggestionId) => {
           const dismissed = JSON.parse(localStorage.getItem('dismissedCostSuggestions') || '[]');
           dismissed.push(suggestionId);
@@ -940,7 +1280,7 @@ const App: React.FC = () => {
 
       {/* Periodic Check-In Reminders */}
       <PeriodicCheckIn
-        medications={medications}
+        medications={visibleMedications}
         onDismiss={(reminderId) => {
           const dismissed = JSON.parse(localStorage.getItem('dismissedCheckIns') || '[]');
           dismissed.push(reminderId);
@@ -951,7 +1291,7 @@ const App: React.FC = () => {
       {/* Quick Add Medication */}
       {showQuickAdd && (
         <QuickAddMedication
-          medications={medications}
+          medications={visibleMedications}
           onSelect={handleQuickAddSelect}
           onClose={() => setShowQuickAdd(false)}
         />
@@ -969,13 +1309,40 @@ const App: React.FC = () => {
       <div className="container mx-auto max-w-lg h-screen flex flex-col shadow-2xl app-container">
         <header className="brand-gradient text-white p-4 text-center sticky top-0 z-10 shadow-lg">
           <h1 className="text-2xl font-bold tracking-wide">PillPal</h1>
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfile.id}
+            onSwitch={handleSwitchProfile}
+            onAdd={handleAddProfile}
+            onRename={handleRenameProfile}
+            onRemove={handleRemoveProfile}
+          />
+          {availableActors.length > 1 && (
+            <label className="mt-1 flex items-center justify-center gap-2 text-xs">
+              <span className="opacity-90">Using the app:</span>
+              <select
+                value={currentActor.id}
+                onChange={(e) => handleSwitchActor(e.target.value)}
+                className="bg-white/20 text-white text-xs rounded border-none py-0.5 pl-2 pr-7 focus:ring-2 focus:ring-white"
+                aria-label="Who is using the app"
+              >
+                {availableActors.map(actor => (
+                  <option key={actor.id} value={actor.id} className="text-gray-800">
+                    {actor.type === 'caregiver' ? `${actor.name} (caregiver)` : actor.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
         </header>
         
         <main className="flex-1 overflow-y-auto p-4 pb-24 space-y-4">
+          <EscalationInbox escalations={escalationInbox} onAcknowledge={handleAcknowledgeEscalation} />
+          <SyncConflicts conflicts={syncConflicts} onResolve={handleResolveSyncConflict} />
           {renderView()}
         </main>
 
-        {currentView !== View.Meds && (
+        {currentView !== View.Meds && permissions.editSchedules && (
           <div className="fixed bottom-20 right-1/2 translate-x-1/2 mb-4 z-20 flex gap-2" style={{'left': 'calc(50% - 0px - (100vw - 32rem)/2)'}}>
             <button
               onClick={() => setShowQuickAdd(true)}
@@ -995,7 +1362,7 @@ const App: React.FC = () => {
           </div>
         )}
 
-        <BottomNav currentView={currentView} setView={setCurrentView} />
+        <BottomNav currentView={currentView} setView={setCurrentView} showHousehold={profiles.length > 1} />
 
         {isModalOpen && (
           <AddMedicationModal
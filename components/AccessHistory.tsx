@@ -1,6 +1,7 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { DownloadIcon, TrashIcon } from './icons';
-import { getAuditLogs, getFilteredAuditLogs, clearAuditLogs, exportAuditLogs, AuditLogEntry } from '../services/auditLogService';
+import { Actor } from '../types';
+import { getAuditLogs, getFilteredAuditLogs, clearAuditLogs, exportAuditLogs, verifyAuditChain, summarizeByActor, AuditLogEntry, AuditChainVerification } from '../services/auditLogService';
 
 interface AccessHistoryProps {
   onClose: () => void;
@@ -10,14 +11,31 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
   const [filter, setFilter] = useState<{
     action?: AuditLogEntry['action'];
     resource?: AuditLogEntry['resource'];
+    actorId?: string;
+    actorType?: Actor['type'];
     startDate?: string;
     endDate?: string;
   }>({});
 
+  const [chainStatus, setChainStatus] = useState<AuditChainVerification | null>(null);
+
   const logs = useMemo(() => {
     return getFilteredAuditLogs(filter);
   }, [filter]);
 
+  // Everyone who appears in the history, including caregivers who have since been removed
+  const actors = useMemo(() => {
+    return summarizeByActor(getAuditLogs()).filter(summary => summary.actorId);
+  }, []);
+
+  const actorSummaries = useMemo(() => summarizeByActor(logs), [logs]);
+
+  useEffect(() => {
+    verifyAuditChain().then(setChainStatus).catch(error => {
+      console.error('Failed to verify audit log:', error);
+    });
+  }, []);
+
   const handleExport = () => {
     const logData = exportAuditLogs();
     const blob = new Blob([logData], { type: 'application/json' });
@@ -29,9 +47,9 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
     URL.revokeObjectURL(url);
   };
 
-  const handleClear = () => {
-    if (confirm('Are you sure you want to clear all audit logs? This action cannot be undone.')) {
-      clearAuditLogs();
+  const handleClear = async () => {
+    if (confirm('Clear the access history from this list? Entries are moved to the archive and the clearing is logged.')) {
+      await clearAuditLogs();
       window.location.reload();
     }
   };
@@ -59,6 +77,25 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
         </header>
 
         <main className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Chain Verification */}
+          {chainStatus ? (
+            chainStatus.intact ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+                <p className="font-semibold">✓ Chain intact</p>
+                <p className="text-xs">All {chainStatus.checked} entries, including archived ones, are unchanged and in order.</p>
+              </div>
+            ) : (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                <p className="font-semibold">⚠️ Chain broken at entry {chainStatus.brokenAt}</p>
+                <p className="text-xs">
+                  {chainStatus.reason}. Entries from this point on may have been altered outside the app.
+                </p>
+              </div>
+            )
+          ) : (
+            <p className="text-sm text-gray-500">Verifying access history…</p>
+          )}
+
           {/* Filters */}
           <div className="bg-gray-50 p-4 rounded-lg space-y-3">
             <h3 className="font-semibold text-gray-800 mb-2">Filters</h3>
@@ -77,6 +114,8 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
                   <option value="view">View</option>
                   <option value="export">Export</option>
                   <option value="share">Share</option>
+                  <option value="login">Started Using</option>
+                  <option value="logout">Stopped Using</option>
                 </select>
               </div>
               <div>
@@ -92,6 +131,32 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
                   <option value="settings">Settings</option>
                   <option value="data">Data</option>
                   <option value="report">Report</option>
+                  <option value="caregiver">Caregiver</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Person</label>
+                <select
+                  value={filter.actorId || ''}
+                  onChange={(e) => setFilter(prev => ({ ...prev, actorId: e.target.value || undefined }))}
+                  className="w-full border-gray-300 rounded-md shadow-sm text-sm"
+                >
+                  <option value="">Everyone</option>
+                  {actors.map(actor => (
+                    <option key={actor.actorId} value={actor.actorId}>{actor.actorName}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                <select
+                  value={filter.actorType || ''}
+                  onChange={(e) => setFilter(prev => ({ ...prev, actorType: e.target.value as Actor['type'] || undefined }))}
+                  className="w-full border-gray-300 rounded-md shadow-sm text-sm"
+                >
+                  <option value="">Patient & Caregivers</option>
+                  <option value="patient">Patient</option>
+                  <option value="caregiver">Caregivers</option>
                 </select>
               </div>
               <div>
@@ -115,6 +180,34 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
             </div>
           </div>
 
+          {/* Per-Person Summary */}
+          {actorSummaries.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Who Changed What</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {actorSummaries.map(summary => (
+                  <button
+                    key={summary.actorId || 'unknown'}
+                    onClick={() => summary.actorId && setFilter(prev => ({ ...prev, actorId: summary.actorId }))}
+                    className="text-left bg-white border border-gray-200 rounded-lg p-3 hover:border-indigo-300"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold text-gray-800">{summary.actorName}</span>
+                      <span className="text-xs text-gray-500">
+                        {summary.actorType === 'caregiver' ? 'Caregiver' : summary.actorType === 'patient' ? 'Patient' : ''}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {summary.total} {summary.total === 1 ? 'entry' : 'entries'}:{' '}
+                      {Object.entries(summary.actions).map(([action, count]) => `${count} ${action}`).join(', ')}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">Last: {new Date(summary.lastActivity).toLocaleString()}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Logs List */}
           <div>
             <div className="flex items-center justify-between mb-3">
@@ -157,6 +250,11 @@ const AccessHistory: React.FC<AccessHistoryProps> = ({ onClose }) => {
                         {log.resourceId && (
                           <span className="text-xs text-gray-500">ID: {log.resourceId}</span>
                         )}
+                        {log.actorName && (
+                          <span className="text-xs text-indigo-700">
+                            by {log.actorName}{log.actorType === 'caregiver' ? ' (caregiver)' : ''}
+                          </span>
+                        )}
                       </div>
                       {log.details && (
                         <p className="text-xs text-gray-600">{log.details}</p>
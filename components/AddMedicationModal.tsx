@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Medication } from '../types';
+import { MealAnchor, MealType, Medication, RecurrenceRule, RecurrenceType } from '../types';
 import { identifyMedication, findPillImage, identifyMedicationByName, getTimesFromFrequency, parseMedicationInfoFromText, checkInteractions, identifyMedicationByImprint } from '../services/geminiService';
+import { getScheduledTimesForDate } from '../services/scheduleService';
+import { MEALS, MEAL_OFFSETS, describeMealAnchor, getActiveMealSchedule, getMealAnchoredTime } from '../services/mealService';
+import { getInventoryLabel, getInventoryUnit, parseDosage } from '../services/dosageService';
+import DoseEditor from './DoseEditor';
 import { CameraIcon, SearchIcon, PlusIcon, TrashIcon, MicrophoneIcon, XIcon, IdentificationIcon, InformationCircleIcon, SpinnerIcon, CheckCircleIcon, AlertTriangleIcon, PencilIcon } from './icons';
 
 interface AddMedicationModalProps {
@@ -29,7 +33,7 @@ interface BatchResult {
   error?: string;
 }
 
-const initialMedState: Omit<Medication, 'id' | 'doseStatus'> = {
+const initialMedState: Omit<Medication, 'id' | 'doseEvents'> = {
     name: '',
     dosage: '',
     frequency: '',
@@ -122,7 +126,7 @@ const resizeImage = (base64Str: string, maxWidth = 128, maxHeight = 128): Promis
 
 const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd, onUpdate, existingMedication, medications, requestConfirmation }) => {
   // Check for prefilled medication data
-  const getPrefilledData = (): Omit<Medication, 'id' | 'doseStatus'> | null => {
+  const getPrefilledData = (): Omit<Medication, 'id' | 'doseEvents'> | null => {
     try {
       const prefilled = localStorage.getItem('prefilledMedication');
       if (prefilled) {
@@ -137,12 +141,14 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
   };
 
   const prefilledData = getPrefilledData();
-  const [med, setMed] = useState<Omit<Medication, 'id' | 'doseStatus'>>(
+  const [med, setMed] = useState<Omit<Medication, 'id' | 'doseEvents'>>(
     existingMedication ? {
       name: existingMedication.name,
       dosage: existingMedication.dosage,
+      dose: existingMedication.dose,
       frequency: existingMedication.frequency,
       times: existingMedication.times,
+      mealAnchors: existingMedication.mealAnchors,
       food: existingMedication.food,
       drugClass: existingMedication.drugClass,
       sideEffects: existingMedication.sideEffects,
@@ -154,6 +160,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
       color: existingMedication.color,
       usageNote: existingMedication.usageNote,
       similarMeds: existingMedication.similarMeds,
+      recurrence: existingMedication.recurrence,
     } : (prefilledData || initialMedState)
   );
   
@@ -204,12 +211,14 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
       setMed({
         name: existingMedication.name,
         dosage: existingMedication.dosage,
+        dose: existingMedication.dose,
         frequency: existingMedication.frequency,
         food: existingMedication.food,
         image: existingMedication.image,
         quantity: existingMedication.quantity,
         refillThreshold: existingMedication.refillThreshold,
         times: existingMedication.times,
+        mealAnchors: existingMedication.mealAnchors,
         drugClass: existingMedication.drugClass,
         sideEffects: existingMedication.sideEffects,
         imprint: existingMedication.imprint,
@@ -218,6 +227,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
         refillHistory: existingMedication.refillHistory,
         startDate: existingMedication.startDate,
         taperingSchedule: existingMedication.taperingSchedule,
+        recurrence: existingMedication.recurrence,
       });
     }
   }, [existingMedication]);
@@ -234,14 +244,14 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
             setIsLoading(true);
             try {
                 const newTimes = await getTimesFromFrequency(med.frequency);
-                setMed(prev => ({ ...prev, times: newTimes }));
+                setMed(prev => ({ ...prev, times: newTimes, mealAnchors: undefined }));
             } catch (e) {
                 console.error("Failed to fetch reminder times:", e);
             } finally {
                 setIsLoading(false);
             }
         } else {
-            setMed(prev => ({...prev, times: [] }));
+            setMed(prev => ({...prev, times: [], mealAnchors: undefined }));
         }
     };
     
@@ -257,7 +267,12 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     const isNumber = type === 'number';
-    setMed(prev => ({ ...prev, [name]: isNumber ? (value === '' ? undefined : Number(value)) : value }));
+    setMed(prev => ({
+      ...prev,
+      [name]: isNumber ? (value === '' ? undefined : Number(value)) : value,
+      // A new dosage is parsed again, replacing any amount entered for the old one
+      ...(name === 'dosage' ? { dose: undefined } : {}),
+    }));
   };
 
   const handleTimeChange = (index: number, value: string) => {
@@ -266,8 +281,56 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
     setMed(prev => ({...prev, times: newTimes}));
   };
 
-  const addTime = () => setMed(prev => ({...prev, times: [...prev.times, '21:00']}));
-  const removeTime = (index: number) => setMed(prev => ({...prev, times: prev.times.filter((_, i) => i !== index)}));
+  const addTime = () => setMed(prev => ({...prev, times: [...prev.times, '21:00'], mealAnchors: prev.mealAnchors && [...prev.mealAnchors, null]}));
+  const removeTime = (index: number) => setMed(prev => ({
+    ...prev,
+    times: prev.times.filter((_, i) => i !== index),
+    mealAnchors: prev.mealAnchors?.filter((_, i) => i !== index),
+  }));
+
+  // Timing a dose by a meal sets its time from the meal's, and keeps it there when the meal moves
+  const handleMealAnchorChange = (index: number, value: string) => {
+    const [meal, offset] = value.split(':');
+    const anchor: MealAnchor | null = meal ? { meal: meal as MealType, offsetMinutes: Number(offset) } : null;
+    setMed(prev => {
+      const mealAnchors = prev.times.map((_, i) => (i === index ? anchor : prev.mealAnchors?.[i] || null));
+      const times = anchor ? prev.times.map((time, i) => (i === index ? getMealAnchoredTime(anchor, getActiveMealSchedule().mealTimes) : time)) : prev.times;
+      return { ...prev, times, mealAnchors };
+    });
+  };
+
+  const handleRecurrenceTypeChange = (type: RecurrenceType) => {
+    if (type === 'daily') {
+        // Plain daily schedules only need a rule when the course has an end date
+        setMed(prev => ({ ...prev, recurrence: prev.recurrence?.endDate ? { type, endDate: prev.recurrence.endDate } : undefined }));
+        return;
+    }
+    const today = new Date().toISOString().split('T')[0];
+    const defaults: Partial<RecurrenceRule> = {
+        interval: { intervalDays: 2 },
+        weekly: { weekdays: [1, 3, 5] },
+        cycle: { cycleOnDays: 21, cycleOffDays: 7 },
+        hourly: { intervalHours: 8, firstDoseTime: med.times[0] || '08:00' },
+    }[type];
+    setMed(prev => ({
+        ...prev,
+        recurrence: {
+            type,
+            ...defaults,
+            startDate: prev.recurrence?.startDate || today,
+            endDate: prev.recurrence?.endDate,
+        },
+    }));
+  };
+
+  const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+    setMed(prev => ({ ...prev, recurrence: { ...(prev.recurrence || { type: 'daily' }), ...changes } }));
+  };
+
+  const toggleRecurrenceWeekday = (day: number) => {
+    const weekdays = med.recurrence?.weekdays || [];
+    updateRecurrence({ weekdays: weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day].sort() });
+  };
   
   const blobToBase64 = (blob: Blob): Promise<{ base64: string; mimeType: string }> => {
     return new Promise((resolve, reject) => {
@@ -362,8 +425,10 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
     setMed(prev => ({
         ...prev,
         ...details,
+        dose: details.dosage && details.dosage !== prev.dosage ? details.dose : prev.dose,
         image: image || details.image || prev.image,
         times: newTimes,
+        mealAnchors: undefined,
         taperingSchedule,
         startDate: startDate || prev.startDate || existingMedication?.startDate,
     }));
@@ -876,7 +941,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
               const newDosage = parsedInfo.dosage || med.dosage;
               const newFood = (parsedInfo as any).food || med.food;
 
-              setMed(prev => ({ ...prev, name: newName, dosage: newDosage, frequency: parsedInfo.frequency || transcript, food: newFood, }));
+              setMed(prev => ({ ...prev, name: newName, dosage: newDosage, dose: newDosage !== prev.dosage ? undefined : prev.dose, frequency: parsedInfo.frequency || transcript, food: newFood, }));
               if (newName && newDosage) await handlePillDetailsSearch(newName, newDosage);
             } catch (e) {
               setError("Could not parse medication from voice.");
@@ -884,7 +949,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
               setIsLoading(false);
             }
           } else {
-            setMed(prev => ({ ...prev, [field]: transcript }));
+            setMed(prev => ({ ...prev, [field]: transcript, ...(field === 'dosage' ? { dose: undefined } : {}) }));
             const currentName = field === 'name' ? transcript : med.name;
             const currentDosage = field === 'dosage' ? transcript : med.dosage;
             if (currentName && currentDosage && field === 'dosage') await handlePillDetailsSearch(currentName, currentDosage);
@@ -920,6 +985,10 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
     return inBatch;
   }, [medications, batchResults]);
 
+  // Read from the dosage until they enter the amount themselves
+  const structuredDose = med.dose || parseDosage(med.dosage);
+  const inventoryLabel = getInventoryLabel(getInventoryUnit({ ...med, dose: structuredDose || undefined } as Medication));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -928,7 +997,8 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
         return;
     }
 
-    if (med.times.length === 0 && med.frequency && !med.frequency.toLowerCase().includes('as needed')) {
+    const isHourly = med.recurrence?.type === 'hourly';
+    if (!isHourly && med.times.length === 0 && med.frequency && !med.frequency.toLowerCase().includes('as needed')) {
         requestConfirmation({
             title: 'Reminder Time Required',
             message: 'Please add at least one reminder time for this medication schedule. If no specific times are needed, you can change the frequency to "as needed".',
@@ -939,7 +1009,12 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
         return;
     }
 
-    const finalMedData = { ...med };
+    const finalMedData = { ...med, dose: structuredDose || undefined };
+    if (isHourly || !med.mealAnchors?.some(Boolean)) finalMedData.mealAnchors = undefined;
+    if (isHourly && med.recurrence?.startDate) {
+        // Keep `times` meaningful for screens that show a single day's reminders
+        finalMedData.times = getScheduledTimesForDate(med as Medication, med.recurrence.startDate);
+    }
 
     if (isMedicationDuplicate(finalMedData, existingMedication?.id, editingBatchItemId || undefined)) {
         if (editingBatchItemId) {
@@ -1375,6 +1450,7 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
                 <div className="mt-1 flex rounded-md shadow-sm"><input ref={dosageInputRef} type="text" name="dosage" id="dosage" value={med.dosage} onChange={handleChange} onBlur={handleDosageBlur} placeholder="e.g., 500mg" required className="flex-1 block w-full border border-gray-300 rounded-none rounded-l-md focus:ring-2 focus:ring-indigo-300 focus:border-indigo-500 px-3 py-2 bg-white"/><button type="button" onClick={() => handleVoiceInput('dosage')} className={`relative inline-flex items-center px-3 py-2 border border-l-0 border-gray-300 text-sm font-medium rounded-r-md text-gray-700 bg-gray-50 hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 transition-colors ${isListening && voiceTargetField === 'dosage' ? 'bg-red-100 hover:bg-red-200' : ''}`} aria-label={`Use voice input for Dosage`}><MicrophoneIcon className={`h-5 w-5 ${isListening && voiceTargetField === 'dosage' ? 'text-red-500 animate-pulse' : 'text-gray-400'}`} /></button></div>
                 {isListening && voiceTargetField === 'dosage' && <p className="text-sm text-indigo-500 mt-1 animate-pulse">Listening...</p>}
             </div>
+            {med.dosage && <DoseEditor dose={structuredDose} onChange={(dose) => setMed(prev => ({ ...prev, dose }))} />}
             <button type="button" onClick={() => handlePillDetailsSearch()} disabled={!med.name || isSearchingDetails} className="flex items-center justify-center gap-2 w-full bg-gray-600 text-white font-semibold py-2.5 px-4 rounded-lg hover:bg-gray-700 disabled:bg-gray-400 transition-colors shadow-md">{isSearchingDetails ? <SpinnerIcon className="w-5 h-5"/> : <SearchIcon className="w-5 h-5"/>}{isSearchingDetails ? 'Auto-filling...' : 'Auto-fill by Name'}</button>
         </div>
         <div>
@@ -1383,16 +1459,71 @@ const AddMedicationModal: React.FC<AddMedicationModalProps> = ({ onClose, onAdd,
             <p className="text-xs text-gray-500 mt-1">Tip: Use the mic to say everything at once, like "Lisinopril 10mg once daily".</p>
             {isListening && voiceTargetField === 'frequency' && <p className="text-sm text-indigo-500 mt-1 animate-pulse">Listening...</p>}
         </div>
+        {med.recurrence?.type !== 'hourly' && (
         <div>
             <label className="block text-sm font-medium text-gray-700">Reminder Times</label>
             {med.times.length > 0 ? med.times.map((time, index) => (
-                <div key={index} className="flex items-center gap-2 mt-1"><input type="time" value={time} onChange={(e) => handleTimeChange(index, e.target.value)} className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/><button type="button" onClick={() => removeTime(index)} className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-50 transition-colors" aria-label="Remove time"><TrashIcon className="h-5 w-5"/></button></div>
+                <div key={index} className="flex items-center gap-2 mt-1">
+                    <input type="time" value={time} onChange={(e) => handleTimeChange(index, e.target.value)} disabled={!!med.mealAnchors?.[index]} className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"/>
+                    <select
+                        value={med.mealAnchors?.[index] ? `${med.mealAnchors[index]!.meal}:${med.mealAnchors[index]!.offsetMinutes}` : ''}
+                        onChange={(e) => handleMealAnchorChange(index, e.target.value)}
+                        className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                        aria-label="Time this dose by a meal"
+                    >
+                        <option value="">At this time</option>
+                        {MEALS.map(meal => (
+                            <optgroup key={meal} label={meal.charAt(0).toUpperCase() + meal.slice(1)}>
+                                {MEAL_OFFSETS.map(offset => (
+                                    <option key={offset} value={`${meal}:${offset}`}>{describeMealAnchor({ meal, offsetMinutes: offset })}</option>
+                                ))}
+                            </optgroup>
+                        ))}
+                    </select>
+                    <button type="button" onClick={() => removeTime(index)} className="p-2 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-50 transition-colors" aria-label="Remove time"><TrashIcon className="h-5 w-5"/></button>
+                </div>
             )) : <p className="text-sm text-gray-500 mt-2 p-3 bg-gray-50 rounded-md italic">No specific times needed based on frequency.</p>}
+            {med.mealAnchors?.some(Boolean) && <p className="text-xs text-gray-500 mt-1">Doses timed by a meal move when you change your meal times in Settings.</p>}
             {med.times.length < 8 && <button type="button" onClick={addTime} className="mt-2 flex items-center gap-1 text-sm text-indigo-600 font-semibold hover:underline"><PlusIcon className="w-4 h-4" /> Add Time</button>}
         </div>
+        )}
+        <div>
+            <label htmlFor="recurrenceType" className="block text-sm font-medium text-gray-700">Repeat</label>
+            <select id="recurrenceType" value={med.recurrence?.type || 'daily'} onChange={(e) => handleRecurrenceTypeChange(e.target.value as RecurrenceType)} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500">
+                <option value="daily">Every day</option>
+                <option value="interval">Every few days</option>
+                <option value="weekly">Specific days of the week</option>
+                <option value="cycle">Cycle (days on, days off)</option>
+                <option value="hourly">Every few hours</option>
+            </select>
+            {med.recurrence?.type === 'interval' && (
+                <div className="flex items-center gap-2 mt-2"><span className="text-sm text-gray-600">Every</span><input type="number" min="2" value={med.recurrence.intervalDays ?? 2} onChange={(e) => updateRecurrence({ intervalDays: Number(e.target.value) || 2 })} className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/><span className="text-sm text-gray-600">days</span></div>
+            )}
+            {med.recurrence?.type === 'weekly' && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                    {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((label, day) => (
+                        <button key={label} type="button" onClick={() => toggleRecurrenceWeekday(day)} className={`px-2.5 py-1 text-xs font-semibold rounded-full transition-colors ${med.recurrence?.weekdays?.includes(day) ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}>{label}</button>
+                    ))}
+                </div>
+            )}
+            {med.recurrence?.type === 'cycle' && (
+                <div className="flex items-center gap-2 mt-2"><input type="number" min="1" value={med.recurrence.cycleOnDays ?? 21} onChange={(e) => updateRecurrence({ cycleOnDays: Number(e.target.value) || 1 })} className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/><span className="text-sm text-gray-600">days on,</span><input type="number" min="0" value={med.recurrence.cycleOffDays ?? 7} onChange={(e) => updateRecurrence({ cycleOffDays: Number(e.target.value) || 0 })} className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/><span className="text-sm text-gray-600">days off</span></div>
+            )}
+            {med.recurrence?.type === 'hourly' && (
+                <div className="flex items-center gap-2 mt-2"><span className="text-sm text-gray-600">Every</span><input type="number" min="1" max="24" value={med.recurrence.intervalHours ?? 8} onChange={(e) => updateRecurrence({ intervalHours: Number(e.target.value) || 8 })} className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/><span className="text-sm text-gray-600">hours from</span><input type="time" value={med.recurrence.firstDoseTime || '08:00'} onChange={(e) => updateRecurrence({ firstDoseTime: e.target.value })} className="border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
+            )}
+            {med.recurrence && (
+                <div className="grid grid-cols-2 gap-4 mt-2">
+                    {med.recurrence.type !== 'daily' && (
+                        <div><label htmlFor="recurrenceStart" className="block text-xs font-medium text-gray-500">Starting</label><input type="date" id="recurrenceStart" value={med.recurrence.startDate || ''} onChange={(e) => updateRecurrence({ startDate: e.target.value || undefined })} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
+                    )}
+                    <div><label htmlFor="recurrenceEnd" className="block text-xs font-medium text-gray-500">Ending (Optional)</label><input type="date" id="recurrenceEnd" value={med.recurrence.endDate || ''} onChange={(e) => updateRecurrence({ endDate: e.target.value || undefined })} className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
+                </div>
+            )}
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div><label htmlFor="quantity" className="block text-sm font-medium text-gray-700">Pills in Bottle (Optional)</label><input type="number" name="quantity" id="quantity" value={med.quantity ?? ''} onChange={handleChange} placeholder="e.g., 30" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
-            <div><label htmlFor="refillThreshold" className="block text-sm font-medium text-gray-700">Refill Reminder (Pills)</label><input type="number" name="refillThreshold" id="refillThreshold" value={med.refillThreshold ?? ''} onChange={handleChange} placeholder="e.g., 5" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
+            <div><label htmlFor="quantity" className="block text-sm font-medium text-gray-700 capitalize">{inventoryLabel} Left (Optional)</label><input type="number" name="quantity" id="quantity" value={med.quantity ?? ''} onChange={handleChange} placeholder="e.g., 30" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
+            <div><label htmlFor="refillThreshold" className="block text-sm font-medium text-gray-700">Refill Reminder (<span className="capitalize">{inventoryLabel}</span>)</label><input type="number" name="refillThreshold" id="refillThreshold" value={med.refillThreshold ?? ''} onChange={handleChange} placeholder="e.g., 5" className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"/></div>
         </div>
         <div>
             <label htmlFor="food" className="block text-sm font-medium text-gray-700">Food Instructions</label>
@@ -1,25 +1,70 @@
 import React, { useState, useEffect } from 'react';
 import { AppSecurity } from '../types';
 import { LockClosedIcon } from './icons';
+import { hashPin, verifyPin, recordFailedAttempt, getRemainingLockoutSeconds, PinHash } from '../services/pinService';
+import { verifyBiometric } from '../services/webauthnService';
 
 interface AppLockProps {
   security: AppSecurity;
-  onUnlock: () => void;
-  onSetPin: (pin: string) => void;
+  onUnlock: (pin?: string) => void; // The PIN is passed so encrypted data can be unlocked with it
+  onSetPin: (hash: PinHash, pin: string) => void;
+  onUpdateSecurity: (changes: Partial<AppSecurity>) => void; // Failed attempts and re-hashed PINs
+  isChangingPin?: boolean; // Show the set/change PIN flow instead of the lock screen
+  verifyReason?: string; // Ask for the PIN to allow something, like switching to the patient, rather than to unlock
+  onCancel?: () => void;
 }
 
-const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
+const formatLockout = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin, onUpdateSecurity, isChangingPin = false, verifyReason, onCancel }) => {
   const [pin, setPin] = useState('');
   const [confirmPin, setConfirmPin] = useState('');
-  const [isSettingPin, setIsSettingPin] = useState(false);
+  // Changing an existing PIN asks for the current one first
+  const [isVerifyingCurrentPin, setIsVerifyingCurrentPin] = useState(isChangingPin && !!security.pinHash);
+  const [isSettingPin, setIsSettingPin] = useState(isChangingPin && !security.pinHash);
   const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockoutSeconds, setLockoutSeconds] = useState(() => getRemainingLockoutSeconds(security));
+
+  // Count down while PIN entry is locked out
+  useEffect(() => {
+    const update = () => setLockoutSeconds(getRemainingLockoutSeconds(security));
+    update();
+    if (!security.lockedUntil) return;
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [security.lockedUntil]);
 
-  // Simple PIN hash (in production, use proper hashing)
-  const hashPin = (pin: string): string => {
-    return btoa(pin).split('').reverse().join('');
+  const isLockedOut = lockoutSeconds > 0;
+
+  const handleCorrectPin = (enteredPin: string) => {
+    setPin('');
+    setError('');
+    if (isVerifyingCurrentPin) {
+      setIsVerifyingCurrentPin(false);
+      setIsSettingPin(true);
+    } else {
+      onUnlock(enteredPin);
+    }
   };
 
-  const handlePinSubmit = () => {
+  const handleCancelSetPin = () => {
+    setPin('');
+    setConfirmPin('');
+    setError('');
+    if (isChangingPin && onCancel) {
+      onCancel();
+    } else {
+      setIsSettingPin(false);
+    }
+  };
+
+  const handlePinSubmit = async () => {
+    if (isChecking) return;
+
     if (isSettingPin) {
       if (pin.length < 4) {
         setError('PIN must be at least 4 digits');
@@ -29,51 +74,56 @@ const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
         setError('PINs do not match');
         return;
       }
-      onSetPin(hashPin(pin));
+      setIsChecking(true);
+      const hash = await hashPin(pin);
+      setIsChecking(false);
+      onSetPin(hash, pin);
       setIsSettingPin(false);
       setPin('');
       setConfirmPin('');
       setError('');
+      return;
+    }
+
+    if (isLockedOut || !pin) return;
+
+    setIsChecking(true);
+    const { valid, upgradedHash } = await verifyPin(pin, security);
+    setIsChecking(false);
+
+    if (valid) {
+      onUpdateSecurity({ failedAttempts: 0, lockedUntil: undefined, ...upgradedHash });
+      handleCorrectPin(pin);
     } else {
-      if (security.pinHash && hashPin(pin) === security.pinHash) {
-        onUnlock();
-        setPin('');
-        setError('');
-      } else {
-        setError('Incorrect PIN');
-        setPin('');
-      }
+      const changes = recordFailedAttempt(security);
+      onUpdateSecurity(changes);
+      setError(changes.lockedUntil ? 'Incorrect PIN. Too many attempts, please wait.' : 'Incorrect PIN');
+      setPin('');
     }
   };
 
   const handleBiometric = async () => {
-    if ('credentials' in navigator && 'get' in navigator.credentials) {
-      try {
-        const credential = await (navigator.credentials as any).get({
-          publicKey: {
-            challenge: new Uint8Array(32),
-            allowCredentials: [],
-            userVerification: 'required',
-          },
-        });
-        if (credential) {
-          onUnlock();
-        }
-      } catch (error) {
-        console.error('Biometric authentication failed:', error);
-        setError('Biometric authentication failed');
-      }
-    } else {
-      // Fallback: simulate biometric (in real app, use WebAuthn API)
-      setError('Biometric authentication not available');
+    if (!security.biometricCredential) {
+      setError("Biometric unlock isn't set up on this device. Use your PIN.");
+      return;
     }
-  };
 
-  if (!security.isLocked && security.lockMethod === 'none') {
-    return null;
-  }
+    setIsChecking(true);
+    try {
+      const biometricCredential = await verifyBiometric(security.biometricCredential);
+      onUpdateSecurity({ biometricCredential, failedAttempts: 0, lockedUntil: undefined });
+      setError('');
+      onUnlock();
+    } catch (error: any) {
+      // Never unlock on failure; the PIN is always there to fall back on
+      console.error('Biometric authentication failed:', error);
+      setError(`${error?.message || 'Biometric authentication failed'}. Use your PIN instead.`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
 
-  if (!security.isLocked) {
+  if (!security.isLocked && !isChangingPin && !verifyReason) {
     return null;
   }
 
@@ -83,12 +133,16 @@ const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
         <div className="text-center mb-6">
           <LockClosedIcon className="h-16 w-16 text-indigo-600 mx-auto mb-4" />
           <h2 className="text-2xl font-bold text-gray-800">
-            {isSettingPin ? 'Set PIN' : 'App Locked'}
+            {isSettingPin
+              ? (security.pinHash ? 'Change PIN' : 'Set PIN')
+              : isVerifyingCurrentPin ? 'Current PIN' : verifyReason ? 'Enter PIN' : 'App Locked'}
           </h2>
           <p className="text-gray-600 mt-2">
             {isSettingPin 
               ? 'Enter a 4-digit PIN to secure your app'
-              : 'Enter your PIN to continue'}
+              : isVerifyingCurrentPin
+              ? 'Enter your current PIN to change it'
+              : verifyReason || 'Enter your PIN to continue'}
           </p>
         </div>
 
@@ -136,21 +190,17 @@ const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
             </div>
             <div className="flex gap-3">
               <button
-                onClick={() => {
-                  setIsSettingPin(false);
-                  setPin('');
-                  setConfirmPin('');
-                  setError('');
-                }}
+                onClick={handleCancelSetPin}
                 className="flex-1 bg-gray-200 text-gray-800 py-3 rounded-lg font-semibold hover:bg-gray-300"
               >
                 Cancel
               </button>
               <button
                 onClick={handlePinSubmit}
-                className="flex-1 bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700"
+                disabled={isChecking}
+                className="flex-1 bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 disabled:opacity-50"
               >
-                Set PIN
+                {isChecking ? 'Saving…' : 'Set PIN'}
               </button>
             </div>
           </div>
@@ -164,14 +214,21 @@ const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
                   setPin(e.target.value.replace(/\D/g, '').slice(0, 6));
                   setError('');
                 }}
-                className="w-full text-center text-2xl tracking-widest border-2 border-gray-300 rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                className="w-full text-center text-2xl tracking-widest border-2 border-gray-300 rounded-lg p-4 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100"
                 placeholder="Enter PIN"
                 maxLength={6}
                 autoFocus
+                disabled={isLockedOut}
                 onKeyPress={(e) => e.key === 'Enter' && handlePinSubmit()}
               />
             </div>
 
+            {isLockedOut && (
+              <p className="text-center text-sm text-red-700">
+                Too many incorrect PINs. Try again in {formatLockout(lockoutSeconds)}.
+              </p>
+            )}
+
             <div className="grid grid-cols-3 gap-3">
               {[1, 2, 3, 4, 5, 6, 7, 8, 9, '', 0, '⌫'].map((num) => (
                 <button
@@ -180,35 +237,24 @@ const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
                     if (num === '⌫') {
                       setPin(prev => prev.slice(0, -1));
                     } else if (num !== '') {
-                      setPin(prev => {
-                        const newPin = prev + num;
-                        if (newPin.length >= 4 && security.pinHash) {
-                          setTimeout(() => {
-                            if (hashPin(newPin) === security.pinHash) {
-                              onUnlock();
-                              setPin('');
-                            } else if (newPin.length === 6) {
-                              setError('Incorrect PIN');
-                              setPin('');
-                            }
-                          }, 100);
-                        }
-                        return newPin.slice(0, 6);
-                      });
+                      // Each check counts as an attempt, so PINs are only checked when submitted
+                      setPin(prev => (prev + num).slice(0, 6));
+                      setError('');
                     }
                   }}
-                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 py-4 rounded-lg text-xl font-semibold transition-colors"
-                  disabled={num === ''}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-800 py-4 rounded-lg text-xl font-semibold transition-colors disabled:opacity-50"
+                  disabled={num === '' || isLockedOut}
                 >
                   {num}
                 </button>
               ))}
             </div>
 
-            {security.lockMethod === 'biometric' && (
+            {security.lockMethod === 'biometric' && !isVerifyingCurrentPin && (
               <button
                 onClick={handleBiometric}
-                className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 flex items-center justify-center gap-2"
+                disabled={isChecking}
+                className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 flex items-center justify-center gap-2 disabled:opacity-50"
               >
                 <span>🔐</span>
                 Use Biometric
@@ -217,10 +263,20 @@ const AppLock: React.FC<AppLockProps> = ({ security, onUnlock, onSetPin }) => {
 
             <button
               onClick={handlePinSubmit}
-              className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700"
+              disabled={isLockedOut || isChecking || !pin}
+              className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 disabled:opacity-50"
             >
-              Unlock
+              {isChecking ? 'Checking…' : isVerifyingCurrentPin || verifyReason ? 'Continue' : 'Unlock'}
             </button>
+
+            {(isVerifyingCurrentPin || verifyReason) && onCancel && (
+              <button
+                onClick={onCancel}
+                className="w-full bg-gray-200 text-gray-800 py-3 rounded-lg font-semibold hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            )}
           </div>
         )}
       </div>
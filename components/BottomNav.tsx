@@ -1,15 +1,17 @@
 import React from 'react';
 import { View } from '../types';
-import { HomeIcon, PillIcon, ChartBarIcon, CogIcon } from './icons';
+import { HomeIcon, PillIcon, ChartBarIcon, CogIcon, UserIcon } from './icons';
 
 interface BottomNavProps {
   currentView: View;
   setView: (view: View) => void;
+  showHousehold?: boolean; // Households with several profiles get an "everyone" tab
 }
 
-const BottomNav: React.FC<BottomNavProps> = ({ currentView, setView }) => {
+const BottomNav: React.FC<BottomNavProps> = ({ currentView, setView, showHousehold = false }) => {
   const navItems = [
     { view: View.Dashboard, label: 'Dashboard', icon: HomeIcon },
+    ...(showHousehold ? [{ view: View.Household, label: 'Everyone', icon: UserIcon }] : []),
     { view: View.Meds, label: 'My Meds', icon: PillIcon },
     { view: View.Reports, label: 'Reports', icon: ChartBarIcon },
     { view: View.Settings, label: 'Settings', icon: CogIcon },
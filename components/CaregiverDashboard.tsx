@@ -1,13 +1,16 @@
 import React, { useState, useMemo } from 'react';
-import { Medication, Caregiver, DoseStatus } from '../types';
+import { Medication, Caregiver, DoseStatus, CaregiverPermissions } from '../types';
 import { UserIcon, EyeIcon, PencilIcon } from './icons';
+import { getDoseInstancesForDate, getRecentDoseInstances, summarizeAdherence } from '../services/doseInstanceService';
+import { describePermissions } from '../services/permissionService';
 
 interface CaregiverDashboardProps {
   medications: Medication[];
   caregivers: Caregiver[];
   currentDate: string;
   onMarkDose: (medicationId: string, date: string, time: string, status: DoseStatus) => void;
-  accessLevel: 'view' | 'manage';
+  permissions: CaregiverPermissions; // Medications are already limited to the ones they can see
+  caregiverName?: string; // The caregiver using the dashboard
 }
 
 const CaregiverDashboard: React.FC<CaregiverDashboardProps> = ({
@@ -15,22 +18,17 @@ const CaregiverDashboard: React.FC<CaregiverDashboardProps> = ({
   caregivers,
   currentDate,
   onMarkDose,
-  accessLevel,
+  permissions,
+  caregiverName,
 }) => {
   const [selectedDate, setSelectedDate] = useState(currentDate);
 
   const getDosesForDate = (date: string) => {
-    const doses: Array<{ med: Medication; time: string; status?: DoseStatus }> = [];
-    
-    medications.forEach(med => {
-      med.times.forEach(time => {
-        const dateTimeKey = `${date}T${time}`;
-        const status = med.doseStatus?.[dateTimeKey];
-        doses.push({ med, time, status });
-      });
-    });
-
-    return doses.sort((a, b) => a.time.localeCompare(b.time));
+    return getDoseInstancesForDate(medications, date).map(dose => ({
+      med: dose.medication,
+      time: dose.time,
+      status: dose.status === 'taken' || dose.status === 'skipped' ? dose.status : undefined,
+    }));
   };
 
   const todayDoses = useMemo(() => getDosesForDate(selectedDate), [selectedDate, medications]);
@@ -40,31 +38,11 @@ const CaregiverDashboard: React.FC<CaregiverDashboardProps> = ({
   });
 
   const adherenceStats = useMemo(() => {
-    const last7Days = Array.from({ length: 7 }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      return date.toISOString().split('T')[0];
-    });
-
-    let totalDoses = 0;
-    let takenDoses = 0;
-
-    medications.forEach(med => {
-      last7Days.forEach(date => {
-        med.times.forEach(time => {
-          totalDoses++;
-          const dateTimeKey = `${date}T${time}`;
-          if (med.doseStatus?.[dateTimeKey] === 'taken') {
-            takenDoses++;
-          }
-        });
-      });
-    });
-
+    const summary = summarizeAdherence(getRecentDoseInstances(medications, 7));
     return {
-      percentage: totalDoses > 0 ? Math.round((takenDoses / totalDoses) * 100) : 0,
-      taken: takenDoses,
-      total: totalDoses,
+      percentage: summary.percentage,
+      taken: summary.taken,
+      total: summary.due,
     };
   }, [medications]);
 
@@ -77,7 +55,7 @@ const CaregiverDashboard: React.FC<CaregiverDashboardProps> = ({
             <div>
               <h1 className="text-2xl font-bold text-gray-800">Caregiver Dashboard</h1>
               <p className="text-sm text-gray-500">
-                {accessLevel === 'manage' ? 'Full Access' : 'View Only'}
+                {caregiverName ? `${caregiverName} • ` : ''}{describePermissions(permissions)}
               </p>
             </div>
           </div>
@@ -152,7 +130,7 @@ const CaregiverDashboard: React.FC<CaregiverDashboardProps> = ({
                         </p>
                       </div>
 
-                      {accessLevel === 'manage' && !isTaken && !isSkipped && (
+                      {permissions.markDoses && !isTaken && !isSkipped && (
                         <div className="flex gap-2">
                           <button
                             onClick={() => onMarkDose(dose.med.id, selectedDate, dose.time, 'taken')}
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Caregiver, CaregiverAction, CaregiverPermissions, Medication } from '../types';
+import { ACTION_LABELS, getCaregiverPermissions } from '../services/permissionService';
+
+interface CaregiverPermissionsEditorProps {
+  caregiver: Caregiver;
+  medications: Medication[];
+  onChange: (permissions: CaregiverPermissions) => void;
+}
+
+const CaregiverPermissionsEditor: React.FC<CaregiverPermissionsEditorProps> = ({ caregiver, medications, onChange }) => {
+  const permissions = getCaregiverPermissions(caregiver);
+  const allMedications = !permissions.medicationIds;
+
+  const toggleAction = (action: CaregiverAction) => {
+    onChange({ ...permissions, [action]: !permissions[action] });
+  };
+
+  const toggleAllMedications = () => {
+    // Limiting starts from what they can see now, which is everything
+    onChange({ ...permissions, medicationIds: allMedications ? medications.map(med => med.id) : undefined });
+  };
+
+  const toggleMedication = (medicationId: string) => {
+    const ids = permissions.medicationIds || [];
+    onChange({
+      ...permissions,
+      medicationIds: ids.includes(medicationId) ? ids.filter(id => id !== medicationId) : [...ids, medicationId],
+    });
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-white border border-gray-200 rounded-lg space-y-3">
+      <div className="space-y-1">
+        <p className="text-xs font-semibold text-gray-600 uppercase">{caregiver.name} can</p>
+        {(Object.keys(ACTION_LABELS) as CaregiverAction[]).map(action => (
+          <label key={action} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={permissions[action]}
+              onChange={() => toggleAction(action)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            {ACTION_LABELS[action]}
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-semibold text-gray-600 uppercase">Medications they can see</p>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={allMedications}
+            onChange={toggleAllMedications}
+            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+          />
+          All medications, including ones added later
+        </label>
+        {!allMedications && (
+          <div className="pl-6 space-y-1">
+            {medications.length === 0 && <p className="text-xs text-gray-500">No medications yet</p>}
+            {medications.map(med => (
+              <label key={med.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={permissions.medicationIds!.includes(med.id)}
+                  onChange={() => toggleMedication(med.id)}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                {med.name} <span className="text-xs text-gray-500">{med.dosage}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaregiverPermissionsEditor;
@@ -3,12 +3,15 @@ import { Medication, DoseStatus, InteractionResult } from '../types';
 import { ChevronLeftIcon, ChevronRightIcon, AlertTriangleIcon, PillIcon, SkipIcon, ChevronDownIcon, ChevronUpIcon } from './icons';
 import InteractionAlert from './InteractionAlert';
 import AdherenceStreakWidget from './AdherenceStreakWidget';
+import MealLogger from './MealLogger';
 import SymptomJournal from './SymptomJournal';
 import BehavioralPatternAlert from './BehavioralPatternAlert';
 import WeeklyCoachingSummary from './WeeklyCoachingSummary';
 import SeasonalAlerts from './SeasonalAlerts';
 import CostSavingSuggestions from './CostSavingSuggestions';
 import PeriodicCheckIn from './PeriodicCheckIn';
+import { getDoseInstancesForDate } from '../services/doseInstanceService';
+import { describeInventory } from '../services/dosageService';
 
 interface DashboardProps {
   medications: Medication[];
@@ -84,51 +87,12 @@ const Dashboard: React.FC<DashboardProps> = ({
   
   const getDosesForDate = (date: Date) => {
       const dateStr = date.toISOString().split('T')[0];
-      return medications.flatMap(med => {
-        // Check if medication has a tapering schedule
-        if (med.taperingSchedule && med.startDate) {
-          const startDate = new Date(med.startDate);
-          startDate.setHours(0, 0, 0, 0);
-          const currentDate = new Date(date);
-          currentDate.setHours(0, 0, 0, 0);
-          
-          const daysDiff = Math.floor((currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-          const dayNumber = daysDiff + 1; // Day 1 is the start date
-          
-          // Find the schedule entry for this day
-          const scheduleEntry = med.taperingSchedule.find(s => s.day === dayNumber);
-          if (scheduleEntry) {
-            // Generate times for this day based on number of tablets
-            const numTablets = scheduleEntry.tablets;
-            if (numTablets <= 0) return [];
-            
-            // Generate times evenly spread throughout the day
-            const startHour = 8;
-            const endHour = 22;
-            const totalMinutes = (endHour - startHour) * 60;
-            const interval = numTablets > 1 ? totalMinutes / (numTablets - 1) : 0;
-            
-            const times: string[] = [];
-            for (let i = 0; i < numTablets; i++) {
-              const minutes = startHour * 60 + i * interval;
-              const hours = Math.floor(minutes / 60);
-              const mins = Math.round(minutes % 60);
-              times.push(`${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`);
-            }
-            
-            return times.map(time => ({ ...med, date: dateStr, time }));
-          } else if (dayNumber > med.taperingSchedule[med.taperingSchedule.length - 1].day) {
-            // Past the tapering schedule, no doses
-            return [];
-          } else {
-            // Before the schedule starts or between days, no doses
-            return [];
-          }
-        }
-        
-        // Regular medication - use stored times
-        return med.times.map(time => ({ ...med, date: dateStr, time }));
-      });
+      return getDoseInstancesForDate(medications, dateStr).map(dose => ({
+        ...dose.medication,
+        date: dose.date,
+        time: dose.time,
+        status: dose.status,
+      }));
   };
 
   const upcomingMedications = getDosesForDate(today);
@@ -136,31 +100,11 @@ const Dashboard: React.FC<DashboardProps> = ({
   
   // Calculate missed doses (doses that were scheduled in the past but not taken)
   const missedDoses = useMemo(() => {
-    const now = new Date();
-    const missed: { med: Medication; date: string; time: string }[] = [];
-    const todayDoses = getDosesForDate(today);
-    
-    medications.forEach(med => {
-      todayDoses.filter(d => d.id === med.id).forEach(dose => {
-        const doseDateTime = new Date(`${dose.date}T${dose.time}`);
-        // Check if dose was scheduled in the past (more than 30 minutes ago to allow for late takes)
-        const thirtyMinutesAgo = new Date(now.getTime() - 30 * 60 * 1000);
-        
-        if (doseDateTime < thirtyMinutesAgo) {
-          const dateTimeKey = `${dose.date}T${dose.time}`;
-          const status = med.doseStatus?.[dateTimeKey];
-          
-          // If not taken or skipped, it's missed
-          if (status !== 'taken' && status !== 'skipped') {
-            missed.push({
-              med: med,
-              date: dose.date,
-              time: dose.time
-            });
-          }
-        }
-      });
-    });
+    // Allow 30 minutes for late takes before calling a dose missed
+    const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
+    const missed: { med: Medication; date: string; time: string }[] = getDoseInstancesForDate(medications, todayString, { includePRN: false })
+      .filter(dose => dose.status === 'missed' && dose.scheduledAt < thirtyMinutesAgo)
+      .map(dose => ({ med: dose.medication, date: dose.date, time: dose.time }));
     
     return missed;
   }, [medications, todayString]);
@@ -202,13 +146,12 @@ const Dashboard: React.FC<DashboardProps> = ({
           {days.map(day => {
             const dayDate = new Date(year, month, day);
             dayDate.setHours(0,0,0,0);
-            const dateStr = dayDate.toISOString().split('T')[0];
             const isToday = dayDate.getTime() === today.getTime();
             const isSelected = selectedDate && dayDate.getTime() === selectedDate.getTime();
 
             const dosesForDay = getDosesForDate(dayDate);
             const totalDoses = dosesForDay.length;
-            const takenDoses = dosesForDay.filter(dose => dose.doseStatus?.[`${dateStr}T${dose.time}`] === 'taken').length;
+            const takenDoses = dosesForDay.filter(dose => dose.status === 'taken').length;
             
             let adherenceRing = null;
             if (totalDoses > 0 && (dayDate <= today)) {
@@ -241,7 +184,6 @@ const Dashboard: React.FC<DashboardProps> = ({
       const dosesForDay = getDosesForDate(selectedDate);
       if (dosesForDay.length === 0) return null;
 
-      const dateStr = selectedDate.toISOString().split('T')[0];
       const dateString = selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
       const itemsPerPage = 5;
       const totalPages = Math.ceil(dosesForDay.length / itemsPerPage);
@@ -272,11 +214,6 @@ const Dashboard: React.FC<DashboardProps> = ({
                   <div className="space-y-2 animate-fade-in">
                       <div className="min-h-[150px]">
                           {currentItems.map((dose, index) => {
-                              const status = dose.doseStatus?.[`${dateStr}T${dose.time}`];
-                              const doseDateTime = new Date(`${dateStr}T${dose.time}`);
-                              const now = new Date();
-                              const isFuture = doseDateTime > now;
-                              
                               const statusConfig = {
                                   taken: { color: 'bg-green-500', label: 'Taken', badge: 'bg-green-100 text-green-800' },
                                   skipped: { color: 'bg-gray-400', label: 'Skipped', badge: 'bg-gray-100 text-gray-800' },
@@ -284,10 +221,8 @@ const Dashboard: React.FC<DashboardProps> = ({
                                   scheduled: { color: 'bg-blue-500', label: 'Scheduled', badge: 'bg-blue-100 text-blue-800' },
                               };
                               
-                              // For future dates, show "Scheduled" instead of "Missed"
-                              const currentStatus = status 
-                                  ? statusConfig[status] 
-                                  : (isFuture ? statusConfig.scheduled : statusConfig.missed);
+                              // Doses that haven't come due yet show as "Scheduled"
+                              const currentStatus = dose.status === 'pending' ? statusConfig.scheduled : statusConfig[dose.status];
                               
                               return (
                                 <div key={`${dose.id}-${dose.time}-${index}`} className="flex items-center justify-between p-2 rounded-lg bg-gray-50">
@@ -393,6 +328,8 @@ const Dashboard: React.FC<DashboardProps> = ({
 
         {interactionResult && <InteractionAlert result={interactionResult} onCheck={() => {}} isLoading={false} />}
 
+        <MealLogger medications={medications} />
+
         {missedDoses.length > 0 && (
           <div className="bg-red-50 border-l-4 border-red-400 text-red-800 p-4 rounded-r-lg shadow-lg" role="alert">
             <div className="flex items-center justify-between">
@@ -538,7 +475,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                             <div className="space-y-2 min-h-[100px]">
                               {currentMeds.map(med => (
                                 <div key={med.id} className="flex items-center justify-between bg-yellow-100 p-3 rounded-lg">
-                                  <p className="text-sm font-medium">{med.name} is running low ({med.quantity} left).</p>
+                                  <p className="text-sm font-medium">{med.name} is running low ({describeInventory(med)} left).</p>
                                   <button 
                                     onClick={() => logRefill(med.id)} 
                                     className="px-3 py-1.5 text-xs font-semibold bg-yellow-200 text-yellow-800 rounded-full hover:bg-yellow-300 transition-colors"
@@ -622,8 +559,8 @@ const Dashboard: React.FC<DashboardProps> = ({
             
             return sortedGroups.map((group, groupIndex) => {
               // Separate taken and not-taken doses
-              const takenDoses = group.doses.filter(d => d.doseStatus?.[`${todayString}T${d.time}`] === 'taken');
-              const notTakenDoses = group.doses.filter(d => d.doseStatus?.[`${todayString}T${d.time}`] !== 'taken');
+              const takenDoses = group.doses.filter(d => d.status === 'taken');
+              const notTakenDoses = group.doses.filter(d => d.status !== 'taken');
               const takenTimes = takenDoses.map(d => d.time).sort();
               const firstDose = group.doses[0];
               const pillDetails = [firstDose.color, firstDose.shape, firstDose.imprint && `Imprint: ${firstDose.imprint}`].filter(Boolean).join(' • ');
@@ -666,9 +603,8 @@ const Dashboard: React.FC<DashboardProps> = ({
                     )}
                     {/* Show individual boxes for not-taken doses */}
                     {notTakenDoses.map((dose, index) => {
-                      const status = dose.doseStatus?.[`${todayString}T${dose.time}`];
-                      const isSkipped = status === 'skipped';
-                      const isTaken = status === 'taken';
+                      const isSkipped = dose.status === 'skipped';
+                      const isTaken = dose.status === 'taken';
 
                       return (
                         <div 
@@ -1,6 +1,15 @@
 import React, { useState } from 'react';
+import { CaregiverAction } from '../types';
 import { DownloadIcon, TrashIcon, UploadIcon, ShareIcon, XIcon } from './icons';
-import { exportAllData, downloadBackup, emailBackup, restoreFromFile, clearAllData } from '../services/backupService';
+import { exportAllData, downloadBackup, emailBackup, restoreFromFile, importAllData, clearAllData, previewImport, BackupData, ImportPreview } from '../services/backupService';
+import { mergeBackup, resolveConflicts, MergeResult, ConflictResolution } from '../services/backupMergeService';
+import { MIN_PASSPHRASE_LENGTH } from '../services/backupEncryptionService';
+import { isCryptoAvailable } from '../services/cryptoService';
+import { getCurrentActor } from '../services/actorService';
+import { getPermissionDenial } from '../services/permissionService';
+import { createTransferFrames } from '../services/qrTransferService';
+import QrTransferDisplay from './QrTransferDisplay';
+import QrTransferScanner from './QrTransferScanner';
 
 interface DataManagementProps {
   onClose: () => void;
@@ -10,35 +19,163 @@ interface DataManagementProps {
 const DataManagement: React.FC<DataManagementProps> = ({ onClose, onDataCleared }) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isRestoring, setIsRestoring] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{
+    backup: BackupData;
+    preview: ImportPreview;
+    merge: MergeResult;
+    mergePreview: ImportPreview;
+  } | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [resolutions, setResolutions] = useState<{ [conflictId: string]: ConflictResolution }>({});
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([]);
+  const [encryptBackups, setEncryptBackups] = useState(isCryptoAvailable());
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [encryptedFile, setEncryptedFile] = useState<File | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [transferFrames, setTransferFrames] = useState<string[] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
 
-  const handleDownload = () => {
-    downloadBackup();
-    alert('Backup downloaded successfully!');
+  const passphraseError = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : passphrase !== confirmPassphrase
+    ? "Passphrases don't match"
+    : null;
+
+  // Backups hold every medication, so making one needs export permission. Restoring could replace
+  // caregivers' permissions and the app lock, so only the patient restores or deletes everything.
+  const isAllowed = (action: CaregiverAction): boolean => {
+    const denial = getPermissionDenial(getCurrentActor(), action);
+    if (denial) alert(denial);
+    return !denial;
   };
 
-  const handleEmail = () => {
-    emailBackup();
+  const isPatient = getCurrentActor().type === 'patient';
+
+  const isPatientAllowed = (action: string): boolean => {
+    if (!isPatient) alert(`Only the patient can ${action}.`);
+    return isPatient;
+  };
+
+  const handleDownload = async () => {
+    if (encryptBackups && passphraseError) return;
+    if (!isAllowed('exportReports')) return;
+
+    setIsEncrypting(true);
+    await downloadBackup(encryptBackups ? passphrase : undefined);
+    setIsEncrypting(false);
+    alert(encryptBackups
+      ? "Encrypted backup downloaded! Keep your passphrase safe: the backup can't be restored without it."
+      : 'Backup downloaded successfully!');
   };
 
-  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleEmail = async () => {
+    // Emailed backups are always encrypted
+    if (passphraseError) return;
+    if (!isAllowed('exportReports')) return;
+
+    setIsEncrypting(true);
+    await emailBackup(passphrase);
+    setIsEncrypting(false);
+  };
+
+  const handleShowTransfer = async () => {
+    if (encryptBackups && passphraseError) return;
+    if (!isAllowed('exportReports')) return;
+
+    setIsEncrypting(true);
+    try {
+      setTransferFrames(await createTransferFrames(encryptBackups ? passphrase : undefined));
+    } catch (error: any) {
+      alert(`Couldn't create the transfer codes: ${error.message}`);
+    }
+    setIsEncrypting(false);
+  };
+
+  // A scanned transfer is restored like a backup file, so it's validated and previewed the same way
+  const handleTransferReceived = (file: File) => {
+    setIsScanning(false);
+    setEncryptedFile(null);
+    setRestorePassphrase('');
+    previewRestore(file);
+  };
+
+  const previewRestore = async (file: File, filePassphrase?: string) => {
+    setIsRestoring(true);
+    setPendingRestore(null);
+    setRestoreErrors([]);
+    // Validate and preview first; nothing is overwritten until the user confirms
+    const result = await restoreFromFile(file, { dryRun: true, passphrase: filePassphrase });
+    setIsRestoring(false);
+
+    if (result.needsPassphrase) {
+      setEncryptedFile(file);
+      setRestoreErrors(result.errors);
+      return;
+    }
+    setEncryptedFile(null);
+    setRestorePassphrase('');
+
+    if (result.success && result.backup && result.preview) {
+      // Merging keeps anything logged on this device since the backup was made
+      const merge = mergeBackup(exportAllData(), result.backup);
+      setPendingRestore({
+        backup: result.backup,
+        preview: result.preview,
+        merge,
+        mergePreview: previewImport(merge.backup, result.preview.upgradedFrom),
+      });
+      setRestoreMode('merge');
+      setResolutions({});
+    } else {
+      setRestoreErrors(result.errors);
+    }
+  };
+
+  const handleRestore = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
     if (!file) return;
 
+    setEncryptedFile(null);
+    setRestorePassphrase('');
+    previewRestore(file);
+  };
+
+  const handleUnlockBackup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (encryptedFile && restorePassphrase) {
+      previewRestore(encryptedFile, restorePassphrase);
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!pendingRestore) return;
+    if (!isPatientAllowed('restore backups')) return;
+
+    const { merge } = pendingRestore;
+    const data = restoreMode === 'merge'
+      ? resolveConflicts(merge.backup, merge.conflicts, resolutions)
+      : pendingRestore.backup;
+
     setIsRestoring(true);
-    const result = await restoreFromFile(file);
+    const result = await importAllData(data);
     setIsRestoring(false);
 
     if (result.success) {
-      alert('Data restored successfully! Please refresh the page.');
+      alert(`Data ${restoreMode === 'merge' ? 'merged' : 'restored'} successfully! The page will reload.`);
       window.location.reload();
     } else {
-      alert(`Restore failed: ${result.errors.join(', ')}`);
+      setPendingRestore(null);
+      setRestoreErrors(result.errors);
     }
   };
 
-  const handleDeleteAll = () => {
+  const handleDeleteAll = async () => {
+    if (!isPatientAllowed('delete all data')) return;
     if (showDeleteConfirm) {
-      clearAllData();
+      await clearAllData();
       alert('All data has been deleted. The page will reload.');
       onDataCleared();
       window.location.reload();
@@ -47,6 +184,11 @@ const DataManagement: React.FC<DataManagementProps> = ({ onClose, onDataCleared
     }
   };
 
+  const unresolvedConflicts = pendingRestore && restoreMode === 'merge'
+    ? pendingRestore.merge.conflicts.filter(conflict => !resolutions[conflict.id]).length
+    : 0;
+  const activePreview = pendingRestore && (restoreMode === 'merge' ? pendingRestore.mergePreview : pendingRestore.preview);
+
   const backupData = exportAllData();
   const dataSize = JSON.stringify(backupData).length;
   const dataSizeKB = (dataSize / 1024).toFixed(2);
@@ -80,28 +222,87 @@ const DataManagement: React.FC<DataManagementProps> = ({ onClose, onDataCleared
           <div>
             <h3 className="font-semibold text-gray-800 mb-3">Export & Backup</h3>
             <div className="space-y-3">
+              {isCryptoAvailable() ? (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={encryptBackups}
+                      onChange={e => setEncryptBackups(e.target.checked)}
+                      className="h-4 w-4"
+                    />
+                    Protect backups and transfers with a passphrase
+                  </label>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={e => setPassphrase(e.target.value)}
+                    placeholder="Backup passphrase"
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={e => setConfirmPassphrase(e.target.value)}
+                    placeholder="Confirm passphrase"
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <p className="text-xs text-gray-600">
+                    {passphrase && passphraseError
+                      ? passphraseError
+                      : "Emailed backups are always encrypted. There's no way to recover a forgotten passphrase."}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-amber-700 bg-amber-50 p-3 rounded-lg">
+                  Encryption isn't available in this browser, so backups can only be downloaded unencrypted.
+                </p>
+              )}
+
               <button
                 onClick={handleDownload}
-                className="w-full p-4 bg-blue-50 border-2 border-blue-200 rounded-lg hover:bg-blue-100 transition-colors flex items-center justify-between"
+                disabled={isEncrypting || (encryptBackups && !!passphraseError)}
+                className="w-full p-4 bg-blue-50 border-2 border-blue-200 rounded-lg hover:bg-blue-100 transition-colors flex items-center justify-between disabled:opacity-50"
               >
                 <div className="flex items-center gap-3">
                   <DownloadIcon className="h-5 w-5 text-blue-600" />
                   <div className="text-left">
                     <p className="font-semibold text-gray-800">Download Backup</p>
-                    <p className="text-xs text-gray-600">Save to your device</p>
+                    <p className="text-xs text-gray-600">
+                      {encryptBackups ? 'Save an encrypted copy to your device' : 'Save to your device (unencrypted)'}
+                    </p>
                   </div>
                 </div>
               </button>
 
               <button
                 onClick={handleEmail}
-                className="w-full p-4 bg-green-50 border-2 border-green-200 rounded-lg hover:bg-green-100 transition-colors flex items-center justify-between"
+                disabled={isEncrypting || !isCryptoAvailable() || !!passphraseError}
+                className="w-full p-4 bg-green-50 border-2 border-green-200 rounded-lg hover:bg-green-100 transition-colors flex items-center justify-between disabled:opacity-50"
               >
                 <div className="flex items-center gap-3">
                   <ShareIcon className="h-5 w-5 text-green-600" />
                   <div className="text-left">
                     <p className="font-semibold text-gray-800">Email Backup</p>
-                    <p className="text-xs text-gray-600">Send to your email</p>
+                    <p className="text-xs text-gray-600">Send an encrypted copy to your email</p>
+                  </div>
+                </div>
+              </button>
+
+              <button
+                onClick={handleShowTransfer}
+                disabled={isEncrypting || (encryptBackups && !!passphraseError)}
+                className="w-full p-4 bg-indigo-50 border-2 border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors flex items-center justify-between disabled:opacity-50"
+              >
+                <div className="flex items-center gap-3">
+                  <ShareIcon className="h-5 w-5 text-indigo-600" />
+                  <div className="text-left">
+                    <p className="font-semibold text-gray-800">Transfer to Another Phone</p>
+                    <p className="text-xs text-gray-600">
+                      Show QR codes for the other phone to scan; works offline{encryptBackups ? ', encrypted' : ''}
+                    </p>
                   </div>
                 </div>
               </button>
@@ -109,70 +310,236 @@ const DataManagement: React.FC<DataManagementProps> = ({ onClose, onDataCleared
           </div>
 
           {/* Restore */}
-          <div>
-            <h3 className="font-semibold text-gray-800 mb-3">Restore from Backup</h3>
-            <label className="w-full p-4 bg-purple-50 border-2 border-purple-200 rounded-lg hover:bg-purple-100 transition-colors flex items-center justify-between cursor-pointer">
-              <div className="flex items-center gap-3">
-                <UploadIcon className="h-5 w-5 text-purple-600" />
-                <div className="text-left">
-                  <p className="font-semibold text-gray-800">Restore from File</p>
-                  <p className="text-xs text-gray-600">Upload a backup file</p>
+          {isPatient && (
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-3">Restore from Backup</h3>
+              <label className="w-full p-4 bg-purple-50 border-2 border-purple-200 rounded-lg hover:bg-purple-100 transition-colors flex items-center justify-between cursor-pointer">
+                <div className="flex items-center gap-3">
+                  <UploadIcon className="h-5 w-5 text-purple-600" />
+                  <div className="text-left">
+                    <p className="font-semibold text-gray-800">Restore from File</p>
+                    <p className="text-xs text-gray-600">Upload a backup file</p>
+                  </div>
                 </div>
-              </div>
-              <input
-                type="file"
-                accept=".json"
-                onChange={handleRestore}
-                className="hidden"
-                disabled={isRestoring}
-              />
-            </label>
-            {isRestoring && (
-              <p className="text-sm text-purple-600 mt-2">Restoring data...</p>
-            )}
-          </div>
-
-          {/* Delete All Data */}
-          <div className="border-t pt-6">
-            <h3 className="font-semibold text-red-800 mb-3">Danger Zone</h3>
-            {!showDeleteConfirm ? (
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={handleRestore}
+                  className="hidden"
+                  disabled={isRestoring}
+                />
+              </label>
               <button
-                onClick={handleDeleteAll}
-                className="w-full p-4 bg-red-50 border-2 border-red-200 rounded-lg hover:bg-red-100 transition-colors flex items-center justify-between"
+                onClick={() => setIsScanning(true)}
+                disabled={isRestoring}
+                className="mt-3 w-full p-4 bg-purple-50 border-2 border-purple-200 rounded-lg hover:bg-purple-100 transition-colors flex items-center justify-between disabled:opacity-50"
               >
                 <div className="flex items-center gap-3">
-                  <TrashIcon className="h-5 w-5 text-red-600" />
+                  <UploadIcon className="h-5 w-5 text-purple-600" />
                   <div className="text-left">
-                    <p className="font-semibold text-red-800">Delete All Data</p>
-                    <p className="text-xs text-red-600">Permanently remove all your data</p>
+                    <p className="font-semibold text-gray-800">Scan Transfer Codes</p>
+                    <p className="text-xs text-gray-600">Receive everything from another phone with the camera</p>
                   </div>
                 </div>
               </button>
-            ) : (
-              <div className="bg-red-50 border-2 border-red-300 rounded-lg p-4">
-                <p className="font-semibold text-red-800 mb-2">⚠️ Confirm Deletion</p>
-                <p className="text-sm text-red-700 mb-4">
-                  This will permanently delete ALL your data including medications, symptoms, and settings. This action cannot be undone.
-                </p>
-                <div className="flex gap-3">
-                  <button
-                    onClick={() => setShowDeleteConfirm(false)}
-                    className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-semibold hover:bg-gray-300"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleDeleteAll}
-                    className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700"
-                  >
-                    Delete Everything
-                  </button>
+              {isRestoring && (
+                <p className="text-sm text-purple-600 mt-2">Restoring data...</p>
+              )}
+              {encryptedFile && !isRestoring && (
+                <form onSubmit={handleUnlockBackup} className="mt-3 bg-purple-50 border border-purple-200 rounded-lg p-4 space-y-2">
+                  <p className="font-semibold text-gray-800 text-sm">This backup is encrypted</p>
+                  <p className="text-xs text-gray-600">Enter the passphrase it was saved with.</p>
+                  <input
+                    type="password"
+                    value={restorePassphrase}
+                    onChange={e => setRestorePassphrase(e.target.value)}
+                    placeholder="Backup passphrase"
+                    autoComplete="current-password"
+                    autoFocus
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEncryptedFile(null);
+                        setRestoreErrors([]);
+                      }}
+                      className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-semibold hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={!restorePassphrase}
+                      className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-semibold hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      Unlock
+                    </button>
+                  </div>
+                </form>
+              )}
+              {restoreErrors.length > 0 && (
+                <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="font-semibold text-red-800 text-sm mb-1">This backup can't be restored</p>
+                  <ul className="text-xs text-red-700 space-y-0.5 max-h-32 overflow-y-auto">
+                    {restoreErrors.slice(0, 20).map((error, i) => (
+                      <li key={i}>• {error}</li>
+                    ))}
+                    {restoreErrors.length > 20 && <li>…and {restoreErrors.length - 20} more</li>}
+                  </ul>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+              {pendingRestore && activePreview && (
+                <div className="mt-3 bg-purple-50 border border-purple-200 rounded-lg p-4 space-y-3">
+                  <div>
+                    <p className="font-semibold text-gray-800">Preview of changes</p>
+                    <p className="text-xs text-gray-600">
+                      Backup from {new Date(activePreview.exported).toLocaleString()}
+                      {activePreview.upgradedFrom && ` (upgraded from format ${activePreview.upgradedFrom})`}
+                    </p>
+                  </div>
+                  <div className="flex bg-white rounded-lg border border-purple-200 p-1 text-sm">
+                    {(['merge', 'replace'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setRestoreMode(mode)}
+                        className={`flex-1 px-3 py-1.5 rounded-md font-semibold ${
+                          restoreMode === mode ? 'bg-purple-600 text-white' : 'text-purple-700 hover:bg-purple-100'
+                        }`}
+                      >
+                        {mode === 'merge' ? 'Merge with this device' : 'Replace this device'}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    {restoreMode === 'merge'
+                      ? `Keeps everything on this device and adds what's new in the backup: ${pendingRestore.merge.summary.medicationsAdded} new medications, ${pendingRestore.merge.summary.doseEventsAdded} dose records and ${pendingRestore.merge.summary.symptomEntriesAdded} symptom entries${pendingRestore.merge.summary.profilesAdded > 0 ? `, plus ${pendingRestore.merge.summary.profilesAdded} new ${pendingRestore.merge.summary.profilesAdded === 1 ? 'profile' : 'profiles'}` : ''}.`
+                      : 'Overwrites the data on this device with the backup. Anything logged here since the backup was made will be lost.'}
+                  </p>
+                  <ul className="text-sm space-y-1">
+                    {activePreview.entries.map(entry => (
+                      <li key={entry.key} className="flex justify-between gap-2">
+                        <span className="text-gray-700">{entry.label}</span>
+                        <span className={entry.changed ? 'text-purple-700 font-semibold' : 'text-gray-400'}>
+                          {entry.incomingCount === null
+                            ? 'Not in backup, kept'
+                            : entry.changed
+                            ? `${entry.currentCount} → ${entry.incomingCount}`
+                            : 'No change'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {activePreview.medicationsAdded.length > 0 && (
+                    <p className="text-xs text-green-700">Added: {activePreview.medicationsAdded.join(', ')}</p>
+                  )}
+                  {activePreview.medicationsUpdated.length > 0 && (
+                    <p className="text-xs text-blue-700">Updated: {activePreview.medicationsUpdated.join(', ')}</p>
+                  )}
+                  {activePreview.medicationsRemoved.length > 0 && (
+                    <p className="text-xs text-red-700">Removed: {activePreview.medicationsRemoved.join(', ')}</p>
+                  )}
+                  {restoreMode === 'merge' && pendingRestore.merge.conflicts.length > 0 && (
+                    <div className="bg-white border border-amber-300 rounded-lg p-3">
+                      <p className="font-semibold text-amber-800 text-sm">
+                        {pendingRestore.merge.conflicts.length} dose{pendingRestore.merge.conflicts.length === 1 ? ' was' : 's were'} recorded differently
+                      </p>
+                      <p className="text-xs text-gray-600 mb-2">Choose which record to keep for each one.</p>
+                      <ul className="space-y-2 max-h-48 overflow-y-auto">
+                        {pendingRestore.merge.conflicts.map(conflict => (
+                          <li key={conflict.id} className="text-sm">
+                            <p className="text-gray-800">
+                              {conflict.profileName ? `${conflict.profileName}: ` : ''}{conflict.medicationName} · {new Date(conflict.doseKey).toLocaleString()}
+                            </p>
+                            <div className="flex gap-2 mt-1">
+                              {(['local', 'incoming'] as const).map(side => (
+                                <button
+                                  key={side}
+                                  onClick={() => setResolutions(prev => ({ ...prev, [conflict.id]: side }))}
+                                  className={`flex-1 px-2 py-1 rounded border text-xs ${
+                                    resolutions[conflict.id] === side
+                                      ? 'bg-amber-500 border-amber-500 text-white'
+                                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {side === 'local' ? 'This device' : 'Backup'}: {side === 'local' ? conflict.localStatus : conflict.incomingStatus}
+                                </button>
+                              ))}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setPendingRestore(null)}
+                      className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-semibold hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleConfirmRestore}
+                      disabled={isRestoring || unresolvedConflicts > 0}
+                      className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg font-semibold hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      {restoreMode === 'merge' ? 'Merge' : 'Replace'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Delete All Data */}
+          {isPatient && (
+            <div className="border-t pt-6">
+              <h3 className="font-semibold text-red-800 mb-3">Danger Zone</h3>
+              {!showDeleteConfirm ? (
+                <button
+                  onClick={handleDeleteAll}
+                  className="w-full p-4 bg-red-50 border-2 border-red-200 rounded-lg hover:bg-red-100 transition-colors flex items-center justify-between"
+                >
+                  <div className="flex items-center gap-3">
+                    <TrashIcon className="h-5 w-5 text-red-600" />
+                    <div className="text-left">
+                      <p className="font-semibold text-red-800">Delete All Data</p>
+                      <p className="text-xs text-red-600">Permanently remove all your data</p>
+                    </div>
+                  </div>
+                </button>
+              ) : (
+                <div className="bg-red-50 border-2 border-red-300 rounded-lg p-4">
+                  <p className="font-semibold text-red-800 mb-2">⚠️ Confirm Deletion</p>
+                  <p className="text-sm text-red-700 mb-4">
+                    This will permanently delete ALL your data including medications, symptoms, and settings. This action cannot be undone.
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setShowDeleteConfirm(false)}
+                      className="flex-1 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-semibold hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleDeleteAll}
+                      className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700"
+                    >
+                      Delete Everything
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </main>
 
+        {transferFrames && (
+          <QrTransferDisplay frames={transferFrames} isEncrypted={encryptBackups} onClose={() => setTransferFrames(null)} />
+        )}
+        {isScanning && <QrTransferScanner onReceived={handleTransferReceived} onClose={() => setIsScanning(false)} />}
+
         <footer className="p-4 bg-gray-50 border-t flex justify-end shrink-0">
           <button
             onClick={onClose}
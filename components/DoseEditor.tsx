@@ -0,0 +1,115 @@
+import React from 'react';
+import { DoseForm, DoseStrength, DoseUnit, StructuredDose } from '../types';
+import { COUNT_UNITS, DOSE_FORMS, MASS_UNITS, VOLUME_UNITS, formatDose, getFormForUnit, getIngredientAmount, isMassUnit, isVolumeUnit } from '../services/dosageService';
+
+interface DoseEditorProps {
+  dose: StructuredDose | null; // Parsed from the dosage text until they change it here
+  onChange: (dose: StructuredDose | undefined) => void;
+}
+
+const DEFAULT_DOSE: StructuredDose = { amount: 1, unit: 'tablet', form: 'tablet' };
+
+const inputClass = 'mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+const DoseEditor: React.FC<DoseEditorProps> = ({ dose, onChange }) => {
+  if (!dose) {
+    return (
+      <div className="bg-gray-50 p-3 rounded-lg">
+        <p className="text-xs text-gray-500">
+          PillPal couldn't read an amount from the dosage, so each dose counts as one pill.{' '}
+          <button type="button" onClick={() => onChange(DEFAULT_DOSE)} className="font-semibold text-indigo-600 hover:text-indigo-800">Enter the amount</button>
+        </p>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<StructuredDose>) => onChange({ ...dose, ...changes });
+
+  const handleUnitChange = (unit: DoseUnit) => update({ unit, form: getFormForUnit(unit, dose.form) });
+
+  const updateStrength = (changes: Partial<DoseStrength>) => {
+    const strength = { amount: 0, unit: 'mg' as const, ...dose.strength, ...changes };
+    update({ strength: strength.amount > 0 ? strength : undefined });
+  };
+
+  const isLiquid = isVolumeUnit(dose.unit) || dose.form === 'liquid' || dose.form === 'injection';
+  const ingredientMg = getIngredientAmount(dose);
+
+  return (
+    <div className="bg-gray-50 p-3 rounded-lg space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-xs font-medium text-gray-500">
+          Each dose
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={dose.amount || ''}
+            onChange={(e) => update({ amount: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Unit
+          <select value={dose.unit} onChange={(e) => handleUnitChange(e.target.value as DoseUnit)} className={inputClass}>
+            <optgroup label="Count">{COUNT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}</optgroup>
+            <optgroup label="Volume">{VOLUME_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}</optgroup>
+            <optgroup label="Weight">{MASS_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}</optgroup>
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Form
+          <select value={dose.form} onChange={(e) => update({ form: e.target.value as DoseForm })} className={`${inputClass} capitalize`}>
+            {DOSE_FORMS.map(form => <option key={form} value={form}>{form}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="text-xs font-medium text-gray-500">
+          Strength
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={dose.strength?.amount || ''}
+            onChange={(e) => updateStrength({ amount: Number(e.target.value) })}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Strength unit
+          <select
+            value={dose.strength?.unit || 'mg'}
+            onChange={(e) => updateStrength({ unit: e.target.value as DoseStrength['unit'] })}
+            disabled={!dose.strength}
+            className={inputClass}
+          >
+            {[...MASS_UNITS, 'unit'].map(unit => <option key={unit} value={unit}>{unit === 'unit' ? 'units' : unit}</option>)}
+          </select>
+        </label>
+        {isLiquid && (
+          <label className="text-xs font-medium text-gray-500">
+            Per mL
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={dose.strength?.per ?? ''}
+              onChange={(e) => updateStrength({ per: e.target.value === '' ? undefined : Number(e.target.value) })}
+              disabled={!dose.strength}
+              placeholder="1"
+              className={inputClass}
+            />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {formatDose(dose)}
+        {ingredientMg !== null && !isMassUnit(dose.unit) && ` = ${ingredientMg} mg`}. Inventory, refill reminders and daily totals count by this.
+      </p>
+    </div>
+  );
+};
+
+export default DoseEditor;
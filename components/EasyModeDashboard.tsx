@@ -1,6 +1,7 @@
 import React from 'react';
 import { Medication, DoseStatus } from '../types';
 import { CheckCircleIcon, XIcon } from './icons';
+import { getDoseInstancesForDate } from '../services/doseInstanceService';
 
 interface EasyModeDashboardProps {
   medications: Medication[];
@@ -17,13 +18,11 @@ const EasyModeDashboard: React.FC<EasyModeDashboardProps> = ({
   today.setHours(0, 0, 0, 0);
 
   // Get today's doses
-  const todayDoses = medications.flatMap(med => 
-    med.times.map(time => ({
-      med,
-      time,
-      status: med.doseStatus?.[`${todayString}T${time}`] as DoseStatus | undefined,
-    }))
-  ).sort((a, b) => a.time.localeCompare(b.time));
+  const todayDoses = getDoseInstancesForDate(medications, todayString).map(dose => ({
+    med: dose.medication,
+    time: dose.time,
+    status: dose.status === 'taken' || dose.status === 'skipped' ? dose.status as DoseStatus : undefined,
+  }));
 
   const upcomingDoses = todayDoses.filter(dose => {
     const doseTime = new Date(`${todayString}T${dose.time}`);
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Escalation } from '../types';
+
+interface EscalationInboxProps {
+  escalations: Escalation[];
+  onAcknowledge: (escalation: Escalation) => Promise<void>;
+}
+
+const EscalationInbox: React.FC<EscalationInboxProps> = ({ escalations, onAcknowledge }) => {
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+
+  if (escalations.length === 0) return null;
+
+  const handleAcknowledge = async (escalation: Escalation) => {
+    setAcknowledgingId(escalation.id);
+    try {
+      await onAcknowledge(escalation);
+    } finally {
+      setAcknowledgingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-red-50 border border-red-300 rounded-lg p-3 space-y-2" role="alert">
+      <p className="text-sm font-semibold text-red-900">
+        {escalations.length === 1 ? 'A dose may have been missed' : `${escalations.length} doses may have been missed`}
+      </p>
+      {escalations.map(escalation => (
+        <div key={escalation.id} className="bg-white rounded-md p-3 shadow-sm flex items-start justify-between gap-3">
+          <div>
+            <p className="text-sm text-gray-800">{escalation.message}</p>
+            {escalation.sentAt && (
+              <p className="text-xs text-gray-500 mt-1">Sent {new Date(escalation.sentAt).toLocaleString()}</p>
+            )}
+          </div>
+          <button
+            onClick={() => handleAcknowledge(escalation)}
+            disabled={acknowledgingId === escalation.id}
+            className="px-3 py-1 text-xs font-semibold text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 flex-shrink-0"
+          >
+            Acknowledge
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default EscalationInbox;
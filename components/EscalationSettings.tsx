@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Caregiver, EscalationChannelType, EscalationSettings as EscalationSettingsData, EscalationStep } from '../types';
+import { ESCALATION_CHANNELS, getEscalationSettings, saveEscalationSettings } from '../services/escalationService';
+import { CRITICAL_MEDICATIONS } from '../services/missedDoseRecoveryService';
+import { TrashIcon } from './icons';
+
+interface EscalationSettingsProps {
+  caregivers: Caregiver[];
+  canEdit: boolean;
+  onChange: () => void; // The reminder queue needs rebuilding
+}
+
+const inputClass = 'w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+const EscalationSettings: React.FC<EscalationSettingsProps> = ({ caregivers, canEdit, onChange }) => {
+  const [settings, setSettings] = useState<EscalationSettingsData>(() => getEscalationSettings());
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (changes: Partial<EscalationSettingsData>) => {
+    const updated = { ...settings, ...changes };
+    setSettings(updated);
+    try {
+      await saveEscalationSettings(updated);
+      setError(null);
+      onChange();
+    } catch (saveError: any) {
+      setError(saveError?.message || "Couldn't save the escalation settings");
+    }
+  };
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    update({ steps: settings.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const addStep = () => {
+    if (caregivers.length === 0) return;
+    update({ steps: [...settings.steps, { caregiverId: caregivers[0].id, channel: 'inbox' }] });
+  };
+
+  const hasEmailStep = settings.steps.some(step => step.channel === 'email');
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <label htmlFor="escalationEnabled" className="block text-sm font-medium text-gray-700">Alert Caregivers About Missed Doses</label>
+          <p className="text-xs text-gray-500">
+            If a critical medication ({CRITICAL_MEDICATIONS.join(', ')}) still isn't marked after the last reminder, tell each caregiver below in turn.
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          id="escalationEnabled"
+          checked={settings.enabled}
+          disabled={!canEdit}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="h-6 w-6 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+        />
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Wait
+            <input
+              type="number"
+              min="5"
+              max="240"
+              value={settings.delayMinutes}
+              disabled={!canEdit}
+              onChange={(e) => update({ delayMinutes: Math.max(5, Math.min(240, parseInt(e.target.value) || 5)) })}
+              className="w-20 border-gray-300 rounded-md shadow-sm text-sm"
+            />
+            minutes before each alert
+          </label>
+
+          {settings.steps.map((step, index) => (
+            <div key={index} className="p-2 bg-gray-50 rounded space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-semibold text-gray-500 w-5">{index + 1}.</span>
+                <select
+                  value={step.caregiverId}
+                  disabled={!canEdit}
+                  onChange={(e) => updateStep(index, { caregiverId: e.target.value })}
+                  className={inputClass}
+                  aria-label={`Caregiver ${index + 1}`}
+                >
+                  {!caregivers.some(c => c.id === step.caregiverId) && <option value={step.caregiverId}>Removed caregiver</option>}
+                  {caregivers.map(caregiver => (
+                    <option key={caregiver.id} value={caregiver.id}>{caregiver.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={step.channel}
+                  disabled={!canEdit}
+                  onChange={(e) => updateStep(index, { channel: e.target.value as EscalationChannelType })}
+                  className={inputClass}
+                  aria-label={`How to reach caregiver ${index + 1}`}
+                >
+                  {(Object.keys(ESCALATION_CHANNELS) as EscalationChannelType[]).map(channel => (
+                    <option key={channel} value={channel}>{ESCALATION_CHANNELS[channel].label}</option>
+                  ))}
+                </select>
+                {canEdit && (
+                  <button
+                    onClick={() => update({ steps: settings.steps.filter((_, i) => i !== index) })}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    aria-label={`Remove alert ${index + 1}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              {step.channel === 'webhook' && (
+                <input
+                  type="url"
+                  placeholder="Webhook address, e.g., http://192.168.1.20:5000/alerts"
+                  value={step.webhookUrl || ''}
+                  disabled={!canEdit}
+                  onChange={(e) => updateStep(index, { webhookUrl: e.target.value.trim() })}
+                  className={inputClass}
+                />
+              )}
+              <p className="text-xs text-gray-500">
+                {settings.delayMinutes * (index + 1)} minutes after the last reminder
+                {step.channel === 'inbox' && ", in PillPal on the caregiver's devices once this one syncs"}
+              </p>
+              {step.channel === 'inbox' && (
+                <p className="text-xs text-amber-700">
+                  Inbox alerts only sync while PillPal is open on this device, so a caregiver won't see one until it's opened again.
+                  Use email or a webhook for alerts that must reach them when the app isn't being used.
+                </p>
+              )}
+            </div>
+          ))}
+
+          {canEdit && (
+            caregivers.length > 0 ? (
+              <button onClick={addStep} className="text-sm text-indigo-600 font-semibold hover:underline">
+                + Add a caregiver to alert
+              </button>
+            ) : (
+              <p className="text-xs text-gray-500">Add a caregiver above first.</p>
+            )
+          )}
+
+          {hasEmailStep && (
+            <div>
+              <input
+                type="url"
+                placeholder="Mail relay address, e.g., http://192.168.1.20:8025/send"
+                value={settings.mailRelayUrl || ''}
+                disabled={!canEdit}
+                onChange={(e) => update({ mailRelayUrl: e.target.value.trim() })}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 mt-1">Emails go out through this relay. For trying it out, npm run mail-outbox starts a stand-in that saves them to a file instead.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!canEdit && <p className="text-xs text-gray-500">Only the patient can change who is alerted.</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default EscalationSettings;
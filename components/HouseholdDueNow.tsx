@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { DoseStatus } from '../types';
+import { CheckCircleIcon } from './icons';
+import { HouseholdMember } from '../services/profileService';
+import { getDoseInstancesForDate, DoseInstance } from '../services/doseInstanceService';
+
+interface HouseholdDueNowProps {
+  members: HouseholdMember[];
+  onMarkDose: (profileId: string, medicationId: string, date: string, time: string, status: DoseStatus) => void;
+  onOpenProfile: (profileId: string) => void;
+}
+
+const DUE_SOON_MINUTES = 60; // Upcoming doses within this window count as due now
+
+/**
+ * Doses that are overdue today or coming up within the hour
+ */
+const getDueDoses = (member: HouseholdMember, now: Date): DoseInstance[] => {
+  const today = now.toISOString().split('T')[0];
+  const soon = now.getTime() + DUE_SOON_MINUTES * 60 * 1000;
+  return getDoseInstancesForDate(member.medications, today, { now, includePRN: false }).filter(
+    dose => dose.status === 'missed' || (dose.status === 'pending' && dose.scheduledAt.getTime() <= soon)
+  );
+};
+
+const HouseholdDueNow: React.FC<HouseholdDueNowProps> = ({ members, onMarkDose, onOpenProfile }) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const dueByMember = members.map(member => ({ member, doses: getDueDoses(member, now) }));
+  const totalDue = dueByMember.reduce((sum, { doses }) => sum + doses.length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-lg">
+        <h2 className="text-xl font-bold text-gray-800">Everyone Due Now</h2>
+        <p className="text-sm text-gray-500">
+          {totalDue === 0
+            ? 'Nobody has a dose due right now.'
+            : `${totalDue} ${totalDue === 1 ? 'dose' : 'doses'} overdue or due within the hour`}
+        </p>
+      </div>
+
+      {dueByMember.map(({ member, doses }) => (
+        <div key={member.profile.id} className="bg-white p-4 rounded-xl shadow-lg">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: member.profile.color }} />
+              <h3 className="font-bold text-gray-800">{member.profile.name}</h3>
+              {member.isActive && <span className="text-xs text-gray-500">(current)</span>}
+            </div>
+            {!member.isActive && (
+              <button
+                onClick={() => onOpenProfile(member.profile.id)}
+                className="text-sm text-indigo-600 font-semibold hover:text-indigo-800"
+              >
+                Open
+              </button>
+            )}
+          </div>
+
+          {doses.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-gray-500">
+              <CheckCircleIcon className="h-5 w-5 text-green-500" />
+              All caught up
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {doses.map(dose => (
+                <div
+                  key={`${dose.medication.id}-${dose.dateTimeKey}`}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    dose.status === 'missed' ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'
+                  }`}
+                >
+                  <div>
+                    <p className="font-semibold text-gray-800">{dose.medication.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {dose.medication.dosage} • {dose.time}
+                      {dose.status === 'missed' && <span className="ml-1 text-red-600">(overdue)</span>}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onMarkDose(member.profile.id, dose.medication.id, dose.date, dose.time, 'taken')}
+                      className="px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm font-semibold hover:bg-green-700"
+                    >
+                      Taken
+                    </button>
+                    <button
+                      onClick={() => onMarkDose(member.profile.id, dose.medication.id, dose.date, dose.time, 'skipped')}
+                      className="px-3 py-1.5 bg-gray-200 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-300"
+                    >
+                      Skip
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HouseholdDueNow;
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { MealEvent, MealType, Medication } from '../types';
+import { MEALS, getMealLog, logMeal } from '../services/mealService';
+
+interface MealLoggerProps {
+  medications: Medication[];
+}
+
+const isToday = (iso: string): boolean => new Date(iso).toDateString() === new Date().toDateString();
+
+// Only worth showing when a medication depends on when they eat
+const MealLogger: React.FC<MealLoggerProps> = ({ medications }) => {
+  const [todaysMeals, setTodaysMeals] = useState<MealEvent[]>(() => getMealLog().filter(event => isToday(event.eatenAt)));
+  const [error, setError] = useState<string | null>(null);
+
+  if (!medications.some(med => med.food === 'Without food' || med.mealAnchors?.some(Boolean))) return null;
+
+  const handleLog = async (meal: MealType) => {
+    try {
+      const entry = await logMeal(meal);
+      setTodaysMeals(prev => [...prev, entry]);
+      setError(null);
+    } catch (logError: any) {
+      setError(logError?.message || "Couldn't log the meal");
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-lg">
+      <p className="text-sm font-semibold text-gray-700">Just ate?</p>
+      <p className="text-xs text-gray-500">Logging meals lets PillPal check empty-stomach doses against when you really ate.</p>
+      <div className="flex gap-2 mt-2">
+        {MEALS.map(meal => (
+          <button
+            key={meal}
+            onClick={() => handleLog(meal)}
+            className="flex-1 px-3 py-1.5 text-sm font-semibold text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 capitalize"
+          >
+            {meal}
+          </button>
+        ))}
+      </div>
+      {todaysMeals.length > 0 && (
+        <p className="text-xs text-gray-500 mt-2">
+          Today: {todaysMeals.map(event => `${event.meal} at ${new Date(event.eatenAt).toTimeString().slice(0, 5)}`).join(', ')}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default MealLogger;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { MealType, UserPreferences } from '../types';
+import { MEALS, getMealTimes } from '../services/mealService';
+
+interface MealTimesSettingsProps {
+  userPreferences: UserPreferences;
+  setUserPreferences: (prefs: UserPreferences) => void;
+}
+
+const MealTimesSettings: React.FC<MealTimesSettingsProps> = ({ userPreferences, setUserPreferences }) => {
+  const mealTimes = getMealTimes(userPreferences);
+
+  const setMealTime = (meal: MealType, time: string) => {
+    if (!time) return;
+    setUserPreferences({ ...userPreferences, mealTimes: { ...mealTimes, [meal]: time } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Doses timed by a meal, like "30 min before breakfast", move when you change it here. Doses to take on an empty stomach are checked against these times, or against meals you log.
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {MEALS.map(meal => (
+          <label key={meal} className="text-sm text-gray-700 capitalize">
+            {meal}
+            <input
+              type="time"
+              value={mealTimes[meal]}
+              onChange={(e) => setMealTime(meal, e.target.value)}
+              className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MealTimesSettings;
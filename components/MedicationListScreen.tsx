@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Medication } from '../types';
 import { PencilIcon, TrashIcon, PillIcon, InformationCircleIcon } from './icons';
 import MedicationInfoModal from './MedicationInfoModal';
+import { describeRecurrence } from '../services/scheduleService';
 
 interface MedicationListScreenProps {
   medications: Medication[];
@@ -32,6 +33,9 @@ const MedicationListScreen: React.FC<MedicationListScreenProps> = ({ medications
                     <p className="text-lg font-semibold text-gray-900">{med.name}</p>
                     <p className="text-sm text-gray-500">{med.dosage} - {med.drugClass || med.frequency}</p>
                     <p className="text-xs text-gray-400">{med.food}</p>
+                    {med.recurrence && (
+                      <p className="text-xs text-indigo-500">{describeRecurrence(med.recurrence)}</p>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-1">
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, XIcon } from './icons';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (profileId: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (profileId: string, name: string) => void;
+  onRemove: (profileId: string) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfileId, onSwitch, onAdd, onRename, onRemove }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onAdd(newName);
+    setNewName('');
+    setIsAdding(false);
+  };
+
+  const handleRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  const handleRemove = (profile: Profile) => {
+    if (confirm(`Remove ${profile.name}'s profile? Their medications, journal and settings will be deleted from this device.`)) {
+      onRemove(profile.id);
+    }
+  };
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-center gap-2 flex-wrap">
+        {profiles.map(profile => {
+          const isActive = profile.id === activeProfileId;
+          if (editingId === profile.id) {
+            return (
+              <input
+                key={profile.id}
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={handleRename}
+                onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                className="text-xs text-gray-800 rounded-full px-3 py-1 w-28"
+                aria-label="Profile name"
+                autoFocus
+              />
+            );
+          }
+          return (
+            <div key={profile.id} className="flex items-center">
+              <button
+                onClick={() => onSwitch(profile.id)}
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                  isActive ? 'bg-white text-gray-800' : 'bg-white/20 text-white hover:bg-white/30'
+                }`}
+                aria-pressed={isActive}
+              >
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: profile.color }} />
+                {profile.name}
+              </button>
+              {isManaging && (
+                <>
+                  <button
+                    onClick={() => {
+                      setEditingId(profile.id);
+                      setEditingName(profile.name);
+                    }}
+                    className="p-1 text-white/80 hover:text-white"
+                    aria-label={`Rename ${profile.name}`}
+                  >
+                    <PencilIcon className="h-3.5 w-3.5" />
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => handleRemove(profile)}
+                      className="p-1 text-white/80 hover:text-white"
+                      aria-label={`Remove ${profile.name}`}
+                    >
+                      <TrashIcon className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+
+        {isAdding ? (
+          <div className="flex items-center gap-1">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="Name"
+              className="text-xs text-gray-800 rounded-full px-3 py-1 w-28"
+              aria-label="New profile name"
+              autoFocus
+            />
+            <button onClick={handleAdd} className="p-1 text-white hover:bg-white/20 rounded-full" aria-label="Add profile">
+              <PlusIcon className="h-4 w-4" />
+            </button>
+            <button onClick={() => setIsAdding(false)} className="p-1 text-white hover:bg-white/20 rounded-full" aria-label="Cancel">
+              <XIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="flex items-center gap-1 px-2 py-1 rounded-full text-xs text-white/90 hover:bg-white/20"
+          >
+            <PlusIcon className="h-3.5 w-3.5" />
+            {profiles.length > 1 ? 'Add' : 'Add person'}
+          </button>
+        )}
+
+        {profiles.length > 1 && !isAdding && (
+          <button
+            onClick={() => setIsManaging(prev => !prev)}
+            className="px-2 py-1 rounded-full text-xs text-white/90 hover:bg-white/20"
+          >
+            {isManaging ? 'Done' : 'Edit'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { Medication, SymptomEntry } from '../types';
 import { DownloadIcon, ShareIcon, ChartBarIcon, XIcon } from './icons';
 import { generateWeeklyCoachingSummary, getCurrentWeekStart } from '../services/coachingService';
+import { getRecentDoseInstances, summarizeAdherence } from '../services/doseInstanceService';
 
 interface ProviderReportGeneratorProps {
   medications: Medication[];
@@ -60,31 +61,12 @@ const ProviderReportGenerator: React.FC<ProviderReportGeneratorProps> = ({
   };
 
   const calculateOverallAdherence = () => {
-    const last30Days = Array.from({ length: 30 }, (_, i) => {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      return date.toISOString().split('T')[0];
-    });
-
-    let total = 0;
-    let taken = 0;
-
-    medications.forEach(med => {
-      last30Days.forEach(date => {
-        med.times.forEach(time => {
-          total++;
-          const key = `${date}T${time}`;
-          if (med.doseStatus?.[key] === 'taken') {
-            taken++;
-          }
-        });
-      });
-    });
+    const summary = summarizeAdherence(getRecentDoseInstances(medications, 30));
 
     return {
-      percentage: total > 0 ? Math.round((taken / total) * 100) : 0,
-      taken,
-      total,
+      percentage: summary.percentage,
+      taken: summary.taken,
+      total: summary.due,
       period: 'Last 30 days',
     };
   };
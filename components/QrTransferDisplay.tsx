@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XIcon } from './icons';
+import { encodeQrCode } from '../services/qrCodeService';
+import { FRAME_INTERVAL_MS } from '../services/qrTransferService';
+
+interface QrTransferDisplayProps {
+  frames: string[];
+  isEncrypted: boolean;
+  onClose: () => void;
+}
+
+const QUIET_ZONE = 4; // Light modules around the code, as the standard asks
+const CANVAS_SIZE = 320;
+
+const QrTransferDisplay: React.FC<QrTransferDisplayProps> = ({ frames, isEncrypted, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    if (isPaused || frames.length < 2) return;
+    const interval = setInterval(() => setFrameIndex(index => (index + 1) % frames.length), FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPaused, frames.length]);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const modules = encodeQrCode(frames[frameIndex]);
+    const scale = Math.floor(CANVAS_SIZE / (modules.length + QUIET_ZONE * 2));
+    const offset = Math.floor((CANVAS_SIZE - modules.length * scale) / 2);
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+    context.fillStyle = '#000000';
+    modules.forEach((row, y) => row.forEach((isDark, x) => {
+      if (isDark) context.fillRect(offset + x * scale, offset + y * scale, scale, scale);
+    }));
+  }, [frames, frameIndex]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-[60] p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm p-5 space-y-4 text-center">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800">Transfer to Another Phone</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" aria-label="Close">
+            <XIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600">
+          On the other phone, open Data Management → Scan Transfer Codes and point the camera here. Keep this screen on until it's done.
+        </p>
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          className="mx-auto w-full max-w-[320px] aspect-square"
+          style={{ imageRendering: 'pixelated' }}
+          aria-label={`Transfer code ${frameIndex + 1} of ${frames.length}`}
+        />
+        <p className="text-xs text-gray-500">
+          Code {frameIndex + 1} of {frames.length}
+          {isEncrypted ? ' · Encrypted: the other phone will need the passphrase' : ' · Not encrypted'}
+        </p>
+        <p className="text-xs text-gray-500">Photos of pills are left out to keep the transfer short.</p>
+        {frames.length > 1 && (
+          <button
+            onClick={() => setIsPaused(!isPaused)}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg font-semibold hover:bg-gray-300 text-sm"
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QrTransferDisplay;
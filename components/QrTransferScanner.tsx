@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { XIcon } from './icons';
+import { addTransferFrame, assembleTransfer, isTransferComplete, TransferProgress } from '../services/qrTransferService';
+
+interface QrTransferScannerProps {
+  onReceived: (file: File) => void;
+  onClose: () => void;
+}
+
+// The browser's built-in barcode reader, which isn't in TypeScript's DOM types yet
+interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+
+const SCAN_INTERVAL_MS = 100;
+
+const getBarcodeDetector = (): BarcodeDetectorLike | null => {
+  const Detector = (window as any).BarcodeDetector;
+  return Detector ? new Detector({ formats: ['qr_code'] }) : null;
+};
+
+const QrTransferScanner: React.FC<QrTransferScannerProps> = ({ onReceived, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const progressRef = useRef<TransferProgress | null>(null);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const detector = getBarcodeDetector();
+    if (!detector) {
+      setError("This browser can't read QR codes from the camera. Try Chrome on Android, or send a backup file instead.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const codes = video.readyState >= 2 ? await detector.detect(video) : [];
+        codes.forEach(code => {
+          try {
+            progressRef.current = addTransferFrame(progressRef.current, code.rawValue);
+            setError(null);
+          } catch (frameError: any) {
+            setError(frameError.message);
+          }
+        });
+        setProgress(progressRef.current);
+
+        if (progressRef.current && isTransferComplete(progressRef.current)) {
+          stop();
+          onReceived(await assembleTransfer(progressRef.current));
+          return;
+        }
+      } catch (scanError: any) {
+        stop();
+        setError(scanError?.message || "The transfer couldn't be read");
+        return;
+      }
+      if (!stopped) timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async mediaStream => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          stop();
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+        scan();
+      })
+      .catch(() => setError('Allow camera access to scan the transfer codes.'));
+
+    return stop;
+  }, []);
+
+  const percent = progress ? Math.round((progress.received / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex justify-center items-center z-[60] p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-sm p-5 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-800">Scan Transfer Codes</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded-full hover:bg-gray-100" aria-label="Close">
+            <XIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <video ref={videoRef} playsInline muted className="w-full aspect-square object-cover rounded-lg bg-gray-900" />
+        <div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div className="h-full bg-purple-600 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs text-gray-600 mt-1">
+            {progress
+              ? `${progress.received} of ${progress.total} codes received. Keep the camera on the codes; they repeat until all are read.`
+              : 'Point the camera at the codes on the other phone.'}
+          </p>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default QrTransferScanner;
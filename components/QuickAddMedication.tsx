@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { Medication } from '../types';
 import { ClockIcon, StarIcon } from './icons';
+import { getDoseStatusMap } from '../services/doseEventService';
 
 interface QuickAddMedicationProps {
   medications: Medication[];
@@ -23,9 +24,7 @@ const QuickAddMedication: React.FC<QuickAddMedicationProps> = ({
     return medications
       .filter(med => {
         // Check if medication was used recently (has dose status in last 30 days)
-        if (!med.doseStatus) return false;
-        
-        const recentDates = Object.keys(med.doseStatus)
+        const recentDates = Object.keys(getDoseStatusMap(med))
           .map(key => key.split('T')[0])
           .filter(date => new Date(date) >= thirtyDaysAgo);
         
@@ -33,12 +32,12 @@ const QuickAddMedication: React.FC<QuickAddMedicationProps> = ({
       })
       .sort((a, b) => {
         // Sort by most recently used
-        const aDates = Object.keys(a.doseStatus || {})
+        const aDates = Object.keys(getDoseStatusMap(a))
           .map(key => new Date(key.split('T')[0]))
           .filter(date => date >= thirtyDaysAgo)
           .sort((x, y) => y.getTime() - x.getTime());
         
-        const bDates = Object.keys(b.doseStatus || {})
+        const bDates = Object.keys(getDoseStatusMap(b))
           .map(key => new Date(key.split('T')[0]))
           .filter(date => date >= thirtyDaysAgo)
           .sort((x, y) => y.getTime() - x.getTime());
@@ -57,7 +56,7 @@ const QuickAddMedication: React.FC<QuickAddMedicationProps> = ({
     return medications
       .map(med => ({
         med,
-        usageCount: Object.keys(med.doseStatus || {}).length,
+        usageCount: Object.keys(getDoseStatusMap(med)).length,
       }))
       .filter(item => item.usageCount > 10) // Used more than 10 times
       .sort((a, b) => b.usageCount - a.usageCount)
@@ -0,0 +1,92 @@
+import React from 'react';
+import { QuietHours, UserPreferences } from '../types';
+import { CRITICAL_MEDICATIONS } from '../services/missedDoseRecoveryService';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface QuietHoursSettingsProps {
+  userPreferences: UserPreferences;
+  setUserPreferences: (prefs: UserPreferences) => void;
+}
+
+const timeInputClass = 'border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-sm';
+
+const QuietHoursSettings: React.FC<QuietHoursSettingsProps> = ({ userPreferences, setUserPreferences }) => {
+  const quietHours = userPreferences.quietHours || [];
+  const hasNight = !!userPreferences.sleepTime && !!userPreferences.wakeTime;
+
+  const setQuietHours = (updated: QuietHours[]) => setUserPreferences({ ...userPreferences, quietHours: updated });
+
+  const updateQuietHours = (index: number, changes: Partial<QuietHours>) =>
+    setQuietHours(quietHours.map((quiet, i) => (i === index ? { ...quiet, ...changes } : quiet)));
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div>
+        <p className="block text-sm font-medium text-gray-700">Quiet Hours</p>
+        <p className="text-xs text-gray-500">
+          Reminders due while you're asleep or in other quiet hours wait until they end, and ones held back together arrive as one.
+          Doses of critical medications ({CRITICAL_MEDICATIONS.join(', ')}) due in quiet hours still remind you on time.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Sleep
+          <input
+            type="time"
+            value={userPreferences.sleepTime || ''}
+            onChange={(e) => setUserPreferences({ ...userPreferences, sleepTime: e.target.value || undefined })}
+            className={timeInputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Wake
+          <input
+            type="time"
+            value={userPreferences.wakeTime || ''}
+            onChange={(e) => setUserPreferences({ ...userPreferences, wakeTime: e.target.value || undefined })}
+            className={timeInputClass}
+          />
+        </label>
+      </div>
+      {!hasNight && (userPreferences.sleepTime || userPreferences.wakeTime) && (
+        <p className="text-xs text-amber-700">Set both times to keep the night quiet.</p>
+      )}
+
+      {quietHours.map((quiet, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="time"
+            value={quiet.start}
+            onChange={(e) => updateQuietHours(index, { start: e.target.value })}
+            className={timeInputClass}
+            aria-label={`Quiet hours ${index + 1} start`}
+          />
+          to
+          <input
+            type="time"
+            value={quiet.end}
+            onChange={(e) => updateQuietHours(index, { end: e.target.value })}
+            className={timeInputClass}
+            aria-label={`Quiet hours ${index + 1} end`}
+          />
+          <button
+            onClick={() => setQuietHours(quietHours.filter((_, i) => i !== index))}
+            className="p-1 text-red-600 hover:bg-red-50 rounded"
+            aria-label={`Remove quiet hours ${index + 1}`}
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => setQuietHours([...quietHours, { start: '13:00', end: '14:00' }])}
+        className="flex items-center gap-1 text-sm text-indigo-600 font-semibold hover:underline"
+      >
+        <PlusIcon className="w-4 h-4" /> Add other quiet hours
+      </button>
+    </div>
+  );
+};
+
+export default QuietHoursSettings;
@@ -1,6 +1,9 @@
 import React, { useMemo, useState } from 'react';
 import { Medication } from '../types';
 import { ChevronDownIcon, ChevronUpIcon } from './icons';
+import { addDays } from '../services/scheduleService';
+import { getDoseInstances, getDoseInstancesForDate, getRecentDoseInstances, summarizeAdherence } from '../services/doseInstanceService';
+import { calculateAdherenceStreak } from '../services/adherenceService';
 
 interface ReportsScreenProps {
   medications: Medication[];
@@ -13,32 +16,10 @@ const MedicationHistoryLog: React.FC<{medications: Medication[]}> = ({ medicatio
     
     const history = useMemo(() => {
         const log: {date: Date; med: Medication, time: string, status: 'taken' | 'skipped' | 'missed', reason?: string}[] = [];
-        const today = new Date();
-        today.setHours(23, 59, 59, 999);
-
-        medications.forEach(med => {
-            for (let i = 0; i < 30; i++) { // Look back 30 days
-                const date = new Date(today);
-                date.setDate(today.getDate() - i);
-                
-                if (date > new Date()) continue; // Don't log future doses
-
-                const dateStr = date.toISOString().split('T')[0];
-                med.times.forEach(time => {
-                    const dateTime = new Date(`${dateStr}T${time}`);
-                    if (dateTime > new Date()) return; // Don't log future times on the current day
-
-                    const dateTimeKey = `${dateStr}T${time}`;
-                    const status = med.doseStatus?.[dateTimeKey];
-
-                    if (status) {
-                        log.push({ date: dateTime, med, time, status });
-                    } else {
-                        const reason = med.missedDoseReasons?.[dateTimeKey];
-                        log.push({ date: dateTime, med, time, status: 'missed', reason });
-                    }
-                });
-            }
+
+        getRecentDoseInstances(medications, 30).forEach(dose => {
+            if (dose.status === 'pending') return; // Don't log doses that aren't due yet
+            log.push({ date: dose.scheduledAt, med: dose.medication, time: dose.time, status: dose.status, reason: dose.missedReason });
         });
         
         return log.sort((a, b) => b.date.getTime() - a.date.getTime());
@@ -225,28 +206,10 @@ const AdherenceByMedication: React.FC<{medications: Medication[]}> = ({ medicati
     const itemsPerPage = 5;
     
     const adherenceData = useMemo(() => {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        const instances = getRecentDoseInstances(medications, 30, { includePRN: false });
 
         return medications.map(med => {
-            let scheduled = 0;
-            let taken = 0;
-            for (let i = 0; i < 30; i++) {
-                const date = new Date(today);
-                date.setDate(today.getDate() - i);
-                const dateStr = date.toISOString().split('T')[0];
-
-                med.times.forEach(time => {
-                    const dateTime = new Date(`${dateStr}T${time}`);
-                    if (dateTime < new Date()) {
-                        scheduled++;
-                        if (med.doseStatus?.[`${dateStr}T${time}`] === 'taken') {
-                            taken++;
-                        }
-                    }
-                });
-            }
-            const percentage = scheduled > 0 ? Math.round((taken / scheduled) * 100) : 0;
+            const { percentage } = summarizeAdherence(instances.filter(dose => dose.medication.id === med.id));
             return { id: med.id, name: med.name, percentage };
         }).sort((a,b) => a.name.localeCompare(b.name));
     }, [medications]);
@@ -344,20 +307,7 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ medications }) => {
       date.setDate(today.getDate() - i);
       const dateStr = date.toISOString().split('T')[0];
 
-      let dailyScheduled = 0;
-      let dailyTaken = 0;
-
-      medications.forEach(med => {
-        med.times.forEach(time => {
-            const dateTime = new Date(`${dateStr}T${time}`);
-            if (dateTime < new Date()){
-                 dailyScheduled++;
-                 if (med.doseStatus?.[`${dateStr}T${time}`] === 'taken') {
-                    dailyTaken++;
-                 }
-            }
-        });
-      });
+      const { due: dailyScheduled, taken: dailyTaken } = summarizeAdherence(getDoseInstancesForDate(medications, dateStr));
 
       if (i < 7) {
         report.weekly.scheduled += dailyScheduled;
@@ -385,57 +335,17 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ medications }) => {
 
   // Calculate upcoming doses for next 7 days
   const upcomingDoses = useMemo(() => {
-    const doses: { date: Date; med: Medication; time: string }[] = [];
-    const today = new Date();
-    
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-      
-      medications.forEach(med => {
-        med.times.forEach(time => {
-          doses.push({ date, med, time });
-        });
-      });
-    }
-    
-    return doses.sort((a, b) => {
-      const dateA = new Date(`${a.date.toISOString().split('T')[0]}T${a.time}`);
-      const dateB = new Date(`${b.date.toISOString().split('T')[0]}T${b.time}`);
-      return dateA.getTime() - dateB.getTime();
-    }).slice(0, 5); // Show next 5 doses
+    const now = new Date();
+    const todayStr = now.toISOString().split('T')[0];
+
+    return getDoseInstances(medications, todayStr, addDays(todayStr, 6), { includePRN: false })
+      .filter(dose => dose.status === 'pending' && dose.scheduledAt > now)
+      .slice(0, 5) // Show next 5 doses
+      .map(dose => ({ date: dose.scheduledAt, med: dose.medication, time: dose.time }));
   }, [medications]);
 
   // Calculate streak
-  const currentStreak = useMemo(() => {
-    let streak = 0;
-    const today = new Date();
-    
-    for (let i = 0; i < 30; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
-      
-      let hasMissedDose = false;
-      medications.forEach(med => {
-        med.times.forEach(time => {
-          const dateTime = new Date(`${dateStr}T${time}`);
-          if (dateTime < today) {
-            const dateTimeKey = `${dateStr}T${time}`;
-            if (!med.doseStatus?.[dateTimeKey] || med.doseStatus[dateTimeKey] !== 'taken') {
-              hasMissedDose = true;
-            }
-          }
-        });
-      });
-      
-      if (hasMissedDose && i > 0) break;
-      if (!hasMissedDose) streak++;
-    }
-    
-    return streak;
-  }, [medications]);
+  const currentStreak = useMemo(() => calculateAdherenceStreak(medications).currentStreak, [medications]);
 
   return (
     <div className="space-y-6">
@@ -488,8 +398,7 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ medications }) => {
               <div className="space-y-2 animate-fade-in">
                 <div className="min-h-[150px]">
                   {currentItems.map((dose, index) => {
-              const dateStr = dose.date.toISOString().split('T')[0];
-              const isToday = dateStr === new Date().toISOString().split('T')[0];
+              const isToday = dose.date.toDateString() === new Date().toDateString();
               return (
                 <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div>
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { DownloadIcon, PlusIcon, TrashIcon, CogIcon, GlobeIcon, LockClosedIcon, MicrophoneIcon, ChartBarIcon, ArrowRightIcon } from './icons';
-import { UserPreferences, Caregiver, AppSecurity, EmergencyInfo, TravelInfo } from '../types';
+import { UserPreferences, Caregiver, AppSecurity, EmergencyInfo, TravelInfo, CaregiverPermissions } from '../types';
 import DashboardWidgetConfig from './DashboardWidgetConfig';
 import TravelMode from './TravelMode';
 import EmergencyMedicalID from './EmergencyMedicalID';
@@ -9,6 +9,15 @@ import ProviderReportGenerator from './ProviderReportGenerator';
 import VoiceCommands from './VoiceCommands';
 import CrisisSafetyCards from './CrisisSafetyCards';
 import AccessHistory from './AccessHistory';
+import CaregiverPermissionsEditor from './CaregiverPermissionsEditor';
+import SyncSettings from './SyncSettings';
+import EscalationSettings from './EscalationSettings';
+import QuietHoursSettings from './QuietHoursSettings';
+import MealTimesSettings from './MealTimesSettings';
+import { getItem, setItem } from '../services/storageService';
+import { isBiometricAvailable, registerBiometric } from '../services/webauthnService';
+import { FULL_PERMISSIONS, getCaregiverPermissions, describePermissions } from '../services/permissionService';
+import { SyncResult } from '../services/syncService';
 
 interface SettingsScreenProps {
   onExportData: () => void;
@@ -16,10 +25,16 @@ interface SettingsScreenProps {
   setUserPreferences: (prefs: UserPreferences) => void;
   appSecurity?: AppSecurity;
   setAppSecurity?: (security: AppSecurity) => void;
+  onChangePin?: () => void;
   emergencyInfo?: EmergencyInfo;
   onUpdateEmergencyInfo?: (info: EmergencyInfo) => void;
   medications?: any[];
   symptomEntries?: any[];
+  permissions?: CaregiverPermissions; // What the person using the app may do
+  canManageCaregivers?: boolean; // Only the patient adds caregivers and sets what they can do
+  canManageSecurity?: boolean; // Only the patient changes the app lock, which also turns encryption off
+  onSync?: () => Promise<SyncResult>;
+  onRemindersChange?: () => void; // Settings that change which reminders are queued
 }
 
 const SettingsScreen: React.FC<SettingsScreenProps> = ({ 
@@ -28,10 +43,16 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
   setUserPreferences,
   appSecurity,
   setAppSecurity,
+  onChangePin,
   emergencyInfo,
   onUpdateEmergencyInfo,
   medications = [],
   symptomEntries = [],
+  permissions = FULL_PERMISSIONS,
+  canManageCaregivers = true,
+  canManageSecurity = true,
+  onSync,
+  onRemindersChange,
 }) => {
   const [reminderSound, setReminderSound] = useState('Default');
   const [showWidgetConfig, setShowWidgetConfig] = useState(false);
@@ -42,25 +63,38 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
   const [showVoiceCommands, setShowVoiceCommands] = useState(false);
   const [showCrisisCards, setShowCrisisCards] = useState(false);
   const [showAccessHistory, setShowAccessHistory] = useState(false);
-  const [travelInfo, setTravelInfo] = useState<TravelInfo>(() => {
-    try {
-      const saved = localStorage.getItem('travelInfo');
-      return saved ? JSON.parse(saved) : { isActive: false };
-    } catch {
-      return { isActive: false };
-    }
-  });
-  const [caregivers, setCaregivers] = useState<Caregiver[]>(() => {
-    try {
-      const saved = localStorage.getItem('caregivers');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
+  const [travelInfo, setTravelInfo] = useState<TravelInfo>(() => getItem('travelInfo') || { isActive: false });
+  const [caregivers, setCaregivers] = useState<Caregiver[]>(() => getItem('caregivers') || []);
   const [newCaregiverName, setNewCaregiverName] = useState('');
   const [newCaregiverEmail, setNewCaregiverEmail] = useState('');
   const [newCaregiverAccess, setNewCaregiverAccess] = useState<'view' | 'manage'>('view');
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [caregiverTimeoutBy, setCaregiverTimeoutBy] = useState('');
+  const [caregiverTimeoutMinutes, setCaregiverTimeoutMinutes] = useState(2);
+  const [editingPermissionsFor, setEditingPermissionsFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    isBiometricAvailable().then(setBiometricAvailable);
+  }, []);
+
+  const handleLockMethodChange = async (method: 'none' | 'pin' | 'biometric') => {
+    if (!appSecurity || !setAppSecurity) return;
+
+    if (method === 'biometric') {
+      try {
+        const biometricCredential = await registerBiometric(emergencyInfo?.name || 'PillPal user');
+        setAppSecurity({ ...appSecurity, lockMethod: method, biometricCredential, isLocked: false });
+      } catch (error: any) {
+        console.error('Biometric registration failed:', error);
+        alert(`Biometric unlock couldn't be set up: ${error?.message || 'unknown error'}`);
+      }
+      return;
+    }
+    setAppSecurity({ ...appSecurity, lockMethod: method, isLocked: false });
+  };
+
+  const managingCaregivers = caregivers.filter(caregiver => caregiver.accessLevel === 'manage');
+  const caregiverTimeoutSetter = caregivers.find(caregiver => caregiver.id === appSecurity?.caregiverLockTimeoutSetBy);
 
   const addCaregiver = () => {
     if (!newCaregiverName || !newCaregiverEmail) return;
@@ -73,7 +107,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
     };
     setCaregivers(prev => {
       const updated = [...prev, newCaregiver];
-      localStorage.setItem('caregivers', JSON.stringify(updated));
+      setItem('caregivers', updated);
       return updated;
     });
     setNewCaregiverName('');
@@ -83,7 +117,15 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
   const removeCaregiver = (id: string) => {
     setCaregivers(prev => {
       const updated = prev.filter(c => c.id !== id);
-      localStorage.setItem('caregivers', JSON.stringify(updated));
+      setItem('caregivers', updated);
+      return updated;
+    });
+  };
+
+  const updateCaregiverPermissions = (id: string, caregiverPermissions: CaregiverPermissions) => {
+    setCaregivers(prev => {
+      const updated = prev.map(c => (c.id === id ? { ...c, permissions: caregiverPermissions } : c));
+      setItem('caregivers', updated);
       return updated;
     });
   };
@@ -94,7 +136,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
     try {
       // Generate iCal format for calendar export
       const generateICal = () => {
-        const medications = JSON.parse(localStorage.getItem('medications') || '[]');
+        const medications = getItem('medications') || [];
         let ical = 'BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//PillPal//Medication Tracker//EN\n';
         
         medications.forEach((med: any) => {
@@ -286,7 +328,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
       </div>
 
       {/* App Security */}
-      {appSecurity && setAppSecurity && (
+      {appSecurity && setAppSecurity && canManageSecurity && (
         <div className="bg-white p-4 rounded-xl shadow-lg">
           <h3 className="font-bold text-lg text-gray-700 border-b pb-2 mb-4 flex items-center gap-2">
             <LockClosedIcon className="h-5 w-5 text-indigo-600" />
@@ -298,17 +340,36 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
               <select
                 id="lockMethod"
                 value={appSecurity.lockMethod}
-                onChange={(e) => {
-                  const method = e.target.value as 'none' | 'pin' | 'biometric';
-                  setAppSecurity({ ...appSecurity, lockMethod: method, isLocked: false });
-                }}
+                onChange={(e) => handleLockMethodChange(e.target.value as 'none' | 'pin' | 'biometric')}
                 className="w-full border-gray-300 rounded-md shadow-sm"
               >
                 <option value="none">No Lock</option>
                 <option value="pin">PIN Lock</option>
-                <option value="biometric">Biometric</option>
+                <option value="biometric" disabled={!biometricAvailable && appSecurity.lockMethod !== 'biometric'}>
+                  {biometricAvailable ? 'Biometric' : 'Biometric (not available on this device)'}
+                </option>
               </select>
+              {appSecurity.lockMethod === 'biometric' && appSecurity.biometricCredential && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Set up {new Date(appSecurity.biometricCredential.createdAt).toLocaleDateString()}. Your PIN still works if biometrics fail.
+                </p>
+              )}
             </div>
+            {appSecurity.lockMethod !== 'none' && onChangePin && (
+              <div>
+                <button
+                  onClick={onChangePin}
+                  className="w-full p-3 bg-indigo-50 border-2 border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors text-left"
+                >
+                  <p className="font-semibold text-indigo-800">{appSecurity.pinHash ? 'Change PIN' : 'Set PIN'}</p>
+                  <p className="text-xs text-indigo-600 mt-1">
+                    {appSecurity.lockMethod === 'pin'
+                      ? 'Your health data is encrypted on this device with your PIN'
+                      : 'Used whenever biometric unlock isn\'t available'}
+                  </p>
+                </button>
+              </div>
+            )}
             {appSecurity.lockMethod !== 'none' && (
               <div>
                 <label htmlFor="lockTimeout" className="block text-sm font-medium text-gray-700 mb-2">
@@ -323,7 +384,66 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
                   onChange={(e) => setAppSecurity({ ...appSecurity, lockTimeout: parseInt(e.target.value) || 5 })}
                   className="w-full border-gray-300 rounded-md shadow-sm"
                 />
-                <p className="text-xs text-gray-500 mt-1">App will lock after this many minutes of inactivity</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {appSecurity.caregiverLockTimeout && appSecurity.caregiverLockTimeout < appSecurity.lockTimeout
+                    ? `App will lock after ${appSecurity.caregiverLockTimeout} minutes of inactivity, the limit set by your caregiver`
+                    : 'App will lock after this many minutes of inactivity'}
+                </p>
+              </div>
+            )}
+            {appSecurity.lockMethod !== 'none' && (appSecurity.caregiverLockTimeout || managingCaregivers.length > 0) && (
+              <div className="border-t pt-4">
+                <p className="block text-sm font-medium text-gray-700 mb-2">Caregiver Time Limit</p>
+                {appSecurity.caregiverLockTimeout ? (
+                  <div className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                    <p className="text-sm text-gray-700">
+                      Locks after at most {appSecurity.caregiverLockTimeout} minutes
+                      {caregiverTimeoutSetter ? `, set by ${caregiverTimeoutSetter.name}` : ''}
+                    </p>
+                    <button
+                      onClick={() => setAppSecurity({ ...appSecurity, caregiverLockTimeout: undefined, caregiverLockTimeoutSetBy: undefined })}
+                      className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-500">A caregiver with full access can require a shorter timeout than the one above.</p>
+                    <select
+                      value={caregiverTimeoutBy}
+                      onChange={(e) => setCaregiverTimeoutBy(e.target.value)}
+                      className="w-full border-gray-300 rounded-md shadow-sm"
+                    >
+                      <option value="">Choose caregiver…</option>
+                      {managingCaregivers.map(caregiver => (
+                        <option key={caregiver.id} value={caregiver.id}>{caregiver.name}</option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        max="60"
+                        value={caregiverTimeoutMinutes}
+                        onChange={(e) => setCaregiverTimeoutMinutes(parseInt(e.target.value) || 1)}
+                        className="flex-1 border-gray-300 rounded-md shadow-sm"
+                        aria-label="Caregiver time limit in minutes"
+                      />
+                      <button
+                        onClick={() => setAppSecurity({
+                          ...appSecurity,
+                          caregiverLockTimeout: Math.max(1, Math.min(60, caregiverTimeoutMinutes)),
+                          caregiverLockTimeoutSetBy: caregiverTimeoutBy,
+                        })}
+                        disabled={!caregiverTimeoutBy}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        Set Limit
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -388,19 +508,21 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
       </div>
 
       {/* Provider Reports */}
-      <div className="bg-white p-4 rounded-xl shadow-lg">
-        <h3 className="font-bold text-lg text-gray-700 border-b pb-2 mb-4 flex items-center gap-2">
-          <ChartBarIcon className="h-5 w-5 text-indigo-600" />
-          Provider Reports
-        </h3>
-        <button
-          onClick={() => setShowProviderReport(true)}
-          className="w-full p-4 bg-blue-50 border-2 border-blue-200 rounded-lg hover:bg-blue-100 transition-colors text-left"
-        >
-          <p className="font-semibold text-gray-800">Generate Provider Report</p>
-          <p className="text-xs text-gray-600 mt-1">Create shareable report for your healthcare provider</p>
-        </button>
-      </div>
+      {permissions.exportReports && (
+        <div className="bg-white p-4 rounded-xl shadow-lg">
+          <h3 className="font-bold text-lg text-gray-700 border-b pb-2 mb-4 flex items-center gap-2">
+            <ChartBarIcon className="h-5 w-5 text-indigo-600" />
+            Provider Reports
+          </h3>
+          <button
+            onClick={() => setShowProviderReport(true)}
+            className="w-full p-4 bg-blue-50 border-2 border-blue-200 rounded-lg hover:bg-blue-100 transition-colors text-left"
+          >
+            <p className="font-semibold text-gray-800">Generate Provider Report</p>
+            <p className="text-xs text-gray-600 mt-1">Create shareable report for your healthcare provider</p>
+          </button>
+        </div>
+      )}
 
       {/* Crisis & Safety */}
       <div className="bg-white p-4 rounded-xl shadow-lg">
@@ -459,6 +581,13 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
             />
           </div>
         </div>
+        <QuietHoursSettings userPreferences={userPreferences} setUserPreferences={setUserPreferences} />
+      </div>
+
+      {/* Meal Times */}
+      <div className="bg-white p-4 rounded-xl shadow-lg">
+        <h3 className="font-bold text-lg text-gray-700 border-b pb-2 mb-4">Meal Times</h3>
+        <MealTimesSettings userPreferences={userPreferences} setUserPreferences={setUserPreferences} />
       </div>
 
       {/* Calendar Integration */}
@@ -515,56 +644,81 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
           </p>
         </div>
         <div className="space-y-4">
-          <div className="space-y-2">
-            <input
-              type="text"
-              placeholder="Caregiver Name"
-              value={newCaregiverName}
-              onChange={(e) => setNewCaregiverName(e.target.value)}
-              className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
-            />
-            <input
-              type="email"
-              placeholder="Email Address"
-              value={newCaregiverEmail}
-              onChange={(e) => setNewCaregiverEmail(e.target.value)}
-              className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
-            />
-            <select
-              value={newCaregiverAccess}
-              onChange={(e) => setNewCaregiverAccess(e.target.value as 'view' | 'manage')}
-              className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
-            >
-              <option value="view">View Only</option>
-              <option value="manage">Full Access</option>
-            </select>
-            <button
-              onClick={addCaregiver}
-              className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors"
-            >
-              <PlusIcon className="w-5 h-5" />
-              Add Caregiver
-            </button>
-          </div>
+          {canManageCaregivers ? (
+            <div className="space-y-2">
+              <input
+                type="text"
+                placeholder="Caregiver Name"
+                value={newCaregiverName}
+                onChange={(e) => setNewCaregiverName(e.target.value)}
+                className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <input
+                type="email"
+                placeholder="Email Address"
+                value={newCaregiverEmail}
+                onChange={(e) => setNewCaregiverEmail(e.target.value)}
+                className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <select
+                value={newCaregiverAccess}
+                onChange={(e) => setNewCaregiverAccess(e.target.value as 'view' | 'manage')}
+                className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="view">View Only</option>
+                <option value="manage">Full Access</option>
+              </select>
+              <button
+                onClick={addCaregiver}
+                className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                <PlusIcon className="w-5 h-5" />
+                Add Caregiver
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">Only the patient can add caregivers or change what they can do.</p>
+          )}
           {caregivers.length > 0 && (
             <div className="space-y-2 mt-4">
               <p className="text-sm font-semibold text-gray-700">Active Caregivers:</p>
               {caregivers.map(caregiver => (
-                <div key={caregiver.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                  <div>
-                    <p className="text-sm font-medium">{caregiver.name}</p>
-                    <p className="text-xs text-gray-500">{caregiver.email} • {caregiver.accessLevel === 'view' ? 'View Only' : 'Full Access'}</p>
+                <div key={caregiver.id} className="p-2 bg-gray-50 rounded">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium">{caregiver.name}</p>
+                      <p className="text-xs text-gray-500">{caregiver.email} • {describePermissions(getCaregiverPermissions(caregiver))}</p>
+                    </div>
+                    {canManageCaregivers && (
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => setEditingPermissionsFor(prev => (prev === caregiver.id ? null : caregiver.id))}
+                          className="px-2 py-1 text-xs text-indigo-600 font-semibold hover:bg-indigo-50 rounded"
+                        >
+                          {editingPermissionsFor === caregiver.id ? 'Done' : 'Permissions'}
+                        </button>
+                        <button
+                          onClick={() => removeCaregiver(caregiver.id)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded"
+                          aria-label={`Remove ${caregiver.name}`}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
                   </div>
-                  <button
-                    onClick={() => removeCaregiver(caregiver.id)}
-                    className="p-1 text-red-600 hover:bg-red-50 rounded"
-                  >
-                    <TrashIcon className="w-4 h-4" />
-                  </button>
+                  {canManageCaregivers && editingPermissionsFor === caregiver.id && (
+                    <CaregiverPermissionsEditor
+                      caregiver={caregiver}
+                      medications={medications}
+                      onChange={caregiverPermissions => updateCaregiverPermissions(caregiver.id, caregiverPermissions)}
+                    />
+                  )}
                 </div>
               ))}
             </div>
           )}
+          <EscalationSettings caregivers={caregivers} canEdit={canManageCaregivers} onChange={() => onRemindersChange?.()} />
         </div>
       </div>
 
@@ -584,8 +738,14 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
             className="h-5 w-5 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
           />
         </div>
-        {userPreferences.offlineMode && userPreferences.lastSyncTime && (
-          <p className="text-xs text-gray-500 mt-2">Last synced: {new Date(userPreferences.lastSyncTime).toLocaleString()}</p>
+        {onSync && (
+          <SyncSettings
+            onSync={async () => {
+              const result = await onSync();
+              setCaregivers(getItem('caregivers') || []);
+              return result;
+            }}
+          />
         )}
       </div>
 
@@ -593,20 +753,27 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
       <div className="bg-white p-4 rounded-xl shadow-lg">
         <h3 className="font-bold text-lg text-gray-700 border-b pb-2 mb-4">Data Management</h3>
         <div className="space-y-3">
-          <button
-            onClick={onExportData}
-            className="flex items-center justify-center gap-2 w-full bg-gray-600 text-white font-semibold py-2.5 px-4 rounded-lg hover:bg-gray-700 transition-colors shadow-md"
-          >
-            <DownloadIcon className="w-5 h-5"/>
-            Export Medication Data (CSV)
-          </button>
-          <button
-            onClick={() => setShowDataManagement(true)}
-            className="w-full p-4 bg-indigo-50 border-2 border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors text-left"
-          >
-            <p className="font-semibold text-gray-800">Backup & Restore</p>
-            <p className="text-xs text-gray-600 mt-1">Full backup, restore, or delete all data</p>
-          </button>
+          {!permissions.exportReports && (
+            <p className="text-sm text-gray-600">You don't have permission to export data or make backups.</p>
+          )}
+          {permissions.exportReports && (
+            <>
+              <button
+                onClick={onExportData}
+                className="flex items-center justify-center gap-2 w-full bg-gray-600 text-white font-semibold py-2.5 px-4 rounded-lg hover:bg-gray-700 transition-colors shadow-md"
+              >
+                <DownloadIcon className="w-5 h-5"/>
+                Export Medication Data (CSV)
+              </button>
+              <button
+                onClick={() => setShowDataManagement(true)}
+                className="w-full p-4 bg-indigo-50 border-2 border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors text-left"
+              >
+                <p className="font-semibold text-gray-800">Backup & Restore</p>
+                <p className="text-xs text-gray-600 mt-1">Full backup, restore, or delete all data</p>
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -648,7 +815,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({
           travelInfo={travelInfo}
           onUpdate={(info) => {
             setTravelInfo(info);
-            localStorage.setItem('travelInfo', JSON.stringify(info));
+            setItem('travelInfo', info);
             setShowTravelMode(false);
           }}
           onClose={() => setShowTravelMode(false)}
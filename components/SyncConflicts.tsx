@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { SyncConflict } from '../types';
+import { formatConflictValue } from '../services/syncConflictService';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, choice: 'local' | 'remote') => Promise<void>;
+}
+
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ conflicts, onResolve }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  if (conflicts.length === 0) return null;
+
+  const handleResolve = async (conflict: SyncConflict, choice: 'local' | 'remote') => {
+    setResolvingId(conflict.id);
+    try {
+      await onResolve(conflict, choice);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-lg p-3">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex justify-between items-center text-left">
+        <span className="text-sm font-semibold text-amber-900">
+          {conflicts.length === 1 ? '1 change' : `${conflicts.length} changes`} made differently on another device
+        </span>
+        <span className="text-xs text-amber-800">{isExpanded ? 'Hide' : 'Review'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-amber-800">
+            Every device now shows the highlighted choice. Pick the other one to use it everywhere instead.
+          </p>
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="bg-white rounded-md p-3 shadow-sm">
+              <p className="text-sm font-medium text-gray-800">{conflict.label}</p>
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                {(['local', 'remote'] as const).map(choice => (
+                  <button
+                    key={choice}
+                    onClick={() => handleResolve(conflict, choice)}
+                    disabled={resolvingId === conflict.id}
+                    className={`text-left text-xs rounded-md border p-2 disabled:opacity-50 ${
+                      conflict.kept === choice ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="block font-semibold text-gray-600">{choice === 'local' ? 'This device' : 'Other device'}</span>
+                    <span className="block text-gray-800 break-words">
+                      {formatConflictValue(conflict, choice === 'local' ? conflict.localValue : conflict.remoteValue)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncConflicts;
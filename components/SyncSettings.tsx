@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { getItem } from '../services/storageService';
+import { getSyncSettings, saveSyncSettings, disconnectSync, SyncResult } from '../services/syncService';
+
+interface SyncSettingsProps {
+  onSync: () => Promise<SyncResult>;
+}
+
+const describeResult = (result: SyncResult): string => {
+  const parts = [`Sent ${result.pushed}, received ${result.pulled} ${result.pulled === 1 ? 'change' : 'changes'}`];
+  if (result.conflicts > 0) parts.push(`${result.conflicts} made differently on another device, listed at the top to review`);
+  if (result.skipped > 0) parts.push(`${result.skipped} for people who aren't on this device were skipped`);
+  return parts.join('; ');
+};
+
+const SyncSettings: React.FC<SyncSettingsProps> = ({ onSync }) => {
+  const [settings, setSettings] = useState(() => getSyncSettings());
+  const [serverUrl, setServerUrl] = useState(settings?.serverUrl || '');
+  const [token, setToken] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [lastSyncTime, setLastSyncTime] = useState<string | undefined>(() => getItem('lastSyncTime'));
+
+  const runSync = async () => {
+    setIsSyncing(true);
+    setMessage(null);
+    try {
+      const result = await onSync();
+      setLastSyncTime(result.syncedAt);
+      setMessage({ text: describeResult(result), isError: false });
+    } catch (error: any) {
+      setMessage({ text: error?.message || 'Sync failed', isError: true });
+    }
+    setIsSyncing(false);
+  };
+
+  const handleConnect = async () => {
+    try {
+      await saveSyncSettings(serverUrl, token);
+      setSettings(getSyncSettings());
+      setToken('');
+      setLastSyncTime(undefined);
+      await runSync();
+    } catch (error: any) {
+      setMessage({ text: error?.message || "Couldn't save the sync settings", isError: true });
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!confirm('Stop syncing this device? Data already on this device stays here.')) return;
+    await disconnectSync();
+    setSettings(null);
+    setLastSyncTime(undefined);
+    setMessage(null);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t space-y-3">
+      <div>
+        <p className="block text-sm font-medium text-gray-700">Sync Between Devices</p>
+        <p className="text-xs text-gray-500">
+          Keep phones and laptops on the same network in step through a PillPal sync server you run yourself.
+        </p>
+      </div>
+
+      {settings ? (
+        <>
+          <p className="text-sm text-gray-700">
+            Syncing with <span className="font-mono text-xs">{settings.serverUrl}</span>
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={runSync}
+              disabled={isSyncing}
+              className="flex-1 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {isSyncing ? 'Syncing…' : 'Sync Now'}
+            </button>
+            <button
+              onClick={handleDisconnect}
+              disabled={isSyncing}
+              className="px-4 py-2 text-sm text-red-600 font-semibold rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              Disconnect
+            </button>
+          </div>
+          {lastSyncTime && <p className="text-xs text-gray-500">Last synced: {new Date(lastSyncTime).toLocaleString()}</p>}
+        </>
+      ) : (
+        <div className="space-y-2">
+          <input
+            type="url"
+            placeholder="Server address, e.g. http://192.168.1.20:8787"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <input
+            type="password"
+            placeholder="Sync token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500"
+            autoComplete="off"
+          />
+          <button
+            onClick={handleConnect}
+            disabled={isSyncing || !serverUrl || !token}
+            className="w-full bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {isSyncing ? 'Connecting…' : 'Connect and Sync'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default SyncSettings;
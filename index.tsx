@@ -1,7 +1,9 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AppLock from './components/AppLock';
+import { AppSecurity } from './types';
+import { initStorage, isStorageLocked, unlockStorage, getItem, setItem } from './services/storageService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,59 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+const renderApp = () => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+};
+
+// Saved data is loaded before the first render so state initializers can read it synchronously.
+// Data encrypted behind the PIN has to be unlocked before the app can read it.
+initStorage().then(() => {
+  const security = getItem('appSecurity');
+  if (!isStorageLocked() || !security) {
+    renderApp();
+    return;
+  }
+
+  const updateSecurity = (changes: Partial<AppSecurity>) => {
+    const updated = { ...(getItem('appSecurity') || security), ...changes };
+    renderLock(updated);
+    return setItem('appSecurity', updated).catch(error => console.error('Failed to save security settings', error));
+  };
+
+  const handleUnlock = async (pin?: string) => {
+    if (!pin) return;
+    try {
+      if (!(await unlockStorage(pin))) {
+        alert("Your data couldn't be unlocked with this PIN.");
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to decrypt stored data', error);
+      alert('Some of your saved data is damaged and could not be decrypted.');
+      return;
+    }
+    const now = new Date().toISOString();
+    await updateSecurity({ isLocked: false, lastUnlockTime: now, lastActiveTime: now });
+    renderApp();
+  };
+
+  const renderLock = (current: AppSecurity) => {
+    root.render(
+      <React.StrictMode>
+        <AppLock
+          security={{ ...current, isLocked: true }}
+          onUnlock={handleUnlock}
+          onSetPin={() => undefined}
+          onUpdateSecurity={updateSecurity}
+        />
+      </React.StrictMode>
+    );
+  };
+
+  renderLock(security);
+});
@@ -0,0 +1,112 @@
+import http from 'node:http';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * A stand-in for an SMTP relay, for trying out caregiver escalations by email.
+ *
+ *   npm run mail-outbox
+ *
+ * Browsers can't send mail themselves, so the app posts each message here instead. Nothing is
+ * actually sent: messages are appended to a file, one JSON object per line, and printed. Put a real
+ * relay that accepts the same request in its place to deliver them. Settings:
+ *   PORT                 port to listen on (default 8025)
+ *   PILLPAL_MAIL_OUTBOX  file to append messages to (default server/data/outbox.jsonl)
+ *
+ * Endpoint:
+ *   POST /send   { to, subject, text }
+ */
+
+const DEFAULT_PORT = 8025;
+const MAX_BODY_BYTES = 64 * 1024;
+
+interface OutboxMessage {
+  to: string;
+  subject: string;
+  text: string;
+  receivedAt: string;
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: any): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Message is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+/**
+ * Check a message from the app. Returns what's wrong with it, or null.
+ */
+const validateMessage = (body: any): string | null => {
+  if (!body || typeof body !== 'object') return 'expected an object';
+  if (typeof body.to !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(body.to)) return 'to must be an email address';
+  if (typeof body.subject !== 'string' || !body.subject) return 'subject is required';
+  if (typeof body.text !== 'string' || !body.text) return 'text is required';
+  return null;
+};
+
+const createMailOutbox = (outboxPath: string): http.Server =>
+  http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (req.url !== '/send') {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error: any) {
+      sendJson(res, 400, { error: error?.message === 'Message is too large' ? error.message : 'Request body must be JSON' });
+      return;
+    }
+    const problem = validateMessage(body);
+    if (problem) {
+      sendJson(res, 400, { error: problem });
+      return;
+    }
+
+    const message: OutboxMessage = { to: body.to, subject: body.subject, text: body.text, receivedAt: new Date().toISOString() };
+    try {
+      await fs.mkdir(path.dirname(outboxPath), { recursive: true });
+      await fs.appendFile(outboxPath, `${JSON.stringify(message)}\n`);
+    } catch (error) {
+      console.error('Failed to save message:', error);
+      sendJson(res, 500, { error: 'Internal server error' });
+      return;
+    }
+    console.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+    sendJson(res, 200, { ok: true });
+  });
+
+const port = parseInt(process.env.PORT || '', 10) || DEFAULT_PORT;
+const outboxPath = path.resolve(process.env.PILLPAL_MAIL_OUTBOX || path.join('server', 'data', 'outbox.jsonl'));
+createMailOutbox(outboxPath).listen(port, () => {
+  console.log(`PillPal mail outbox listening on port ${port}, saving messages to ${outboxPath}`);
+});
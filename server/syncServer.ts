@@ -0,0 +1,218 @@
+import http from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import path from 'node:path';
+import type { SyncCollection } from '../types.ts';
+import { openSyncStore, validateChange, SYNC_COLLECTIONS } from './syncStore.ts';
+import type { SyncStore } from './syncStore.ts';
+
+/**
+ * Self-hosted sync server for devices on the same network.
+ *
+ *   PILLPAL_SYNC_TOKEN=<secret> npm run sync-server
+ *
+ * Every request but /api/health needs "Authorization: Bearer <secret>". Settings:
+ *   PILLPAL_SYNC_TOKEN  shared secret each device is set up with (required, 16+ characters)
+ *   PORT                port to listen on (default 8787)
+ *   PILLPAL_SYNC_DATA   JSON file to keep the data in (default server/data/sync.json)
+ *
+ * Endpoints:
+ *   GET    /api/changes?since=<time>     everything changed after a time, with the server's time
+ *   POST   /api/changes                  { deviceId, changes: SyncChange[] }, merged field by field
+ *   GET    /api/<collection>             live records, filtered by ?profileId=
+ *   GET    /api/<collection>/<id>        one record (?profileId= except for caregivers)
+ *   PUT    /api/<collection>/<id>        { profileId?, data, deviceId? }, replacing the record
+ *   DELETE /api/<collection>/<id>        (?profileId= except for caregivers)
+ * Collections: medications, doseEvents, symptoms, caregivers, escalations.
+ */
+
+const MIN_TOKEN_LENGTH = 16;
+const MAX_BODY_BYTES = 20 * 1024 * 1024; // Medications can carry photos
+const DEFAULT_PORT = 8787;
+
+// An error whose message is safe to send back, with the status to send it with
+const httpError = (status: number, message: string): Error & { status: number } =>
+  Object.assign(new Error(message), { status });
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+// Compare digests so the check takes the same time however much of the token matches
+const isAuthorized = (req: http.IncomingMessage, token: string): boolean => {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer (.+)$/.exec(header);
+  return !!match && timingSafeEqual(digest(match[1]), digest(token));
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(httpError(413, 'Request body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(httpError(400, 'Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, body: any): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// The app is served from another origin, and authenticates with a token rather than cookies
+const setCorsHeaders = (res: http.ServerResponse): void => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Max-Age', '600');
+};
+
+const getDeviceId = (body: any): string => {
+  if (body.deviceId === undefined) return 'api';
+  if (typeof body.deviceId !== 'string' || !body.deviceId) throw httpError(400, 'deviceId must be a string');
+  return body.deviceId;
+};
+
+const decodePathPart = (part: string): string => {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    throw httpError(400, 'Path is not encoded correctly');
+  }
+};
+
+const checkSince = (since: string | null): string | undefined => {
+  if (!since) return undefined;
+  if (isNaN(Date.parse(since))) throw httpError(400, 'since must be a date and time');
+  return new Date(since).toISOString();
+};
+
+/**
+ * Route one authenticated API request
+ */
+const handleApiRequest = async (req: http.IncomingMessage, url: URL, store: SyncStore): Promise<[number, any]> => {
+  const [, resource, id, ...rest] = url.pathname.replace(/^\/api/, '').split('/').map(decodePathPart);
+  if (rest.length > 0) throw httpError(404, 'Not found');
+
+  if (resource === 'changes' && !id) {
+    if (req.method === 'GET') {
+      // Changes stamped later than now (several in the same millisecond) are left for the next pull
+      const serverTime = new Date().toISOString();
+      const changes = store.getChangesSince(checkSince(url.searchParams.get('since'))).filter(record => record.updatedAt <= serverTime);
+      return [200, { changes, serverTime }];
+    }
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (!Array.isArray(body.changes)) throw httpError(400, 'changes must be a list');
+      body.changes.forEach((change: any, index: number) => {
+        const problem = validateChange(change);
+        if (problem) throw httpError(400, `changes[${index}]: ${problem}`);
+      });
+      const applied = await store.applyChanges(body.changes, getDeviceId(body));
+      return [200, { applied, serverTime: new Date().toISOString() }];
+    }
+    throw httpError(405, 'Method not allowed');
+  }
+
+  if (!SYNC_COLLECTIONS.includes(resource as SyncCollection)) throw httpError(404, 'Not found');
+  const collection = resource as SyncCollection;
+  const profileId = url.searchParams.get('profileId') || undefined;
+
+  if (!id) {
+    if (req.method !== 'GET') throw httpError(405, 'Method not allowed');
+    return [200, { records: store.getRecords(collection, profileId) }];
+  }
+
+  switch (req.method) {
+    case 'GET': {
+      const record = store.getRecord(collection, id, profileId);
+      if (!record) throw httpError(404, 'Record not found');
+      return [200, { record }];
+    }
+    case 'PUT': {
+      const body = await readJsonBody(req);
+      const change = { collection, id, profileId: body.profileId, data: body.data };
+      const problem = validateChange(change);
+      if (problem) throw httpError(400, problem);
+      const [record] = await store.applyChanges([change], getDeviceId(body));
+      return [200, { record }];
+    }
+    case 'DELETE': {
+      const change = { collection, id, profileId, deleted: true };
+      const problem = validateChange(change);
+      if (problem) throw httpError(400, problem);
+      if (!store.getRecord(collection, id, profileId)) throw httpError(404, 'Record not found');
+      const [record] = await store.applyChanges([change], 'api');
+      return [200, { record }];
+    }
+    default:
+      throw httpError(405, 'Method not allowed');
+  }
+};
+
+const createSyncServer = (store: SyncStore, token: string): http.Server =>
+  http.createServer(async (req, res) => {
+    setCorsHeaders(res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname === '/api/health') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    if (!url.pathname.startsWith('/api/')) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (!isAuthorized(req, token)) {
+      sendJson(res, 401, { error: 'Missing or wrong sync token' });
+      return;
+    }
+
+    try {
+      const [status, body] = await handleApiRequest(req, url, store);
+      sendJson(res, status, body);
+    } catch (error: any) {
+      if (typeof error?.status === 'number') {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('Sync request failed:', error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+
+const main = async () => {
+  const token = process.env.PILLPAL_SYNC_TOKEN || '';
+  if (token.length < MIN_TOKEN_LENGTH) {
+    console.error(`Set PILLPAL_SYNC_TOKEN to a secret of at least ${MIN_TOKEN_LENGTH} characters; each device is set up with it.`);
+    process.exit(1);
+  }
+  const port = parseInt(process.env.PORT || '', 10) || DEFAULT_PORT;
+  const dataPath = path.resolve(process.env.PILLPAL_SYNC_DATA || path.join('server', 'data', 'sync.json'));
+
+  const store = await openSyncStore(dataPath);
+  createSyncServer(store, token).listen(port, () => {
+    console.log(`PillPal sync server listening on port ${port}, storing data in ${dataPath}`);
+  });
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
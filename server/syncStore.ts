@@ -0,0 +1,172 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { SyncChange, SyncCollection, SyncRecord } from '../types.ts';
+import { mergeClockedRecords, clockAllFields, nextClock, latestClock } from '../services/fieldMergeService.ts';
+import type { ClockedRecord } from '../services/fieldMergeService.ts';
+
+/**
+ * The sync server's store: one JSON file holding the latest version of every record.
+ *
+ * Changes are merged into the stored record field by field, by the clocks the devices send, so the
+ * order they arrive in doesn't matter. Writes without clocks, from the REST endpoints, replace the
+ * whole record as of now. Dose events never change once stored. Deleted records are kept as
+ * tombstones so other devices learn about the deletion when they next pull.
+ */
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['medications', 'doseEvents', 'symptoms', 'caregivers', 'escalations'];
+
+interface SyncStoreFile {
+  version: number;
+  records: { [key: string]: SyncRecord };
+}
+
+const STORE_VERSION = 1;
+const SERVER_NODE_ID = 'server';
+
+export interface SyncStore {
+  getChangesSince: (since?: string) => SyncRecord[];
+  getRecords: (collection: SyncCollection, profileId?: string) => SyncRecord[];
+  getRecord: (collection: SyncCollection, id: string, profileId?: string) => SyncRecord | undefined;
+  applyChanges: (changes: SyncChange[], deviceId: string) => Promise<SyncRecord[]>;
+}
+
+export const getRecordKey = (change: Pick<SyncChange, 'collection' | 'id' | 'profileId'>): string =>
+  `${change.collection}:${change.profileId || ''}:${change.id}`;
+
+/**
+ * Check a change from a client. Returns what's wrong with it, or null.
+ */
+export const validateChange = (change: any): string | null => {
+  if (!change || typeof change !== 'object') return 'expected an object';
+  if (!SYNC_COLLECTIONS.includes(change.collection)) return `unknown collection "${change.collection}"`;
+  if (typeof change.id !== 'string' || !change.id) return 'id is required';
+  if (change.profileId !== undefined && typeof change.profileId !== 'string') return 'profileId must be a string';
+  if (change.collection !== 'caregivers' && !change.profileId) return 'profileId is required';
+  if (change.clocks !== undefined) {
+    if (!change.clocks || typeof change.clocks !== 'object' || Object.values(change.clocks).some(clock => typeof clock !== 'string')) {
+      return 'clocks must map fields to clocks';
+    }
+  }
+  if (change.deleted) {
+    if (change.collection === 'doseEvents') return 'dose events are never deleted';
+    if (change.data === undefined) return null;
+  }
+  if (!change.data || typeof change.data !== 'object' || Array.isArray(change.data)) return 'data must be an object';
+  if (change.data.id !== change.id) return 'data.id must match id';
+  return null;
+};
+
+/**
+ * Open the store at filePath, creating it on the first write
+ */
+export const openSyncStore = async (filePath: string): Promise<SyncStore> => {
+  let records: { [key: string]: SyncRecord } = {};
+  try {
+    const file: SyncStoreFile = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    records = file.records || {};
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw new Error(`Couldn't read sync data from ${filePath}: ${error?.message}`);
+  }
+
+  let lastUpdatedAt = Object.values(records).reduce((latest, record) => (record.updatedAt > latest ? record.updatedAt : latest), '');
+  let lastClock: string | undefined;
+  Object.values(records).forEach(record => Object.values(record.clocks || {}).forEach(clock => {
+    lastClock = latestClock(lastClock, clock);
+  }));
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  // Every change gets a later time than the one before, so "changes since" never misses one
+  const nextUpdatedAt = (): string => {
+    let time = Date.now();
+    if (lastUpdatedAt && time <= Date.parse(lastUpdatedAt)) time = Date.parse(lastUpdatedAt) + 1;
+    lastUpdatedAt = new Date(time).toISOString();
+    return lastUpdatedAt;
+  };
+
+  // Write a temporary file and rename it over the store, so a crash can't leave half a file
+  const save = (): Promise<void> => {
+    const contents = JSON.stringify({ version: STORE_VERSION, records } as SyncStoreFile);
+    const write = writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, contents, 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+    // A failed write is reported to its caller, and later saves still run
+    writeQueue = write.catch(() => undefined);
+    return write;
+  };
+
+  const getChangesSince = (since?: string): SyncRecord[] =>
+    Object.values(records)
+      .filter(record => !since || record.updatedAt > since)
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+
+  const getRecords = (collection: SyncCollection, profileId?: string): SyncRecord[] =>
+    Object.values(records).filter(
+      record => record.collection === collection && !record.deleted && (!profileId || record.profileId === profileId)
+    );
+
+  const getRecord = (collection: SyncCollection, id: string, profileId?: string): SyncRecord | undefined => {
+    const record = records[getRecordKey({ collection, id, profileId })];
+    return record && !record.deleted ? record : undefined;
+  };
+
+  // A change without clocks replaces the record as of now, clearing fields it leaves out
+  const toClockedRecord = (change: SyncChange, stored?: SyncRecord): ClockedRecord => {
+    if (change.clocks) {
+      Object.values(change.clocks).forEach(clock => {
+        lastClock = latestClock(lastClock, clock);
+      });
+      return { data: change.data || {}, clocks: change.clocks, deleted: !!change.deleted };
+    }
+    lastClock = nextClock(lastClock, SERVER_NODE_ID);
+    const data = change.deleted ? {} : change.data;
+    return {
+      data,
+      clocks: change.deleted ? clockAllFields({}, lastClock) : clockAllFields({ ...(stored?.data || {}), ...data }, lastClock),
+      deleted: !!change.deleted,
+    };
+  };
+
+  const applyChange = (change: SyncChange, deviceId: string): SyncRecord | null => {
+    const key = getRecordKey(change);
+    const stored = records[key];
+    let merged: ClockedRecord;
+    if (change.collection === 'doseEvents') {
+      if (stored) return null;
+      merged = { data: change.data, clocks: {} };
+    } else {
+      const incoming = toClockedRecord(change, stored);
+      merged = stored
+        ? mergeClockedRecords({ data: stored.data || {}, clocks: stored.clocks || {}, deleted: stored.deleted }, incoming)
+        : incoming;
+    }
+
+    const record: SyncRecord = {
+      collection: change.collection,
+      id: change.id,
+      ...(change.profileId ? { profileId: change.profileId } : {}),
+      data: merged.data,
+      ...(Object.keys(merged.clocks).length > 0 ? { clocks: merged.clocks } : {}),
+      ...(merged.deleted ? { deleted: true } : {}),
+      updatedAt: nextUpdatedAt(),
+      deviceId,
+    };
+    records[key] = record;
+    return record;
+  };
+
+  /**
+   * Merge changes in. Returns the records as stored afterwards; dose events already stored are left out.
+   */
+  const applyChanges = async (changes: SyncChange[], deviceId: string): Promise<SyncRecord[]> => {
+    const applied = changes
+      .map(change => applyChange(change, deviceId))
+      .filter((record): record is SyncRecord => record !== null);
+    if (applied.length > 0) await save();
+    return applied;
+  };
+
+  return { getChangesSince, getRecords, getRecord, applyChanges };
+};
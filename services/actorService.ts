@@ -0,0 +1,73 @@
+import { Actor, Caregiver, EmergencyInfo } from '../types';
+import { getItem } from './storageService';
+
+export const PATIENT_ACTOR_ID = 'patient';
+
+// Kept for the browser session only, so a caregiver who closes the app doesn't stay signed in as themselves
+const SESSION_KEY = 'currentActorId';
+
+let currentActorId: string | null = null;
+
+const readSessionActorId = (): string | null => {
+  try {
+    return sessionStorage.getItem(SESSION_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeSessionActorId = (actorId: string): void => {
+  try {
+    sessionStorage.setItem(SESSION_KEY, actorId);
+  } catch {
+    // Without session storage the choice lasts until the page is closed
+  }
+};
+
+/**
+ * The patient, named after their Emergency Medical ID when it has a name
+ */
+export const getPatientActor = (): Actor => {
+  const emergencyInfo: EmergencyInfo | null = getItem('emergencyInfo');
+  return { id: PATIENT_ACTOR_ID, type: 'patient', name: emergencyInfo?.name || 'Patient' };
+};
+
+export const getCaregiverActor = (caregiver: Caregiver): Actor => ({
+  id: caregiver.id,
+  type: 'caregiver',
+  name: caregiver.name,
+});
+
+/**
+ * Everyone who can use the app on this device: the patient first, then their caregivers
+ */
+export const getAvailableActors = (): Actor[] => {
+  const caregivers: Caregiver[] = getItem('caregivers') || [];
+  return [getPatientActor(), ...caregivers.map(getCaregiverActor)];
+};
+
+/**
+ * Get who is using the app. Falls back to the patient when the chosen caregiver has been removed.
+ */
+export const getCurrentActor = (): Actor => {
+  const actorId = currentActorId ?? readSessionActorId();
+  return getAvailableActors().find(actor => actor.id === actorId) || getPatientActor();
+};
+
+/**
+ * Switch who is using the app
+ */
+export const setCurrentActor = (actorId: string): Actor => {
+  currentActorId = actorId;
+  writeSessionActorId(actorId);
+  return getCurrentActor();
+};
+
+/**
+ * Look up the caregiver behind an actor, if it is one
+ */
+export const getActorCaregiver = (actor: Actor): Caregiver | undefined => {
+  if (actor.type !== 'caregiver') return undefined;
+  const caregivers: Caregiver[] = getItem('caregivers') || [];
+  return caregivers.find(caregiver => caregiver.id === actor.id);
+};
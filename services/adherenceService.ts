@@ -1,4 +1,6 @@
 import { Medication, AdherenceStreak, Milestone, Badge, DoseStatus } from '../types';
+import { addDays } from './scheduleService';
+import { getDoseHistoryStartDate, getDoseInstances } from './doseInstanceService';
 
 /**
  * Calculate adherence streak based on medication history
@@ -7,64 +9,66 @@ export const calculateAdherenceStreak = (medications: Medication[]): AdherenceSt
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   
+  const todayStr = today.toISOString().split('T')[0];
   let currentStreak = 0;
   let longestStreak = 0;
   let lastStreakDate = '';
   let totalDosesTaken = 0;
   const milestones: Milestone[] = [];
   
-  // Get all dose dates
-  const doseDates = new Set<string>();
-  const takenDates = new Set<string>();
-  
-  medications.forEach(med => {
-    if (med.doseStatus) {
-      Object.keys(med.doseStatus).forEach(dateTimeKey => {
-        const [date] = dateTimeKey.split('T');
-        doseDates.add(date);
-        if (med.doseStatus![dateTimeKey] === 'taken') {
-          takenDates.add(date);
-          totalDosesTaken++;
-        }
-      });
+  // Tally each day's scheduled doses from the first recorded dose up to today
+  const dayStats: { [date: string]: { due: number; taken: number; missed: number } } = {};
+  const historyStart = getDoseHistoryStartDate(medications);
+  const instances = historyStart && historyStart <= todayStr
+    ? getDoseInstances(medications, historyStart, todayStr)
+    : [];
+  
+  instances.forEach(dose => {
+    if (dose.status === 'taken') totalDosesTaken++;
+    if (dose.isPRN) return;
+    if (!dayStats[dose.date]) {
+      dayStats[dose.date] = { due: 0, taken: 0, missed: 0 };
     }
+    if (dose.status !== 'pending') dayStats[dose.date].due++;
+    if (dose.status === 'taken') dayStats[dose.date].taken++;
+    if (dose.status === 'missed') dayStats[dose.date].missed++;
   });
   
-  // Calculate current streak (consecutive days with at least one dose taken)
-  let checkDate = new Date(today);
-  while (true) {
-    const dateStr = checkDate.toISOString().split('T')[0];
-    if (takenDates.has(dateStr)) {
-      currentStreak++;
-      lastStreakDate = dateStr;
-      checkDate.setDate(checkDate.getDate() - 1);
-    } else {
-      break;
+  // A day extends the streak when doses were due and none were missed.
+  // Days with nothing due don't count either way, and today can't break a streak yet.
+  const getDayResult = (date: string): 'kept' | 'neutral' | 'broken' => {
+    const stats = dayStats[date];
+    if (!stats || stats.due === 0) return 'neutral';
+    if (stats.missed === 0 && stats.taken > 0) return 'kept';
+    return date === todayStr ? 'neutral' : 'broken';
+  };
+  
+  // Calculate current streak, walking back from today
+  if (historyStart) {
+    for (let date = todayStr; date >= historyStart; date = addDays(date, -1)) {
+      const result = getDayResult(date);
+      if (result === 'broken') break;
+      if (result === 'kept') {
+        currentStreak++;
+        if (!lastStreakDate) lastStreakDate = date;
+      }
     }
   }
   
   // Calculate longest streak
-  const sortedDates = Array.from(takenDates).sort().reverse();
   let tempStreak = 0;
-  let maxStreak = 0;
-  let prevDate: Date | null = null;
-  
-  sortedDates.forEach(dateStr => {
-    const date = new Date(dateStr);
-    if (prevDate) {
-      const daysDiff = Math.floor((prevDate.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
-      if (daysDiff === 1) {
+  if (historyStart) {
+    for (let date = historyStart; date <= todayStr; date = addDays(date, 1)) {
+      const result = getDayResult(date);
+      if (result === 'kept') {
         tempStreak++;
-      } else {
-        maxStreak = Math.max(maxStreak, tempStreak);
-        tempStreak = 1;
+        longestStreak = Math.max(longestStreak, tempStreak);
+      } else if (result === 'broken') {
+        tempStreak = 0;
       }
-    } else {
-      tempStreak = 1;
     }
-    prevDate = date;
-  });
-  longestStreak = Math.max(maxStreak, tempStreak, currentStreak);
+  }
+  longestStreak = Math.max(longestStreak, currentStreak);
   
   // Define milestones
   const milestoneTargets = [
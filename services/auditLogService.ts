@@ -1,6 +1,14 @@
 /**
- * Audit log service for tracking user actions and access
+ * Audit log service for tracking user actions and access.
+ *
+ * Entries form a hash chain: each one stores the hash of the entry before it and a hash of its own
+ * contents, so editing, removing or reordering any entry breaks the chain from that point on.
+ * Old entries are moved to an archive rather than dropped, and the chain runs through both.
  */
+import { Actor } from '../types';
+import { getItem, setItem } from './storageService';
+import { sha256Hex } from './cryptoService';
+import { getCurrentActor } from './actorService';
 
 export interface AuditLogEntry {
   id: string;
@@ -9,53 +17,124 @@ export interface AuditLogEntry {
   resource: 'medication' | 'symptom' | 'settings' | 'data' | 'report' | 'caregiver';
   resourceId?: string;
   details?: string;
-  userId?: string;
+  userId?: string; // Id of the actor: 'patient' or a caregiver's id
+  actorName?: string;
+  actorType?: Actor['type'];
   ipAddress?: string;
+  sequence?: number; // Position in the chain, counting archived entries
+  previousHash?: string;
+  hash?: string;
 }
 
+export interface AuditChainVerification {
+  intact: boolean;
+  checked: number;
+  brokenAt?: number; // 1-based entry number, counting archived entries
+  reason?: string;
+}
+
+export interface ActorActivitySummary {
+  actorId?: string; // Undefined for entries from before actors were tracked
+  actorName: string;
+  actorType?: Actor['type'];
+  total: number;
+  actions: { [action: string]: number };
+  lastActivity: string; // ISO timestamp
+}
+
+const MAX_LIVE_ENTRIES = 1000;
+const GENESIS_HASH = '0'.repeat(64);
+
+// Appends are queued because hashing is async and each entry depends on the one before
+let appendQueue: Promise<void> = Promise.resolve();
+
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+  const run = appendQueue.then(task);
+  appendQueue = run.catch(error => console.error('Failed to update audit log:', error));
+  return run;
+};
+
+/**
+ * Hash an entry's contents (everything but its own hash), with keys in a fixed order
+ */
+const hashEntry = (entry: AuditLogEntry): Promise<string> => {
+  const { hash, ...contents } = entry;
+  const canonical = Object.keys(contents)
+    .sort()
+    .reduce((sorted, key) => ({ ...sorted, [key]: (contents as any)[key] }), {});
+  return sha256Hex(JSON.stringify(canonical));
+};
+
+const getActorFields = (actor: Actor): Pick<AuditLogEntry, 'userId' | 'actorName' | 'actorType'> => ({
+  userId: actor.id,
+  actorName: actor.name,
+  actorType: actor.type,
+});
+
+const getArchivedAuditLogs = (): AuditLogEntry[] => [...(getItem('auditLogArchive') || [])];
+
 /**
- * Log an action
+ * Get every entry in chain order, archived ones first
+ */
+const getFullChain = (): AuditLogEntry[] => [...getArchivedAuditLogs(), ...getAuditLogs()];
+
+/**
+ * Chain the new entries onto the log and save it, archiving entries over the live limit
+ */
+const appendEntries = async (newEntries: AuditLogEntry[]): Promise<void> => {
+  const archive = getArchivedAuditLogs();
+  const live = getAuditLogs();
+  const chain = [...archive, ...live];
+
+  // Entries written before the log was chained are sealed into it the first time it's updated.
+  // Once any entry is sealed that's done; an entry missing its hash after that breaks the chain.
+  const isLegacy = chain.length > 0 && chain.every(entry => !entry.hash);
+  const toSeal = isLegacy ? chain.splice(0) : [];
+  if (toSeal.length === 0 && newEntries.length === 0) return;
+
+  let previousHash = chain.length > 0 ? chain[chain.length - 1].hash! : GENESIS_HASH;
+  for (const entry of [...toSeal, ...newEntries]) {
+    const sealed: AuditLogEntry = { ...entry, sequence: chain.length, previousHash };
+    sealed.hash = await hashEntry(sealed);
+    chain.push(sealed);
+    previousHash = sealed.hash;
+  }
+
+  const archiveLength = Math.max(archive.length, chain.length - MAX_LIVE_ENTRIES);
+  if (archiveLength > archive.length || (isLegacy && archive.length > 0)) {
+    await setItem('auditLogArchive', chain.slice(0, archiveLength));
+  }
+  await setItem('auditLogs', chain.slice(archiveLength));
+};
+
+/**
+ * Log an action, attributed to whoever is using the app unless another actor is given
  */
 export const logAction = (
   action: AuditLogEntry['action'],
   resource: AuditLogEntry['resource'],
   resourceId?: string,
-  details?: string
+  details?: string,
+  actor: Actor = getCurrentActor()
 ): void => {
-  try {
-    const logs = getAuditLogs();
-    const newLog: AuditLogEntry = {
-      id: Date.now().toString(),
-      timestamp: new Date().toISOString(),
-      action,
-      resource,
-      resourceId,
-      details,
-    };
-
-    logs.push(newLog);
+  const newLog: AuditLogEntry = {
+    id: Date.now().toString(),
+    timestamp: new Date().toISOString(),
+    action,
+    resource,
+    resourceId,
+    details,
+    ...getActorFields(actor),
+  };
 
-    // Keep only last 1000 entries
-    if (logs.length > 1000) {
-      logs.shift();
-    }
-
-    localStorage.setItem('auditLogs', JSON.stringify(logs));
-  } catch (error) {
-    console.error('Failed to log action:', error);
-  }
+  enqueue(() => appendEntries([newLog])).catch(() => undefined);
 };
 
 /**
  * Get audit logs
  */
 export const getAuditLogs = (): AuditLogEntry[] => {
-  try {
-    const logs = localStorage.getItem('auditLogs');
-    return logs ? JSON.parse(logs) : [];
-  } catch {
-    return [];
-  }
+  return [...(getItem('auditLogs') || [])];
 };
 
 /**
@@ -65,6 +144,8 @@ export const getFilteredAuditLogs = (
   filters: {
     action?: AuditLogEntry['action'];
     resource?: AuditLogEntry['resource'];
+    actorId?: string;
+    actorType?: Actor['type'];
     startDate?: string;
     endDate?: string;
   }
@@ -74,6 +155,8 @@ export const getFilteredAuditLogs = (
   return logs.filter(log => {
     if (filters.action && log.action !== filters.action) return false;
     if (filters.resource && log.resource !== filters.resource) return false;
+    if (filters.actorId && log.userId !== filters.actorId) return false;
+    if (filters.actorType && log.actorType !== filters.actorType) return false;
     if (filters.startDate && log.timestamp < filters.startDate) return false;
     if (filters.endDate && log.timestamp > filters.endDate) return false;
     return true;
@@ -81,17 +164,77 @@ export const getFilteredAuditLogs = (
 };
 
 /**
- * Clear audit logs
+ * Count each actor's entries by action, most active first
  */
-export const clearAuditLogs = (): void => {
-  localStorage.removeItem('auditLogs');
+export const summarizeByActor = (logs: AuditLogEntry[]): ActorActivitySummary[] => {
+  const summaries = new Map<string, ActorActivitySummary>();
+
+  logs.forEach(log => {
+    const key = log.userId || '';
+    const summary = summaries.get(key) || {
+      actorId: log.userId,
+      actorName: log.actorName || 'Unknown (before tracking)',
+      actorType: log.actorType,
+      total: 0,
+      actions: {},
+      lastActivity: log.timestamp,
+    };
+    summary.total++;
+    summary.actions[log.action] = (summary.actions[log.action] || 0) + 1;
+    if (log.timestamp > summary.lastActivity) summary.lastActivity = log.timestamp;
+    summaries.set(key, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.total - a.total);
 };
 
 /**
- * Export audit logs
+ * Check every entry's hash and link, including archived entries
  */
-export const exportAuditLogs = (): string => {
-  const logs = getAuditLogs();
-  return JSON.stringify(logs, null, 2);
+export const verifyAuditChain = async (): Promise<AuditChainVerification> => {
+  // Let pending writes land and seal entries from before the log was chained
+  await enqueue(() => appendEntries([]));
+
+  const chain = getFullChain();
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+    const broken = (reason: string): AuditChainVerification => ({ intact: false, checked: i, brokenAt: i + 1, reason });
+
+    if (!entry.hash) return broken('Entry has no hash');
+    if (entry.sequence !== i) return broken('Entry is missing or out of order');
+    if (entry.previousHash !== previousHash) return broken('Entry does not follow the one before it');
+    if ((await hashEntry(entry)) !== entry.hash) return broken('Entry was modified');
+    previousHash = entry.hash;
+  }
+
+  return { intact: true, checked: chain.length };
 };
 
+/**
+ * Clear audit logs from view. Entries are archived, never deleted, and the clearing itself is logged.
+ */
+export const clearAuditLogs = (): Promise<void> => {
+  const actor = getCurrentActor();
+  return enqueue(async () => {
+    const live = getAuditLogs();
+    await setItem('auditLogArchive', [...getArchivedAuditLogs(), ...live]);
+    await setItem('auditLogs', []);
+    await appendEntries([{
+      id: Date.now().toString(),
+      timestamp: new Date().toISOString(),
+      action: 'delete',
+      resource: 'data',
+      details: `Cleared access history (${live.length} entries archived)`,
+      ...getActorFields(actor),
+    }]);
+  });
+};
+
+/**
+ * Export audit logs, including the archive so the chain can be verified
+ */
+export const exportAuditLogs = (): string => {
+  return JSON.stringify(getFullChain(), null, 2);
+};
@@ -0,0 +1,109 @@
+import { deriveKey, encryptBytes, decryptBytes, randomBytes, toBase64, fromBase64, SALT_BYTES, PBKDF2_HASH, DEFAULT_PBKDF2_ITERATIONS } from './cryptoService';
+
+/**
+ * Passphrase-encrypted backup files.
+ *
+ * An encrypted backup is a JSON envelope around the regular backup JSON:
+ *
+ *   {
+ *     "format": "pillpal-encrypted-backup",
+ *     "version": 1,
+ *     "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 600000, "salt": "<base64, 16 bytes>" },
+ *     "cipher": { "name": "AES-GCM", "iv": "<base64, 12 bytes>" },
+ *     "ciphertext": "<base64 AES-256-GCM output, including the 16-byte tag>",
+ *     "compression": "gzip" (optional)
+ *   }
+ *
+ * The key is derived from the passphrase with the kdf parameters. The plaintext is the UTF-8
+ * backup JSON, gzipped first when "compression" says so, and "pillpal-encrypted-backup:1" is passed as additional authenticated data so the
+ * header can't be swapped. Nothing else in the envelope is secret, and nothing else is stored.
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = 'pillpal-encrypted-backup';
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackupEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: string; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+  compression?: 'gzip'; // The backup JSON was gzipped before it was encrypted
+}
+
+const getAdditionalData = (version: number): string => `${ENCRYPTED_BACKUP_FORMAT}:${version}`;
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+export const isCompressionAvailable = (): boolean => typeof CompressionStream !== 'undefined';
+
+export const gzip = (bytes: Uint8Array): Promise<Uint8Array> => pipeThrough(bytes, new CompressionStream('gzip'));
+
+export const gunzip = (bytes: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    return Promise.reject(new Error("This browser can't unpack compressed backups; try a newer one"));
+  }
+  return pipeThrough(bytes, new DecompressionStream('gzip'));
+};
+
+/**
+ * Check whether parsed file contents are an encrypted backup envelope
+ */
+export const isEncryptedBackup = (raw: any): raw is EncryptedBackupEnvelope => {
+  return !!raw && typeof raw === 'object' && raw.format === ENCRYPTED_BACKUP_FORMAT;
+};
+
+/**
+ * Encrypt backup JSON with a passphrase, compressing it first if asked, since ciphertext doesn't compress
+ */
+export const encryptBackup = async (backupJson: string, passphrase: string, compress = false): Promise<EncryptedBackupEnvelope> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt, DEFAULT_PBKDF2_ITERATIONS);
+  const json = new TextEncoder().encode(backupJson);
+  const plaintext = compress ? await gzip(json) : json;
+  const { iv, ciphertext } = await encryptBytes(key, plaintext, getAdditionalData(ENCRYPTED_BACKUP_VERSION));
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: PBKDF2_HASH, iterations: DEFAULT_PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv },
+    ciphertext,
+    ...(compress && { compression: 'gzip' as const }),
+  };
+};
+
+/**
+ * Decrypt an encrypted backup envelope back into the backup JSON
+ */
+export const decryptBackup = async (envelope: EncryptedBackupEnvelope, passphrase: string): Promise<string> => {
+  if (envelope.version !== ENCRYPTED_BACKUP_VERSION) {
+    throw new Error(`Unsupported encrypted backup version ${envelope.version}`);
+  }
+  if (
+    envelope.kdf?.name !== 'PBKDF2' || envelope.kdf.hash !== PBKDF2_HASH || envelope.cipher?.name !== 'AES-GCM' ||
+    (envelope.compression !== undefined && envelope.compression !== 'gzip')
+  ) {
+    throw new Error('Unsupported encryption settings in backup file');
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  } catch {
+    throw new Error('Encrypted backup file is damaged');
+  }
+
+  let plaintext: Uint8Array;
+  try {
+    plaintext = await decryptBytes(key, envelope.cipher.iv, envelope.ciphertext, getAdditionalData(envelope.version));
+  } catch {
+    // AES-GCM can't tell a wrong passphrase from a modified file
+    throw new Error('Incorrect passphrase, or the backup file has been modified');
+  }
+  return new TextDecoder().decode(envelope.compression === 'gzip' ? await gunzip(plaintext) : plaintext);
+};
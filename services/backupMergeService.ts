@@ -0,0 +1,312 @@
+import { Medication, DoseEvent, DoseStatus, Profile, ProfileData } from '../types';
+import { BackupData } from './backupService';
+import { createDoseEvent, reduceDoseEvents, getDoseState } from './doseEventService';
+import { DEFAULT_PROFILE_ID } from './profileService';
+
+export interface DoseConflict {
+  id: string;
+  medicationId: string; // Id of the merged medication
+  medicationName: string;
+  profileName?: string; // Whose medication it is, when the household has several profiles
+  doseKey: string;
+  localStatus: DoseStatus;
+  incomingStatus: DoseStatus;
+  localTakenAt?: string;
+  incomingTakenAt?: string;
+  localAmount?: number;
+  incomingAmount?: number;
+}
+
+export type ConflictResolution = 'local' | 'incoming';
+
+export interface MergeSummary {
+  medicationsMatched: number;
+  medicationsAdded: number;
+  doseEventsAdded: number;
+  symptomEntriesAdded: number;
+  profilesAdded: number;
+}
+
+export interface MergeResult {
+  backup: BackupData; // Only the stores a merge changes; everything else is left as it is
+  conflicts: DoseConflict[];
+  summary: MergeSummary;
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Find the local medication an incoming one corresponds to: same id, or same name and dosage
+ */
+const findMatchingMedication = (incoming: Medication, localMeds: Medication[]): Medication | undefined => {
+  return (
+    localMeds.find(med => med.id === incoming.id) ||
+    localMeds.find(med => normalize(med.name) === normalize(incoming.name) && normalize(med.dosage) === normalize(incoming.dosage))
+  );
+};
+
+/**
+ * Union two lists by id, keeping the local copy when both sides have one
+ */
+const unionById = <T extends { id: string }>(local: T[], incoming: T[]): { items: T[]; added: number } => {
+  const ids = new Set(local.map(item => item.id));
+  const additions = incoming.filter(item => !ids.has(item.id));
+  return { items: [...local, ...additions], added: additions.length };
+};
+
+/**
+ * Re-key a record by medication id, keeping local entries when both sides have one
+ */
+const mergeRecordByMedication = <T extends { medicationId?: string }>(
+  local: { [medId: string]: T } | undefined,
+  incoming: { [medId: string]: T } | undefined,
+  idMap: Map<string, string>
+): { [medId: string]: T } | undefined => {
+  if (!incoming) return undefined;
+
+  const merged = { ...(local || {}) };
+  Object.entries(incoming).forEach(([medId, value]) => {
+    const localId = idMap.get(medId) || medId;
+    if (merged[localId]) return;
+    merged[localId] = value.medicationId !== undefined ? { ...value, medicationId: localId } : value;
+  });
+  return merged;
+};
+
+// A profile's data in a backup: the active profile's is at the top level
+type ProfileSlice = Partial<ProfileData> & { medications: Medication[] };
+
+const getActiveId = (backup: BackupData): string => backup.activeProfileId || DEFAULT_PROFILE_ID;
+
+const getBackupProfiles = (backup: BackupData): Profile[] => {
+  if (backup.profiles && backup.profiles.length > 0) return backup.profiles;
+  return [{ id: getActiveId(backup), name: backup.emergencyInfo?.name || 'Me', color: '#4f46e5', createdDate: '' }];
+};
+
+const getSlice = (backup: BackupData, profileId: string): ProfileSlice => {
+  if (profileId === getActiveId(backup)) {
+    return {
+      medications: backup.medications,
+      symptomEntries: backup.symptomEntries,
+      userPreferences: backup.userPreferences,
+      emergencyInfo: backup.emergencyInfo,
+      prnConfigs: backup.prnConfigs,
+      medicationEducations: backup.medicationEducations,
+      notificationBehaviors: backup.notificationBehaviors,
+    };
+  }
+  return backup.profileData?.[profileId] || { medications: [] };
+};
+
+/**
+ * Merge one person's data from a backup into theirs on this device
+ */
+const mergeSlice = (
+  local: ProfileSlice,
+  incoming: ProfileSlice,
+  idMap: Map<string, string>,
+  summary: MergeSummary,
+  conflicts: DoseConflict[],
+  profileName?: string
+): ProfileSlice => {
+  const medications = [...local.medications];
+
+  incoming.medications.forEach(incomingMed => {
+    const match = findMatchingMedication(incomingMed, medications);
+
+    if (!match) {
+      idMap.set(incomingMed.id, incomingMed.id);
+      medications.push(incomingMed);
+      summary.medicationsAdded++;
+      return;
+    }
+
+    idMap.set(incomingMed.id, match.id);
+    summary.medicationsMatched++;
+
+    const localEvents = match.doseEvents || [];
+    const incomingEvents: DoseEvent[] = (incomingMed.doseEvents || []).map(event => ({ ...event, medicationId: match.id }));
+    const { items: events, added } = unionById(localEvents, incomingEvents);
+    summary.doseEventsAdded += added;
+
+    // Fill in details only the backup has; settings already on this device win
+    const merged: Medication = { ...incomingMed, ...match, doseEvents: events };
+    medications[medications.indexOf(match)] = merged;
+
+    // A dose recorded differently on each side is a conflict for the user to settle
+    const doseKeys = new Set(incomingEvents.map(event => event.doseKey));
+    doseKeys.forEach(doseKey => {
+      const localState = reduceDoseEvents(localEvents.filter(event => event.doseKey === doseKey));
+      const incomingState = reduceDoseEvents(incomingEvents.filter(event => event.doseKey === doseKey));
+      if (localState.status && incomingState.status && localState.status !== incomingState.status) {
+        conflicts.push({
+          id: `${match.id}|${doseKey}`,
+          medicationId: match.id,
+          medicationName: merged.name,
+          profileName,
+          doseKey,
+          localStatus: localState.status,
+          incomingStatus: incomingState.status,
+          localTakenAt: localState.takenAt,
+          incomingTakenAt: incomingState.takenAt,
+          localAmount: localState.amount,
+          incomingAmount: incomingState.amount,
+        });
+      }
+    });
+  });
+
+  const symptoms = unionById(
+    local.symptomEntries || [],
+    (incoming.symptomEntries || []).map(entry =>
+      entry.medicationId ? { ...entry, medicationId: idMap.get(entry.medicationId) || entry.medicationId } : entry
+    )
+  );
+  summary.symptomEntriesAdded += symptoms.added;
+
+  const slice: ProfileSlice = { medications, symptomEntries: symptoms.items };
+
+  const prnConfigs = mergeRecordByMedication(local.prnConfigs, incoming.prnConfigs, idMap);
+  if (prnConfigs) slice.prnConfigs = prnConfigs;
+  const educations = mergeRecordByMedication(local.medicationEducations, incoming.medicationEducations, idMap);
+  if (educations) slice.medicationEducations = educations;
+  const behaviors = mergeRecordByMedication(local.notificationBehaviors, incoming.notificationBehaviors, idMap);
+  if (behaviors) slice.notificationBehaviors = behaviors;
+
+  return slice;
+};
+
+const toProfileData = (slice: ProfileSlice): ProfileData => ({
+  prnConfigs: {},
+  medicationEducations: {},
+  notificationBehaviors: {},
+  ...slice,
+  symptomEntries: slice.symptomEntries || [],
+});
+
+/**
+ * Merge a backup into the data on this device instead of replacing it. Each person's data is
+ * merged into the matching profile here (same id or name); new people are added as profiles.
+ */
+export const mergeBackup = (local: BackupData, incoming: BackupData): MergeResult => {
+  const summary: MergeSummary = { medicationsMatched: 0, medicationsAdded: 0, doseEventsAdded: 0, symptomEntriesAdded: 0, profilesAdded: 0 };
+  const conflicts: DoseConflict[] = [];
+  const idMap = new Map<string, string>(); // Incoming medication id -> merged medication id
+
+  const localActiveId = getActiveId(local);
+  const profiles = [...getBackupProfiles(local)];
+  const slices = new Map<string, ProfileSlice>(profiles.map(profile => [profile.id, getSlice(local, profile.id)]));
+  // A backup from before profiles holds a single person's data, merged into the current profile as before
+  const incomingHasProfiles = !!incoming.profiles && incoming.profiles.length > 0;
+
+  getBackupProfiles(incoming).forEach(incomingProfile => {
+    const incomingSlice = getSlice(incoming, incomingProfile.id);
+    const match = incomingHasProfiles
+      ? profiles.find(profile => profile.id === incomingProfile.id) ||
+        profiles.find(profile => normalize(profile.name) === normalize(incomingProfile.name))
+      : profiles.find(profile => profile.id === localActiveId);
+
+    if (!match) {
+      profiles.push(incomingProfile);
+      slices.set(incomingProfile.id, incomingSlice);
+      incomingSlice.medications.forEach(med => idMap.set(med.id, med.id));
+      summary.profilesAdded++;
+      summary.medicationsAdded += incomingSlice.medications.length;
+      summary.symptomEntriesAdded += (incomingSlice.symptomEntries || []).length;
+      return;
+    }
+
+    const profileName = profiles.length > 1 || incomingHasProfiles ? match.name : undefined;
+    slices.set(match.id, mergeSlice(slices.get(match.id)!, incomingSlice, idMap, summary, conflicts, profileName));
+  });
+
+  const active = slices.get(localActiveId)!;
+  const backup: BackupData = {
+    version: incoming.version,
+    exported: incoming.exported,
+    medications: active.medications,
+    symptomEntries: active.symptomEntries,
+  };
+  if (active.prnConfigs) backup.prnConfigs = active.prnConfigs;
+  if (active.medicationEducations) backup.medicationEducations = active.medicationEducations;
+  if (active.notificationBehaviors) backup.notificationBehaviors = active.notificationBehaviors;
+
+  if (profiles.length > 1) {
+    backup.profiles = profiles;
+    backup.activeProfileId = localActiveId;
+    backup.profileData = {};
+    slices.forEach((slice, profileId) => {
+      if (profileId !== localActiveId) backup.profileData![profileId] = toProfileData(slice);
+    });
+  }
+
+  if (incoming.caregivers) {
+    backup.caregivers = unionById(local.caregivers || [], incoming.caregivers).items;
+  }
+  // Access history isn't merged: each device's log is its own hash chain, and splicing in
+  // another device's entries would break it
+
+  if (incoming.dismissedAlerts) {
+    const dismissed = { ...(local.dismissedAlerts || {}) };
+    Object.entries(incoming.dismissedAlerts).forEach(([key, list]) => {
+      dismissed[key] = Array.from(new Set([...(dismissed[key] || []), ...list]));
+    });
+    backup.dismissedAlerts = dismissed;
+  }
+
+  if (incoming.checkInDates) {
+    const checkInDates = { ...(local.checkInDates || {}) };
+    Object.entries(incoming.checkInDates).forEach(([key, date]) => {
+      const [prefix, medId] = key.split('_');
+      const localKey = `${prefix}_${idMap.get(medId) || medId}`;
+      // Keep the most recent check-in
+      if (!checkInDates[localKey] || checkInDates[localKey] < date) {
+        checkInDates[localKey] = date;
+      }
+    });
+    backup.checkInDates = checkInDates;
+  }
+
+  return { backup, conflicts, summary };
+};
+
+/**
+ * Apply the user's choices to a merged backup. The dose log is append-only, so choosing a side
+ * records its status again as a new event wherever it isn't already the current one.
+ */
+export const resolveConflicts = (
+  merged: BackupData,
+  conflicts: DoseConflict[],
+  resolutions: { [conflictId: string]: ConflictResolution }
+): BackupData => {
+  const resolve = (med: Medication): Medication => {
+    const medConflicts = conflicts.filter(conflict => conflict.medicationId === med.id && resolutions[conflict.id]);
+    if (medConflicts.length === 0) return med;
+
+    const resolutionEvents = medConflicts
+      .map(conflict => {
+        const useLocal = resolutions[conflict.id] === 'local';
+        const status = useLocal ? conflict.localStatus : conflict.incomingStatus;
+        const takenAt = useLocal ? conflict.localTakenAt : conflict.incomingTakenAt;
+        const amount = useLocal ? conflict.localAmount : conflict.incomingAmount;
+        if (getDoseState(med, conflict.doseKey).status === status) return null;
+        return createDoseEvent(med.id, conflict.doseKey, amount !== undefined ? 'partial' : status, {
+          takenAt,
+          amount,
+          note: useLocal ? "Kept this device's record when merging a backup" : "Kept the backup's record when merging",
+        });
+      })
+      .filter((event): event is DoseEvent => event !== null);
+
+    return { ...med, doseEvents: [...(med.doseEvents || []), ...resolutionEvents] };
+  };
+
+  const resolved: BackupData = { ...merged, medications: merged.medications.map(resolve) };
+  if (merged.profileData) {
+    resolved.profileData = {};
+    Object.entries(merged.profileData).forEach(([profileId, data]) => {
+      resolved.profileData![profileId] = { ...data, medications: data.medications.map(resolve) };
+    });
+  }
+  return resolved;
+};
@@ -0,0 +1,491 @@
+import { BackupData } from './backupService';
+import { migrateMedications } from './doseEventService';
+import { COUNT_UNITS, DOSE_FORMS, MASS_UNITS, VOLUME_UNITS, migrateDoses } from './dosageService';
+
+/**
+ * Backup format versions, validation and upgrades.
+ *
+ * Version history:
+ * - 1 ('1.0'): medications, symptomEntries, userPreferences, emergencyInfo and appSecurity
+ * - 2: adds every other store, dose events instead of doseStatus maps, and a numeric version
+ * - 3: structured doses (amount, unit, form and strength) alongside the dosage text
+ */
+
+export const BACKUP_VERSION = 3;
+
+export interface BackupUpgrade {
+  fromVersion: number;
+  description: string;
+  upgrade: (backup: any) => any;
+}
+
+const DOSE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner'];
+
+/**
+ * Upgrades, applied in order until the backup reaches BACKUP_VERSION
+ */
+const upgrades: BackupUpgrade[] = [
+  {
+    fromVersion: 1,
+    description: 'Numeric version and dose events',
+    upgrade: backup => {
+      const upgraded = {
+        ...backup,
+        version: 2,
+        medications: Array.isArray(backup.medications) ? migrateMedications(backup.medications) : backup.medications,
+      };
+      // Version 1 wrote {} for settings that had never been saved
+      ['userPreferences', 'emergencyInfo', 'appSecurity'].forEach(key => {
+        if (isObject(upgraded[key]) && Object.keys(upgraded[key]).length === 0) delete upgraded[key];
+      });
+      return upgraded;
+    },
+  },
+  {
+    fromVersion: 2,
+    description: 'Structured doses',
+    upgrade: backup => {
+      const upgradeMedications = (medications: any) => (Array.isArray(medications) ? migrateDoses(medications) : medications);
+      const profileData = isObject(backup.profileData)
+        ? Object.fromEntries(
+            Object.entries(backup.profileData).map(([profileId, data]: [string, any]) => [
+              profileId,
+              isObject(data) ? { ...data, medications: upgradeMedications(data.medications) } : data,
+            ])
+          )
+        : backup.profileData;
+      return { ...backup, version: 3, medications: upgradeMedications(backup.medications), profileData };
+    },
+  },
+];
+
+/**
+ * Read the version of a backup; early backups used the string '1.0'
+ */
+export const getBackupVersion = (backup: any): number | null => {
+  const version = typeof backup?.version === 'string' ? parseFloat(backup.version) : backup?.version;
+  return typeof version === 'number' && !isNaN(version) ? Math.floor(version) : null;
+};
+
+/**
+ * Upgrade an older backup to the current format
+ */
+export const upgradeBackup = (backup: any): any => {
+  let upgraded = backup;
+  let version = getBackupVersion(backup) || 1;
+
+  for (const step of upgrades) {
+    if (step.fromVersion !== version) continue;
+    upgraded = step.upgrade(upgraded);
+    version = getBackupVersion(upgraded) || version + 1;
+  }
+  return upgraded;
+};
+
+// Field checks. Each pushes a "path: problem" message and reports whether the value passed.
+
+const isObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkString = (value: any, path: string, errors: string[], pattern?: RegExp): boolean => {
+  if (typeof value !== 'string') {
+    errors.push(`${path}: expected text`);
+    return false;
+  }
+  if (pattern && !pattern.test(value)) {
+    errors.push(`${path}: "${value}" is not in the expected format`);
+    return false;
+  }
+  return true;
+};
+
+const checkNumber = (value: any, path: string, errors: string[]): boolean => {
+  if (typeof value !== 'number' || isNaN(value)) {
+    errors.push(`${path}: expected a number`);
+    return false;
+  }
+  return true;
+};
+
+const checkBoolean = (value: any, path: string, errors: string[]): boolean => {
+  if (typeof value !== 'boolean') {
+    errors.push(`${path}: expected true or false`);
+    return false;
+  }
+  return true;
+};
+
+const checkOneOf = (value: any, allowed: readonly string[], path: string, errors: string[]): boolean => {
+  if (!allowed.includes(value)) {
+    errors.push(`${path}: must be one of ${allowed.join(', ')}`);
+    return false;
+  }
+  return true;
+};
+
+const checkStringArray = (value: any, path: string, errors: string[]): boolean => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected a list`);
+    return false;
+  }
+  value.forEach((item, i) => checkString(item, `${path}[${i}]`, errors));
+  return true;
+};
+
+const checkOptional = (value: any, check: () => boolean): boolean => value === undefined || check();
+
+const checkList = (value: any, path: string, errors: string[], checkItem: (item: any, itemPath: string) => void): void => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected a list`);
+    return;
+  }
+  value.forEach((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(item)) {
+      errors.push(`${itemPath}: expected an object`);
+      return;
+    }
+    checkItem(item, itemPath);
+  });
+};
+
+const checkRecord = (value: any, path: string, errors: string[], checkItem: (item: any, itemPath: string) => void): void => {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  Object.entries(value).forEach(([key, item]) => {
+    const itemPath = `${path}.${key}`;
+    if (!isObject(item)) {
+      errors.push(`${itemPath}: expected an object`);
+      return;
+    }
+    checkItem(item, itemPath);
+  });
+};
+
+const checkMedication = (med: any, path: string, errors: string[]): void => {
+  checkString(med.id, `${path}.id`, errors);
+  if (checkString(med.name, `${path}.name`, errors) && !med.name.trim()) {
+    errors.push(`${path}.name: must not be empty`);
+  }
+  checkString(med.dosage, `${path}.dosage`, errors);
+  checkString(med.frequency, `${path}.frequency`, errors);
+  if (Array.isArray(med.times)) {
+    med.times.forEach((time: any, i: number) => checkString(time, `${path}.times[${i}]`, errors, TIME_PATTERN));
+  } else {
+    errors.push(`${path}.times: expected a list`);
+  }
+  if (med.mealAnchors !== undefined) {
+    if (Array.isArray(med.mealAnchors)) {
+      med.mealAnchors.forEach((anchor: any, i: number) => {
+        if (anchor === null) return; // A time not tied to a meal
+        checkOneOf(anchor?.meal, MEAL_TYPES, `${path}.mealAnchors[${i}].meal`, errors);
+        checkNumber(anchor?.offsetMinutes, `${path}.mealAnchors[${i}].offsetMinutes`, errors);
+      });
+    } else {
+      errors.push(`${path}.mealAnchors: expected a list`);
+    }
+  }
+  if (med.dose !== undefined) {
+    if (isObject(med.dose)) {
+      checkNumber(med.dose.amount, `${path}.dose.amount`, errors);
+      checkOneOf(med.dose.unit, [...MASS_UNITS, ...VOLUME_UNITS, ...COUNT_UNITS], `${path}.dose.unit`, errors);
+      checkOneOf(med.dose.form, DOSE_FORMS, `${path}.dose.form`, errors);
+      if (med.dose.strength !== undefined) {
+        if (isObject(med.dose.strength)) {
+          checkNumber(med.dose.strength.amount, `${path}.dose.strength.amount`, errors);
+          checkOneOf(med.dose.strength.unit, [...MASS_UNITS, 'unit'], `${path}.dose.strength.unit`, errors);
+          checkOptional(med.dose.strength.per, () => checkNumber(med.dose.strength.per, `${path}.dose.strength.per`, errors));
+        } else {
+          errors.push(`${path}.dose.strength: expected an object`);
+        }
+      }
+    } else {
+      errors.push(`${path}.dose: expected an object`);
+    }
+  }
+  checkOneOf(med.food, ['With food', 'Without food', 'No specific instructions'], `${path}.food`, errors);
+  checkOptional(med.quantity, () => checkNumber(med.quantity, `${path}.quantity`, errors));
+  checkOptional(med.refillThreshold, () => checkNumber(med.refillThreshold, `${path}.refillThreshold`, errors));
+  checkOptional(med.startDate, () => checkString(med.startDate, `${path}.startDate`, errors, DATE_PATTERN));
+  if (med.recurrence !== undefined) {
+    if (isObject(med.recurrence)) {
+      checkOneOf(med.recurrence.type, ['daily', 'interval', 'weekly', 'cycle', 'hourly'], `${path}.recurrence.type`, errors);
+    } else {
+      errors.push(`${path}.recurrence: expected an object`);
+    }
+  }
+  if (med.doseEvents !== undefined) {
+    checkList(med.doseEvents, `${path}.doseEvents`, errors, (event, eventPath) => {
+      checkString(event.id, `${eventPath}.id`, errors);
+      checkString(event.doseKey, `${eventPath}.doseKey`, errors, DOSE_KEY_PATTERN);
+      checkOneOf(event.type, ['taken', 'skipped', 'partial', 'snoozed', 'undone', 'note'], `${eventPath}.type`, errors);
+      checkString(event.recordedAt, `${eventPath}.recordedAt`, errors, DATE_PATTERN);
+      checkString(event.source, `${eventPath}.source`, errors);
+      if (event.actor !== undefined) {
+        if (isObject(event.actor)) {
+          checkString(event.actor.id, `${eventPath}.actor.id`, errors);
+          checkOneOf(event.actor.type, ['patient', 'caregiver'], `${eventPath}.actor.type`, errors);
+          checkString(event.actor.name, `${eventPath}.actor.name`, errors);
+        } else {
+          errors.push(`${eventPath}.actor: expected an object`);
+        }
+      }
+      if (event.medicationId !== med.id) {
+        errors.push(`${eventPath}.medicationId: does not match the medication it belongs to`);
+      }
+    });
+  }
+};
+
+/**
+ * Validate one person's data: the active profile's at the top of the backup, or another profile's
+ * under profileData. The prefix is prepended to error paths.
+ */
+const checkProfileFields = (data: any, prefix: string, errors: string[]): void => {
+  if (data.medications === undefined) {
+    errors.push(`${prefix}medications: missing`);
+  } else {
+    checkList(data.medications, `${prefix}medications`, errors, (med, path) => checkMedication(med, path, errors));
+  }
+
+  if (data.mealLog !== undefined) {
+    checkList(data.mealLog, `${prefix}mealLog`, errors, (event, path) => {
+      checkString(event.id, `${path}.id`, errors);
+      checkOneOf(event.meal, MEAL_TYPES, `${path}.meal`, errors);
+      checkString(event.eatenAt, `${path}.eatenAt`, errors, DATE_PATTERN);
+    });
+  }
+
+  if (data.symptomEntries !== undefined) {
+    checkList(data.symptomEntries, `${prefix}symptomEntries`, errors, (entry, path) => {
+      checkString(entry.id, `${path}.id`, errors);
+      checkString(entry.date, `${path}.date`, errors, DATE_PATTERN);
+      checkString(entry.time, `${path}.time`, errors, TIME_PATTERN);
+      checkStringArray(entry.symptoms, `${path}.symptoms`, errors);
+      checkString(entry.mood, `${path}.mood`, errors);
+      checkOptional(entry.painLevel, () => checkNumber(entry.painLevel, `${path}.painLevel`, errors));
+    });
+  }
+
+  if (data.userPreferences !== undefined) {
+    const prefs = data.userPreferences;
+    if (isObject(prefs)) {
+      checkOneOf(prefs.fontSize, ['normal', 'large', 'extra-large'], `${prefix}userPreferences.fontSize`, errors);
+      ['highContrast', 'voiceGuidance', 'calendarSync', 'adaptiveNotifications', 'offlineMode'].forEach(key =>
+        checkBoolean(prefs[key], `${prefix}userPreferences.${key}`, errors)
+      );
+      ['wakeTime', 'sleepTime'].forEach(key =>
+        checkOptional(prefs[key], () => checkString(prefs[key], `${prefix}userPreferences.${key}`, errors, TIME_PATTERN))
+      );
+      if (prefs.quietHours !== undefined) {
+        checkList(prefs.quietHours, `${prefix}userPreferences.quietHours`, errors, (quiet, path) => {
+          checkString(quiet.start, `${path}.start`, errors, TIME_PATTERN);
+          checkString(quiet.end, `${path}.end`, errors, TIME_PATTERN);
+        });
+      }
+    } else {
+      errors.push(`${prefix}userPreferences: expected an object`);
+    }
+  }
+
+  if (data.emergencyInfo !== undefined) {
+    const info = data.emergencyInfo;
+    if (isObject(info)) {
+      ['name', 'emergencyContact', 'emergencyPhone'].forEach(key => checkString(info[key], `${prefix}emergencyInfo.${key}`, errors));
+      ['criticalMedications', 'allergies', 'conditions'].forEach(key => checkStringArray(info[key], `${prefix}emergencyInfo.${key}`, errors));
+    } else {
+      errors.push(`${prefix}emergencyInfo: expected an object`);
+    }
+  }
+
+  if (data.prnConfigs !== undefined) {
+    checkRecord(data.prnConfigs, `${prefix}prnConfigs`, errors, (config, path) => {
+      checkString(config.medicationId, `${path}.medicationId`, errors);
+      checkNumber(config.minIntervalHours, `${path}.minIntervalHours`, errors);
+      checkNumber(config.maxPerDay, `${path}.maxPerDay`, errors);
+    });
+  }
+
+  if (data.medicationEducations !== undefined) {
+    checkRecord(data.medicationEducations, `${prefix}medicationEducations`, errors, (education, path) => {
+      checkString(education.medicationId, `${path}.medicationId`, errors);
+    });
+  }
+
+  if (data.notificationBehaviors !== undefined) {
+    checkRecord(data.notificationBehaviors, `${prefix}notificationBehaviors`, errors, (behavior, path) => {
+      checkNumber(behavior.snoozeCount, `${path}.snoozeCount`, errors);
+      checkNumber(behavior.lateDoseCount, `${path}.lateDoseCount`, errors);
+    });
+  }
+};
+
+/**
+ * Validate a backup in the current format. Returns field-level error messages; empty means valid.
+ */
+export const validateBackup = (backup: any): string[] => {
+  const errors: string[] = [];
+
+  if (!isObject(backup)) {
+    return ['backup: expected a JSON object'];
+  }
+  if (backup.version !== BACKUP_VERSION) {
+    errors.push(`version: expected ${BACKUP_VERSION}, found ${JSON.stringify(backup.version)}`);
+  }
+  checkString(backup.exported, 'exported', errors, DATE_PATTERN);
+
+  checkProfileFields(backup, '', errors);
+
+  if (backup.appSecurity !== undefined) {
+    const security = backup.appSecurity;
+    if (isObject(security)) {
+      checkBoolean(security.isLocked, 'appSecurity.isLocked', errors);
+      checkOneOf(security.lockMethod, ['none', 'pin', 'biometric'], 'appSecurity.lockMethod', errors);
+      checkNumber(security.lockTimeout, 'appSecurity.lockTimeout', errors);
+      checkOptional(security.failedAttempts, () => checkNumber(security.failedAttempts, 'appSecurity.failedAttempts', errors));
+      checkOptional(security.caregiverLockTimeout, () => checkNumber(security.caregiverLockTimeout, 'appSecurity.caregiverLockTimeout', errors));
+      if (security.biometricCredential !== undefined) {
+        const credential = security.biometricCredential;
+        if (isObject(credential)) {
+          checkString(credential.id, 'appSecurity.biometricCredential.id', errors);
+          checkString(credential.publicKey, 'appSecurity.biometricCredential.publicKey', errors);
+          checkNumber(credential.algorithm, 'appSecurity.biometricCredential.algorithm', errors);
+          checkNumber(credential.signCount, 'appSecurity.biometricCredential.signCount', errors);
+        } else {
+          errors.push('appSecurity.biometricCredential: expected an object');
+        }
+      }
+      if (security.pinHashParams !== undefined) {
+        const params = security.pinHashParams;
+        if (isObject(params)) {
+          checkOneOf(params.algorithm, ['PBKDF2-SHA256'], 'appSecurity.pinHashParams.algorithm', errors);
+          checkNumber(params.iterations, 'appSecurity.pinHashParams.iterations', errors);
+          checkString(params.salt, 'appSecurity.pinHashParams.salt', errors);
+        } else {
+          errors.push('appSecurity.pinHashParams: expected an object');
+        }
+      }
+    } else {
+      errors.push('appSecurity: expected an object');
+    }
+  }
+
+  if (backup.caregivers !== undefined) {
+    checkList(backup.caregivers, 'caregivers', errors, (caregiver, path) => {
+      checkString(caregiver.id, `${path}.id`, errors);
+      checkString(caregiver.name, `${path}.name`, errors);
+      checkString(caregiver.email, `${path}.email`, errors);
+      checkOneOf(caregiver.accessLevel, ['view', 'manage'], `${path}.accessLevel`, errors);
+      if (caregiver.permissions !== undefined) {
+        const permissions = caregiver.permissions;
+        if (isObject(permissions)) {
+          checkOptional(permissions.medicationIds, () => checkStringArray(permissions.medicationIds, `${path}.permissions.medicationIds`, errors));
+          (['markDoses', 'editSchedules', 'viewJournal', 'exportReports'] as const).forEach(action => {
+            checkBoolean(permissions[action], `${path}.permissions.${action}`, errors);
+          });
+        } else {
+          errors.push(`${path}.permissions: expected an object`);
+        }
+      }
+    });
+  }
+
+  if (backup.escalationSettings !== undefined) {
+    const settings = backup.escalationSettings;
+    if (isObject(settings)) {
+      checkBoolean(settings.enabled, 'escalationSettings.enabled', errors);
+      checkNumber(settings.delayMinutes, 'escalationSettings.delayMinutes', errors);
+      checkOptional(settings.mailRelayUrl, () => checkString(settings.mailRelayUrl, 'escalationSettings.mailRelayUrl', errors));
+      checkList(settings.steps, 'escalationSettings.steps', errors, (step, path) => {
+        checkString(step.caregiverId, `${path}.caregiverId`, errors);
+        checkOneOf(step.channel, ['webhook', 'email', 'inbox'], `${path}.channel`, errors);
+        checkOptional(step.webhookUrl, () => checkString(step.webhookUrl, `${path}.webhookUrl`, errors));
+      });
+    } else {
+      errors.push('escalationSettings: expected an object');
+    }
+  }
+
+  if (backup.travelInfo !== undefined) {
+    if (isObject(backup.travelInfo)) {
+      checkBoolean(backup.travelInfo.isActive, 'travelInfo.isActive', errors);
+    } else {
+      errors.push('travelInfo: expected an object');
+    }
+  }
+
+  (['auditLogs', 'auditLogArchive'] as const).forEach(key => {
+    if (backup[key] === undefined) return;
+    checkList(backup[key], key, errors, (entry, path) => {
+      checkString(entry.id, `${path}.id`, errors);
+      checkString(entry.timestamp, `${path}.timestamp`, errors, DATE_PATTERN);
+      checkString(entry.action, `${path}.action`, errors);
+      checkString(entry.resource, `${path}.resource`, errors);
+      checkOptional(entry.hash, () => checkString(entry.hash, `${path}.hash`, errors));
+    });
+  });
+
+  if (backup.dismissedAlerts !== undefined) {
+    if (isObject(backup.dismissedAlerts)) {
+      Object.entries(backup.dismissedAlerts).forEach(([key, list]) =>
+        checkStringArray(list, `dismissedAlerts.${key}`, errors)
+      );
+    } else {
+      errors.push('dismissedAlerts: expected an object');
+    }
+  }
+
+  if (backup.checkInDates !== undefined) {
+    if (isObject(backup.checkInDates)) {
+      Object.entries(backup.checkInDates).forEach(([key, date]) =>
+        checkString(date, `checkInDates.${key}`, errors, DATE_PATTERN)
+      );
+    } else {
+      errors.push('checkInDates: expected an object');
+    }
+  }
+
+  if (backup.profiles !== undefined) {
+    checkList(backup.profiles, 'profiles', errors, (profile, path) => {
+      checkString(profile.id, `${path}.id`, errors);
+      checkString(profile.name, `${path}.name`, errors);
+      checkString(profile.color, `${path}.color`, errors);
+    });
+  }
+  checkOptional(backup.activeProfileId, () => checkString(backup.activeProfileId, 'activeProfileId', errors));
+  if (backup.profileData !== undefined) {
+    checkRecord(backup.profileData, 'profileData', errors, (data, path) => checkProfileFields(data, `${path}.`, errors));
+  }
+
+  checkOptional(backup.lastSyncTime, () => checkString(backup.lastSyncTime, 'lastSyncTime', errors, DATE_PATTERN));
+  checkOptional(backup.hasSeenOnboarding, () => checkBoolean(backup.hasSeenOnboarding, 'hasSeenOnboarding', errors));
+
+  return errors;
+};
+
+/**
+ * Upgrade and validate a parsed backup file
+ */
+export const parseBackup = (raw: any): { backup?: BackupData; upgradedFrom?: number; errors: string[] } => {
+  const originalVersion = getBackupVersion(raw);
+  if (originalVersion === null) {
+    return { errors: ['version: missing or unreadable'] };
+  }
+  if (originalVersion > BACKUP_VERSION) {
+    return { errors: [`version: this backup was made by a newer version of PillPal (format ${originalVersion})`] };
+  }
+
+  const upgraded = upgradeBackup(raw);
+  const errors = validateBackup(upgraded);
+  if (errors.length > 0) return { errors };
+
+  return {
+    backup: upgraded as BackupData,
+    upgradedFrom: originalVersion < BACKUP_VERSION ? originalVersion : undefined,
+    errors: [],
+  };
+};
@@ -1,66 +1,229 @@
-import { Medication, SymptomEntry, UserPreferences, EmergencyInfo, AppSecurity } from '../types';
+import {
+  Medication,
+  SymptomEntry,
+  UserPreferences,
+  EmergencyInfo,
+  AppSecurity,
+  Caregiver,
+  EscalationSettings,
+  PRNConfig,
+  TravelInfo,
+  MedicationEducation,
+  NotificationBehavior,
+  Profile,
+  ProfileData,
+  MealEvent,
+} from '../types';
+import { AuditLogEntry } from './auditLogService';
+import { BACKUP_VERSION, parseBackup, validateBackup } from './backupSchemaService';
+import { getItem, setItem, clearStorage, isStorageEncrypted, CollectionName } from './storageService';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from './backupEncryptionService';
 
 export interface BackupData {
-  version: string;
+  version: number;
   exported: string;
   medications: Medication[];
-  symptomEntries: SymptomEntry[];
-  userPreferences: UserPreferences;
-  emergencyInfo: EmergencyInfo;
-  appSecurity: AppSecurity;
+  symptomEntries?: SymptomEntry[];
+  userPreferences?: UserPreferences;
+  mealLog?: MealEvent[];
+  emergencyInfo?: EmergencyInfo;
+  appSecurity?: AppSecurity;
+  caregivers?: Caregiver[];
+  escalationSettings?: EscalationSettings;
+  prnConfigs?: { [medId: string]: PRNConfig };
+  travelInfo?: TravelInfo;
+  medicationEducations?: { [medId: string]: MedicationEducation };
+  auditLogs?: AuditLogEntry[];
+  auditLogArchive?: AuditLogEntry[];
+  notificationBehaviors?: { [medId: string]: NotificationBehavior };
+  lastSyncTime?: string;
+  hasSeenOnboarding?: boolean;
+  profiles?: Profile[];
+  activeProfileId?: string; // Whose data is at the top level; the others are in profileData
+  profileData?: { [profileId: string]: ProfileData };
+  dismissedAlerts?: { [storageKey: string]: string[] }; // e.g., { dismissedTips: ['tip-1'] }
+  checkInDates?: { [storageKey: string]: string }; // e.g., { 'checkIn_123': '2024-01-01T00:00:00.000Z' }
 }
 
+export interface BackupPreviewEntry {
+  key: string;
+  label: string;
+  currentCount: number;
+  incomingCount: number | null; // null when the backup doesn't include it, so current data is kept
+  changed: boolean;
+}
+
+export interface ImportPreview {
+  exported: string;
+  upgradedFrom?: number; // Format version of an older backup that was upgraded
+  entries: BackupPreviewEntry[];
+  medicationsAdded: string[];
+  medicationsRemoved: string[];
+  medicationsUpdated: string[];
+}
+
+export interface RestoreResult {
+  success: boolean;
+  errors: string[];
+  backup?: BackupData;
+  preview?: ImportPreview;
+  needsPassphrase?: boolean; // The file is encrypted; retry with the passphrase
+}
+
+// Stores included in a backup, in the order they're listed in previews
+const BACKUP_COLLECTIONS: { key: CollectionName; label: string }[] = [
+  { key: 'medications', label: 'Medications' },
+  { key: 'symptomEntries', label: 'Symptom entries' },
+  { key: 'userPreferences', label: 'Preferences' },
+  { key: 'mealLog', label: 'Logged meals' },
+  { key: 'emergencyInfo', label: 'Emergency medical ID' },
+  { key: 'appSecurity', label: 'App lock settings' },
+  { key: 'caregivers', label: 'Caregivers' },
+  { key: 'escalationSettings', label: 'Caregiver alerts' },
+  { key: 'prnConfigs', label: 'As-needed dose limits' },
+  { key: 'travelInfo', label: 'Travel mode' },
+  { key: 'medicationEducations', label: 'Medication education' },
+  { key: 'auditLogs', label: 'Access history' },
+  { key: 'auditLogArchive', label: 'Archived access history' },
+  { key: 'notificationBehaviors', label: 'Reminder timing' },
+  { key: 'lastSyncTime', label: 'Last sync time' },
+  { key: 'hasSeenOnboarding', label: 'Onboarding status' },
+  { key: 'profiles', label: 'Household profiles' },
+  { key: 'activeProfileId', label: 'Current profile' },
+  { key: 'profileData', label: "Other profiles' data" },
+];
+
+// Small UI state that stays in localStorage
+const DISMISSED_ALERT_KEYS = ['dismissedSeasonalAlerts', 'dismissedCostSuggestions', 'dismissedCheckIns', 'dismissedTips'];
+const CHECK_IN_PREFIXES = ['checkIn_', 'review_'];
+
 /**
  * Export all app data to JSON
  */
 export const exportAllData = (): BackupData => {
-  const medications = JSON.parse(localStorage.getItem('medications') || '[]');
-  const symptomEntries = JSON.parse(localStorage.getItem('symptomEntries') || '[]');
-  const userPreferences = JSON.parse(localStorage.getItem('userPreferences') || '{}');
-  const emergencyInfo = JSON.parse(localStorage.getItem('emergencyInfo') || '{}');
-  const appSecurity = JSON.parse(localStorage.getItem('appSecurity') || '{}');
+  const backup: BackupData = {
+    version: BACKUP_VERSION,
+    exported: new Date().toISOString(),
+    medications: getItem('medications') || [],
+  };
+
+  BACKUP_COLLECTIONS.forEach(({ key }) => {
+    const value = getItem(key);
+    if (value !== undefined && key !== 'medications') {
+      (backup as any)[key] = value;
+    }
+  });
+
+  const dismissedAlerts: { [storageKey: string]: string[] } = {};
+  DISMISSED_ALERT_KEYS.forEach(key => {
+    try {
+      const saved = localStorage.getItem(key);
+      if (saved) dismissedAlerts[key] = JSON.parse(saved);
+    } catch {
+      console.error(`Skipping unreadable ${key}`);
+    }
+  });
+  backup.dismissedAlerts = dismissedAlerts;
+
+  const checkInDates: { [storageKey: string]: string } = {};
+  Object.keys(localStorage)
+    .filter(key => CHECK_IN_PREFIXES.some(prefix => key.startsWith(prefix)))
+    .forEach(key => {
+      checkInDates[key] = localStorage.getItem(key) || '';
+    });
+  backup.checkInDates = checkInDates;
+
+  return backup;
+};
+
+// Stores holding a single settings object rather than a collection of items
+const SETTINGS_KEYS = ['userPreferences', 'emergencyInfo', 'appSecurity', 'travelInfo', 'escalationSettings'];
+
+// This device's data key is wrapped with its own PIN, so a restored PIN could never unlock it
+const isKeptOnImport = (key: string): boolean => key === 'appSecurity' && isStorageEncrypted();
+
+/**
+ * Count the items in a stored value, for previews
+ */
+const countItems = (key: string, value: any): number => {
+  if (value === undefined || value === null) return 0;
+  if (Array.isArray(value)) return value.length;
+  if (typeof value === 'object' && !SETTINGS_KEYS.includes(key)) return Object.keys(value).length;
+  return 1;
+};
+
+/**
+ * Describe what importing a backup would change, without writing anything
+ */
+export const previewImport = (backup: BackupData, upgradedFrom?: number): ImportPreview => {
+  const current = exportAllData();
+  const entries: BackupPreviewEntry[] = [
+    ...BACKUP_COLLECTIONS,
+    { key: 'dismissedAlerts', label: 'Dismissed alerts and tips' },
+    { key: 'checkInDates', label: 'Check-in dates' },
+  ].map(({ key, label }) => {
+    const currentValue = (current as any)[key];
+    const incomingValue = isKeptOnImport(key) ? undefined : (backup as any)[key];
+    return {
+      key,
+      label,
+      currentCount: countItems(key, currentValue),
+      incomingCount: incomingValue === undefined ? null : countItems(key, incomingValue),
+      changed: incomingValue !== undefined && JSON.stringify(currentValue) !== JSON.stringify(incomingValue),
+    };
+  });
+
+  const currentMeds = new Map<string, Medication>(current.medications.map(med => [med.id, med]));
+  const incomingIds = new Set(backup.medications.map(med => med.id));
 
   return {
-    version: '1.0',
-    exported: new Date().toISOString(),
-    medications,
-    symptomEntries,
-    userPreferences,
-    emergencyInfo,
-    appSecurity,
+    exported: backup.exported,
+    upgradedFrom,
+    entries,
+    medicationsAdded: backup.medications.filter(med => !currentMeds.has(med.id)).map(med => med.name),
+    medicationsRemoved: current.medications.filter(med => !incomingIds.has(med.id)).map(med => med.name),
+    medicationsUpdated: backup.medications
+      .filter(med => currentMeds.has(med.id) && JSON.stringify(currentMeds.get(med.id)) !== JSON.stringify(med))
+      .map(med => med.name),
   };
 };
 
 /**
- * Import data from backup
+ * Import data from backup, replacing every store the backup includes. On a device whose data is
+ * encrypted, its own app lock settings are kept.
  */
-export const importAllData = (backupData: BackupData): { success: boolean; errors: string[] } => {
-  const errors: string[] = [];
+export const importAllData = async (backupData: BackupData): Promise<{ success: boolean; errors: string[] }> => {
+  const errors = validateBackup(backupData);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
 
   try {
-    if (backupData.medications) {
-      localStorage.setItem('medications', JSON.stringify(backupData.medications));
-    } else {
-      errors.push('No medications data found in backup');
-    }
-
-    if (backupData.symptomEntries) {
-      localStorage.setItem('symptomEntries', JSON.stringify(backupData.symptomEntries));
+    // A backup's access history is a whole hash chain, so it replaces the archive too
+    if (backupData.auditLogs !== undefined && backupData.auditLogArchive === undefined) {
+      await setItem('auditLogArchive', []);
     }
 
-    if (backupData.userPreferences) {
-      localStorage.setItem('userPreferences', JSON.stringify(backupData.userPreferences));
+    for (const { key } of BACKUP_COLLECTIONS) {
+      const value = (backupData as any)[key];
+      if (value !== undefined && !isKeptOnImport(key)) {
+        await setItem(key, value);
+      }
     }
 
-    if (backupData.emergencyInfo) {
-      localStorage.setItem('emergencyInfo', JSON.stringify(backupData.emergencyInfo));
-    }
+    Object.entries(backupData.dismissedAlerts || {}).forEach(([key, list]) => {
+      if (DISMISSED_ALERT_KEYS.includes(key)) {
+        localStorage.setItem(key, JSON.stringify(list));
+      }
+    });
 
-    if (backupData.appSecurity) {
-      localStorage.setItem('appSecurity', JSON.stringify(backupData.appSecurity));
-    }
+    Object.entries(backupData.checkInDates || {}).forEach(([key, date]) => {
+      if (CHECK_IN_PREFIXES.some(prefix => key.startsWith(prefix))) {
+        localStorage.setItem(key, date);
+      }
+    });
 
-    return { success: errors.length === 0, errors };
+    return { success: true, errors: [] };
   } catch (error: any) {
     errors.push(`Import failed: ${error.message}`);
     return { success: false, errors };
@@ -68,46 +231,110 @@ export const importAllData = (backupData: BackupData): { success: boolean; error
 };
 
 /**
- * Download backup as file
+ * Serialize a backup for saving, encrypted when a passphrase is given
  */
-export const downloadBackup = (): void => {
-  const backup = exportAllData();
-  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+export const serializeBackup = async (passphrase?: string, backup: BackupData = exportAllData()): Promise<string> => {
+  const json = JSON.stringify(backup, null, 2);
+  if (!passphrase) return json;
+  return JSON.stringify(await encryptBackup(json, passphrase), null, 2);
+};
+
+const getBackupFileName = (encrypted: boolean): string => {
+  return `pillpal-backup-${new Date().toISOString().split('T')[0]}${encrypted ? '-encrypted' : ''}.json`;
+};
+
+const saveFile = (contents: string, fileName: string): void => {
+  const blob = new Blob([contents], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `pillpal-backup-${new Date().toISOString().split('T')[0]}.json`;
+  a.download = fileName;
   a.click();
   URL.revokeObjectURL(url);
 };
 
 /**
- * Email backup (opens mailto link)
+ * Download backup as JSON file, encrypted with the passphrase if one is given
+ */
+export const downloadBackup = async (passphrase?: string): Promise<void> => {
+  saveFile(await serializeBackup(passphrase), getBackupFileName(!!passphrase));
+};
+
+/**
+ * Email an encrypted backup. Health data never goes into the email itself: the encrypted file is
+ * shared as an attachment where the browser supports it, or saved so it can be attached by hand.
  */
-export const emailBackup = (): void => {
-  const backup = exportAllData();
-  const backupString = JSON.stringify(backup, null, 2);
+export const emailBackup = async (passphrase: string): Promise<void> => {
+  const fileName = getBackupFileName(true);
+  const contents = await serializeBackup(passphrase);
+  const file = new File([contents], fileName, { type: 'application/json' });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: 'PillPal Backup' });
+      return;
+    } catch (error: any) {
+      if (error?.name === 'AbortError') return;
+      // Fall back to saving the file below
+    }
+  }
+
+  saveFile(contents, fileName);
   const subject = encodeURIComponent('PillPal Backup');
-  const body = encodeURIComponent(`PillPal Medication Tracker Backup\n\nExported: ${backup.exported}\n\nPlease find the backup data attached or in the email body.\n\n${backupString}`);
-  
+  const body = encodeURIComponent(
+    `PillPal Medication Tracker Backup\n\nPlease attach the encrypted backup file "${fileName}" that was just saved to your device. ` +
+    `You'll need your backup passphrase to restore it.`
+  );
   window.location.href = `mailto:?subject=${subject}&body=${body}`;
 };
 
 /**
- * Restore from file
+ * Restore from file. Older backups are upgraded and every backup is validated first.
+ * With dryRun, nothing is written and the result includes a preview of what would change.
+ * Encrypted files need the passphrase; without one the result asks for it.
  */
-export const restoreFromFile = (file: File): Promise<{ success: boolean; errors: string[] }> => {
+export const restoreFromFile = (
+  file: File,
+  options: { dryRun?: boolean; passphrase?: string } = {}
+): Promise<RestoreResult> => {
   return new Promise((resolve) => {
     const reader = new FileReader();
     
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
+      let raw: any;
       try {
-        const backupData = JSON.parse(e.target?.result as string) as BackupData;
-        const result = importAllData(backupData);
-        resolve(result);
+        raw = JSON.parse(e.target?.result as string);
       } catch (error: any) {
         resolve({ success: false, errors: [`Failed to parse backup file: ${error.message}`] });
+        return;
+      }
+
+      if (isEncryptedBackup(raw)) {
+        if (!options.passphrase) {
+          resolve({ success: false, errors: [], needsPassphrase: true });
+          return;
+        }
+        try {
+          raw = JSON.parse(await decryptBackup(raw, options.passphrase));
+        } catch (error: any) {
+          resolve({ success: false, errors: [error.message], needsPassphrase: true });
+          return;
+        }
+      }
+
+      const { backup, upgradedFrom, errors } = parseBackup(raw);
+      if (!backup) {
+        resolve({ success: false, errors });
+        return;
+      }
+
+      if (options.dryRun) {
+        resolve({ success: true, errors: [], backup, preview: previewImport(backup, upgradedFrom) });
+        return;
       }
+
+      const result = await importAllData(backup);
+      resolve({ ...result, backup });
     };
 
     reader.onerror = () => {
@@ -119,22 +346,6 @@ export const restoreFromFile = (file: File): Promise<{ success: boolean; errors:
 };
 
 /**
- * Clear all data
+ * Clear all data: every collection, for every profile, and the encryption keyring
  */
-export const clearAllData = (): void => {
-  localStorage.removeItem('medications');
-  localStorage.removeItem('symptomEntries');
-  localStorage.removeItem('userPreferences');
-  localStorage.removeItem('emergencyInfo');
-  localStorage.removeItem('appSecurity');
-  localStorage.removeItem('medicationEducations');
-  localStorage.removeItem('lastSyncTime');
-  
-  // Clear all notification behavior data
-  Object.keys(localStorage).forEach(key => {
-    if (key.startsWith('notificationBehavior_')) {
-      localStorage.removeItem(key);
-    }
-  });
-};
-
+export const clearAllData = (): Promise<void> => clearStorage();
@@ -1,4 +1,5 @@
 import { Medication, BehavioralPattern, NotificationBehavior, DoseStatus } from '../types';
+import { getDoseStates } from './doseEventService';
 
 /**
  * Analyze behavioral patterns from medication history
@@ -8,30 +9,32 @@ export const analyzeBehavioralPatterns = (medications: Medication[]): Behavioral
   const now = new Date();
   
   medications.forEach(med => {
-    if (!med.doseStatus) return;
+    const doseStates = getDoseStates(med);
+    if (Object.keys(doseStates).length === 0) return;
     
     // Analyze missed doses by day of week
     const missedByDay: { [day: number]: number } = {};
     const lateByTimeWindow: { [window: string]: number } = {};
     const snoozeCount: { [time: string]: number } = {};
     
-    Object.keys(med.doseStatus).forEach(dateTimeKey => {
+    Object.entries(doseStates).forEach(([dateTimeKey, state]) => {
       const [dateStr, timeStr] = dateTimeKey.split('T');
       const date = new Date(dateStr);
       const dayOfWeek = date.getDay();
-      const status = med.doseStatus![dateTimeKey];
       
       // Check if missed (no status means missed)
-      if (!status) {
+      if (!state.status) {
         missedByDay[dayOfWeek] = (missedByDay[dayOfWeek] || 0) + 1;
       }
       
-      // Check if late (taken but after scheduled time)
-      if (status === 'taken') {
+      // Check if late (taken more than 30 minutes after the scheduled time)
+      if (state.status === 'taken' && state.takenAt) {
         const scheduledTime = new Date(`${dateStr}T${timeStr}`);
-        // This would need actual taken timestamp - simplified for now
-        const timeWindow = getTimeWindow(timeStr);
-        lateByTimeWindow[timeWindow] = (lateByTimeWindow[timeWindow] || 0) + 1;
+        const minutesLate = (new Date(state.takenAt).getTime() - scheduledTime.getTime()) / (1000 * 60);
+        if (minutesLate > 30) {
+          const timeWindow = getTimeWindow(timeStr);
+          lateByTimeWindow[timeWindow] = (lateByTimeWindow[timeWindow] || 0) + 1;
+        }
       }
     });
     
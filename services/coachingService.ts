@@ -1,4 +1,6 @@
 import { Medication, WeeklyCoachingSummary, DoseStatus } from '../types';
+import { addDays } from './scheduleService';
+import { getDoseInstances, summarizeAdherence } from './doseInstanceService';
 
 /**
  * Generate weekly coaching summary
@@ -7,41 +9,23 @@ export const generateWeeklyCoachingSummary = (
   medications: Medication[],
   weekStart: Date
 ): WeeklyCoachingSummary => {
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekEnd.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-
-  let totalDoses = 0;
-  let takenDoses = 0;
-  let missedDoses = 0;
+  const weekStartStr = weekStart.toISOString().split('T')[0];
+  const instances = getDoseInstances(medications, weekStartStr, addDays(weekStartStr, 6), { includePRN: false });
+  const { due: totalDoses, taken: takenDoses, missed: missedDoses } = summarizeAdherence(instances);
   const timeWindowStats: { [window: string]: { taken: number; total: number } } = {};
 
-  medications.forEach(med => {
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(weekStart);
-      date.setDate(date.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-
-      med.times.forEach(time => {
-        totalDoses++;
-        const dateTimeKey = `${dateStr}T${time}`;
-        const status = med.doseStatus?.[dateTimeKey];
-
-        const timeWindow = getTimeWindow(time);
-        if (!timeWindowStats[timeWindow]) {
-          timeWindowStats[timeWindow] = { taken: 0, total: 0 };
-        }
-        timeWindowStats[timeWindow].total++;
-
-        if (status === 'taken') {
-          takenDoses++;
-          timeWindowStats[timeWindow].taken++;
-        } else if (!status) {
-          missedDoses++;
-        }
-      });
-    }
-  });
+  instances
+    .filter(dose => dose.status !== 'pending')
+    .forEach(dose => {
+      const timeWindow = getTimeWindow(dose.time);
+      if (!timeWindowStats[timeWindow]) {
+        timeWindowStats[timeWindow] = { taken: 0, total: 0 };
+      }
+      timeWindowStats[timeWindow].total++;
+      if (dose.status === 'taken') {
+        timeWindowStats[timeWindow].taken++;
+      }
+    });
 
   const adherencePercentage = totalDoses > 0 
     ? Math.round((takenDoses / totalDoses) * 100)
@@ -0,0 +1,146 @@
+/**
+ * WebCrypto helpers shared by encrypted backups and on-device encryption
+ */
+
+export const PBKDF2_HASH = 'SHA-256';
+export const DEFAULT_PBKDF2_ITERATIONS = 600000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+export const SALT_BYTES = 16;
+export const IV_BYTES = 12; // Standard AES-GCM nonce length
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Check that the browser supports WebCrypto (it requires a secure context)
+ */
+export const isCryptoAvailable = (): boolean => {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+};
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Derive an AES-GCM key from a passphrase with PBKDF2
+ */
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS,
+  extractable = false
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: PBKDF2_HASH, salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypt bytes with AES-GCM. The additional data isn't encrypted but is authenticated,
+ * so decryption fails if it was changed.
+ */
+export const encryptBytes = async (
+  key: CryptoKey,
+  plaintext: Uint8Array,
+  additionalData?: string
+): Promise<{ iv: string; ciphertext: string }> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, ...(additionalData !== undefined && { additionalData: encoder.encode(additionalData) }) },
+    key,
+    plaintext
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypt bytes encrypted by encryptBytes. Rejects if the key is wrong or the data was tampered with.
+ */
+export const decryptBytes = async (
+  key: CryptoKey,
+  iv: string,
+  ciphertext: string,
+  additionalData?: string
+): Promise<Uint8Array> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), ...(additionalData !== undefined && { additionalData: encoder.encode(additionalData) }) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new Uint8Array(plaintext);
+};
+
+export const encryptText = (key: CryptoKey, plaintext: string, additionalData?: string): Promise<{ iv: string; ciphertext: string }> =>
+  encryptBytes(key, encoder.encode(plaintext), additionalData);
+
+export const decryptText = async (key: CryptoKey, iv: string, ciphertext: string, additionalData?: string): Promise<string> =>
+  decoder.decode(await decryptBytes(key, iv, ciphertext, additionalData));
+
+/**
+ * Generate a random AES-GCM key for encrypting data. It's extractable so it can be wrapped.
+ */
+export const generateDataKey = (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+};
+
+/**
+ * Encrypt a data key with a wrapping key (e.g., one derived from a PIN)
+ */
+export const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<{ iv: string; ciphertext: string }> => {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', dataKey));
+  return encryptText(wrappingKey, toBase64(raw));
+};
+
+/**
+ * Decrypt a data key wrapped by wrapDataKey. Rejects if the wrapping key is wrong.
+ */
+export const unwrapDataKey = async (iv: string, ciphertext: string, wrappingKey: CryptoKey): Promise<CryptoKey> => {
+  const raw = fromBase64(await decryptText(wrappingKey, iv, ciphertext));
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+};
+
+/**
+ * Derive a hash of a secret with PBKDF2, for storing and comparing
+ */
+export const derivePbkdf2Hash = async (secret: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: PBKDF2_HASH, salt, iterations }, baseKey, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+/**
+ * SHA-256 digest of text, as lowercase hex
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,270 @@
+import { CountUnit, DoseForm, DoseStatus, DoseUnit, MassUnit, Medication, StructuredDose, VolumeUnit } from '../types';
+import { getScheduledTimesForDate, getTaperingDoseAmounts } from './scheduleService';
+import { getDoseStates } from './doseEventService';
+
+/**
+ * Doses in numbers. `Medication.dosage` stays as the user wrote it; `Medication.dose` holds the
+ * amount, unit, form and strength parsed from it (or entered), so inventory, daily totals and
+ * tapering can count what's really taken. Medications without one count one pill per dose.
+ */
+
+const MG_PER: { [unit in MassUnit]: number } = { mcg: 0.001, mg: 1, g: 1000 };
+const ML_PER: { [unit in VolumeUnit]: number } = { mL: 1, tsp: 5 };
+
+export const MASS_UNITS: MassUnit[] = ['mcg', 'mg', 'g'];
+export const VOLUME_UNITS: VolumeUnit[] = ['mL', 'tsp'];
+export const COUNT_UNITS: CountUnit[] = ['tablet', 'capsule', 'puff', 'drop', 'patch', 'unit'];
+export const DOSE_FORMS: DoseForm[] = ['tablet', 'capsule', 'liquid', 'injection', 'inhaler', 'drops', 'patch', 'other'];
+
+// The form a count unit implies
+const COUNT_UNIT_FORMS: { [unit in CountUnit]: DoseForm } = {
+  tablet: 'tablet',
+  capsule: 'capsule',
+  puff: 'inhaler',
+  drop: 'drops',
+  patch: 'patch',
+  unit: 'injection',
+};
+
+const UNIT_WORDS: { [word: string]: DoseUnit } = {
+  mcg: 'mcg', µg: 'mcg', μg: 'mcg', ug: 'mcg', microgram: 'mcg', micrograms: 'mcg',
+  mg: 'mg', milligram: 'mg', milligrams: 'mg',
+  g: 'g', gram: 'g', grams: 'g',
+  ml: 'mL', cc: 'mL', milliliter: 'mL', milliliters: 'mL', millilitre: 'mL', millilitres: 'mL',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp', teaspoonful: 'tsp', teaspoonsful: 'tsp',
+  tablet: 'tablet', tablets: 'tablet', tab: 'tablet', tabs: 'tablet', pill: 'tablet', pills: 'tablet', caplet: 'tablet', caplets: 'tablet',
+  capsule: 'capsule', capsules: 'capsule', cap: 'capsule', caps: 'capsule', softgel: 'capsule', softgels: 'capsule', gelcap: 'capsule', gelcaps: 'capsule', liquicap: 'capsule', liquicaps: 'capsule',
+  puff: 'puff', puffs: 'puff', inhalation: 'puff', inhalations: 'puff',
+  drop: 'drop', drops: 'drop', gtt: 'drop', gtts: 'drop',
+  patch: 'patch', patches: 'patch',
+  unit: 'unit', units: 'unit', iu: 'unit',
+};
+
+// Words that give away the form when the dose itself doesn't
+const FORM_WORDS: [RegExp, DoseForm][] = [
+  [/\b(injection|injectable|pen|syringe|vial)\b/, 'injection'],
+  [/\b(inhaler|inhalation|nebuli[sz]er)\b/, 'inhaler'],
+  [/\b(liquid|solution|syrup|suspension|elixir|oral solution)\b/, 'liquid'],
+  [/\b(drops?|eye|ear)\b/, 'drops'],
+  [/\b(patch|patches|transdermal)\b/, 'patch'],
+  [/\b(capsules?|caps?|softgels?|gelcaps?|liquicaps?)\b/, 'capsule'],
+  [/\b(tablets?|tabs?|pills?|caplets?)\b/, 'tablet'],
+];
+
+// Fractions like 1/2, but not the strengths of combination products, like 5/325
+const NUMBER = '(\\d+(?:\\.\\d+)?(?:\\s*\\/\\s*[1-9](?!\\d))?)';
+const UNIT = `(${Object.keys(UNIT_WORDS).sort((a, b) => b.length - a.length).join('|')})`;
+
+export const isMassUnit = (unit: string): unit is MassUnit => unit in MG_PER;
+export const isVolumeUnit = (unit: string): unit is VolumeUnit => unit in ML_PER;
+export const isCountUnit = (unit: string): unit is CountUnit => unit in COUNT_UNIT_FORMS;
+
+const round = (value: number): number => Math.round(value * 1000000) / 1000000;
+
+/**
+ * The form a unit implies, e.g., puffs are from an inhaler, or the given form if it doesn't say
+ */
+export const getFormForUnit = (unit: DoseUnit, form: DoseForm): DoseForm => {
+  if (isCountUnit(unit)) return COUNT_UNIT_FORMS[unit];
+  return isVolumeUnit(unit) ? 'liquid' : form;
+};
+
+const parseNumber = (text: string): number => {
+  const [whole, divisor] = text.split('/').map(part => parseFloat(part.trim()));
+  return divisor ? whole / divisor : whole;
+};
+
+/**
+ * Convert an amount between mass units (mcg, mg, g) or volume units (mL, tsp). Returns null
+ * for units that can't be converted into each other.
+ */
+export const convertAmount = (amount: number, from: DoseUnit, to: DoseUnit): number | null => {
+  if (from === to) return amount;
+  if (isMassUnit(from) && isMassUnit(to)) return round((amount * MG_PER[from]) / MG_PER[to]);
+  if (isVolumeUnit(from) && isVolumeUnit(to)) return round((amount * ML_PER[from]) / ML_PER[to]);
+  return null;
+};
+
+/**
+ * Work out a dose from how it's written: "10mg", "2 tablets", "1/2 tab of 5 mg", "5 mL of
+ * 250mg/5mL", "2 tsp", "10 units". Returns null if there's no amount to find.
+ */
+export const parseDosage = (text: string): StructuredDose | null => {
+  let rest = ` ${(text || '').toLowerCase()} `
+    .replace(/½/g, ' 1/2').replace(/¼/g, ' 1/4').replace(/¾/g, ' 3/4')
+    .replace(/(\d),(\d{3})/g, '$1$2');
+
+  // A concentration, like 250mg/5mL or 100 units per mL, is the strength of a liquid
+  let strength: StructuredDose['strength'];
+  const concentration = rest.match(new RegExp(`${NUMBER}\\s*${UNIT}\\s*(?:\\/|per)\\s*${NUMBER}?\\s*(ml|cc)\\b`));
+  if (concentration) {
+    const unit = UNIT_WORDS[concentration[2]];
+    if (isMassUnit(unit) || unit === 'unit') {
+      strength = { amount: parseNumber(concentration[1]), unit, per: concentration[3] ? parseNumber(concentration[3]) : 1 };
+      rest = rest.replace(concentration[0], ' ');
+    }
+  }
+
+  const quantities = [...rest.matchAll(new RegExp(`${NUMBER}\\s*${UNIT}(?![a-z])`, 'g'))]
+    .map(match => ({ amount: parseNumber(match[1]), unit: UNIT_WORDS[match[2]] }))
+    .filter(quantity => quantity.amount > 0);
+
+  const count = quantities.find(quantity => isCountUnit(quantity.unit));
+  const volume = quantities.find(quantity => isVolumeUnit(quantity.unit));
+  const mass = quantities.find(quantity => isMassUnit(quantity.unit));
+  const formFromWords = FORM_WORDS.find(([pattern]) => pattern.test(rest))?.[1];
+
+  if (count) {
+    const unit = count.unit as CountUnit;
+    // "2 tablets of 5mg": the mass is what's in each tablet
+    if (!strength && mass && unit !== 'unit') strength = { amount: mass.amount, unit: mass.unit as MassUnit };
+    return { amount: count.amount, unit, form: COUNT_UNIT_FORMS[unit], ...(strength ? { strength } : {}) };
+  }
+  if (volume) {
+    return { amount: volume.amount, unit: volume.unit, form: 'liquid', ...(strength ? { strength } : {}) };
+  }
+  if (mass) {
+    // "5mg tablet": one tablet of that strength
+    if (formFromWords === 'tablet' || formFromWords === 'capsule') {
+      return { amount: 1, unit: formFromWords, form: formFromWords, strength: { amount: mass.amount, unit: mass.unit as MassUnit } };
+    }
+    return { amount: mass.amount, unit: mass.unit, form: formFromWords || (strength ? 'liquid' : 'tablet'), ...(strength ? { strength } : {}) };
+  }
+  return null;
+};
+
+const pluralize = (unit: DoseUnit, amount: number): string => {
+  if (!isCountUnit(unit) || amount <= 1) return unit;
+  return unit === 'patch' ? 'patches' : `${unit}s`;
+};
+
+/**
+ * e.g., "2 tablets (5 mg each)" or "10 mL (250 mg/5 mL)"
+ */
+export const formatDose = (dose: StructuredDose): string => {
+  const base = `${dose.amount} ${pluralize(dose.unit, dose.amount)}`;
+  if (!dose.strength) return base;
+  const strength = `${dose.strength.amount} ${dose.strength.unit === 'unit' ? 'units' : dose.strength.unit}`;
+  if (dose.strength.per !== undefined && (isVolumeUnit(dose.unit) || dose.form === 'liquid' || dose.form === 'injection')) {
+    return `${base} (${strength}/${dose.strength.per === 1 ? '' : `${dose.strength.per} `}mL)`;
+  }
+  return `${base} (${strength} each)`;
+};
+
+/**
+ * A medication's dose: the one saved, or else parsed from its dosage
+ */
+export const getStructuredDose = (medication: Medication): StructuredDose | null => medication.dose || parseDosage(medication.dosage);
+
+/**
+ * How much active ingredient a dose holds, in a mass unit, or null if that can't be told
+ */
+export const getIngredientAmount = (dose: StructuredDose, unit: MassUnit = 'mg'): number | null => {
+  if (isMassUnit(dose.unit)) return convertAmount(dose.amount, dose.unit, unit);
+  const strength = dose.strength;
+  if (!strength || !isMassUnit(strength.unit)) return null;
+  const perUnit = convertAmount(strength.amount, strength.unit, unit)!;
+  if (isCountUnit(dose.unit)) return round(dose.amount * perUnit);
+  const mL = convertAmount(dose.amount, dose.unit, 'mL')!;
+  return round((mL / (strength.per || 1)) * perUnit);
+};
+
+export type InventoryUnit = CountUnit | 'mL' | 'pill';
+
+const INVENTORY_LABELS: { [unit in InventoryUnit]: [string, string] } = {
+  pill: ['pill', 'pills'],
+  tablet: ['tablet', 'tablets'],
+  capsule: ['capsule', 'capsules'],
+  puff: ['puff', 'puffs'],
+  drop: ['drop', 'drops'],
+  patch: ['patch', 'patches'],
+  unit: ['unit', 'units'],
+  mL: ['mL', 'mL'],
+};
+
+/**
+ * What a medication's quantity is counted in: its tablets, capsules, puffs and so on, or mL of
+ * a liquid. Pills when it's not known.
+ */
+export const getInventoryUnit = (medication: Medication): InventoryUnit => {
+  const dose = medication.dose;
+  if (!dose) return 'pill';
+  if (isCountUnit(dose.unit)) return dose.unit;
+  return isVolumeUnit(dose.unit) || dose.form === 'liquid' ? 'mL' : 'pill';
+};
+
+export const getInventoryLabel = (unit: InventoryUnit, quantity?: number): string => INVENTORY_LABELS[unit][quantity === 1 ? 0 : 1];
+
+/**
+ * e.g., "12 tablets" or "80 mL"
+ */
+export const describeInventory = (medication: Medication, quantity: number | undefined = medication.quantity): string =>
+  `${quantity} ${getInventoryLabel(getInventoryUnit(medication), quantity)}`;
+
+/**
+ * How much of the inventory one dose uses, e.g., 2 tablets or 5 mL. Doses given only as a mass
+ * use as many tablets as that mass needs, if the strength is known, and one otherwise.
+ */
+export const getDoseUnits = (medication: Medication): number => {
+  const dose = medication.dose;
+  if (!dose) return 1;
+  if (isCountUnit(dose.unit)) return dose.amount;
+  if (isVolumeUnit(dose.unit)) return convertAmount(dose.amount, dose.unit, 'mL')!;
+  const strength = dose.strength;
+  if (isMassUnit(dose.unit) && strength && isMassUnit(strength.unit) && strength.amount > 0) {
+    return round((convertAmount(dose.amount, dose.unit, strength.unit)! / strength.amount) * (strength.per || 1));
+  }
+  return 1;
+};
+
+/**
+ * How much of the inventory a scheduled dose uses. On a tapering day, the day's tablets are
+ * taken a dose at a time, so the last dose of the day may be smaller.
+ */
+export const getScheduledDoseUnits = (medication: Medication, doseKey: string): number => {
+  const [date, time] = doseKey.split('T');
+  const taperingAmounts = getTaperingDoseAmounts(medication, date);
+  if (taperingAmounts) {
+    const index = getScheduledTimesForDate(medication, date).indexOf(time);
+    return index >= 0 ? taperingAmounts[index] : getDoseUnits(medication);
+  }
+  return getDoseUnits(medication);
+};
+
+/**
+ * The quantity left once a dose's status changes: taking it uses up the dose, and undoing that
+ * puts it back
+ */
+export const getQuantityAfterDose = (medication: Medication, doseKey: string, oldStatus: DoseStatus | undefined, status: DoseStatus | null): number | undefined => {
+  const quantity = medication.quantity;
+  if (typeof quantity !== 'number' || oldStatus === status) return quantity;
+  if (status === 'taken') return round(quantity - getScheduledDoseUnits(medication, doseKey));
+  if (oldStatus === 'taken') return round(quantity + getScheduledDoseUnits(medication, doseKey));
+  return quantity;
+};
+
+/**
+ * How much of the inventory was taken on a date, counting part doses by the part taken
+ */
+export const getUnitsTakenOn = (medication: Medication, date: string): number =>
+  round(
+    Object.entries(getDoseStates(medication))
+      .filter(([key, state]) => key.startsWith(`${date}T`) && state.status === 'taken')
+      .reduce((total, [key, state]) => total + getScheduledDoseUnits(medication, key) * (state.amount ?? 1), 0)
+  );
+
+/**
+ * How much of the inventory the schedule has on a date
+ */
+export const getScheduledUnitsOn = (medication: Medication, date: string): number =>
+  round(getScheduledTimesForDate(medication, date).reduce((total, time) => total + getScheduledDoseUnits(medication, `${date}T${time}`), 0));
+
+/**
+ * Parse a dose for medications saved before doses were structured
+ */
+export const migrateDoses = (medications: Medication[]): Medication[] =>
+  medications.map(med => {
+    if (med.dose) return med;
+    const dose = parseDosage(med.dosage);
+    return dose ? { ...med, dose } : med;
+  });
@@ -0,0 +1,210 @@
+import { Medication, DoseEvent, DoseEventType, DoseEventSource, DoseStatus, Actor } from '../types';
+import { getCurrentActor } from './actorService';
+
+export interface DoseState {
+  status?: DoseStatus; // Undefined when nothing has been recorded or the last mark was undone
+  takenAt?: string; // ISO timestamp the dose was actually taken
+  amount?: number; // Fraction of the dose taken when it was only partly taken
+  note?: string;
+  snoozedUntil?: string; // ISO timestamp
+  lastEvent?: DoseEvent;
+}
+
+export interface DoseEventDetails {
+  source?: DoseEventSource;
+  actor?: Actor; // Defaults to whoever is using the app
+  recordedAt?: string;
+  takenAt?: string;
+  amount?: number;
+  snoozeMinutes?: number;
+  note?: string;
+}
+
+// Derived states per event array. Medications are updated immutably, so a new
+// events array always means a fresh entry here.
+const stateCache = new WeakMap<DoseEvent[], { [doseKey: string]: DoseState }>();
+
+const generateEventId = (): string => `${Date.now().toString()}-${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Create a dose event, attributed to whoever is using the app. Events are never edited or removed once written.
+ */
+export const createDoseEvent = (
+  medicationId: string,
+  doseKey: string,
+  type: DoseEventType,
+  details: DoseEventDetails = {}
+): DoseEvent => {
+  const recordedAt = details.recordedAt || new Date().toISOString();
+  // Migrated events come from data recorded before anyone was tracked
+  const actor = details.source === 'migration' ? undefined : details.actor || getCurrentActor();
+  const event: DoseEvent = {
+    id: generateEventId(),
+    medicationId,
+    doseKey,
+    type,
+    recordedAt,
+    source: details.source || (actor?.type === 'caregiver' ? 'caregiver' : 'patient'),
+  };
+
+  if (actor) event.actor = actor;
+
+  if (type === 'taken' || type === 'partial') event.takenAt = details.takenAt || recordedAt;
+  if (type === 'partial') event.amount = details.amount;
+  if (type === 'snoozed') event.snoozeMinutes = details.snoozeMinutes;
+  if (details.note) event.note = details.note;
+
+  return event;
+};
+
+/**
+ * Append events to a medication's dose log
+ */
+export const appendDoseEvents = (medication: Medication, events: DoseEvent[]): Medication => ({
+  ...medication,
+  doseEvents: [...(medication.doseEvents || []), ...events],
+});
+
+/**
+ * Fold a dose's events, oldest first, into its current state
+ */
+export const reduceDoseEvents = (events: DoseEvent[]): DoseState => {
+  const state: DoseState = {};
+
+  // Ties are broken by id so every device folds synced events the same way
+  [...events]
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt) || a.id.localeCompare(b.id))
+    .forEach(event => {
+      switch (event.type) {
+        case 'taken':
+        case 'partial':
+          state.status = 'taken';
+          state.takenAt = event.takenAt || event.recordedAt;
+          state.amount = event.type === 'partial' ? event.amount : undefined;
+          state.snoozedUntil = undefined;
+          break;
+        case 'skipped':
+          state.status = 'skipped';
+          state.takenAt = undefined;
+          state.amount = undefined;
+          state.snoozedUntil = undefined;
+          break;
+        case 'undone':
+          state.status = undefined;
+          state.takenAt = undefined;
+          state.amount = undefined;
+          break;
+        case 'snoozed': {
+          const until = new Date(event.recordedAt).getTime() + (event.snoozeMinutes || 0) * 60 * 1000;
+          state.snoozedUntil = new Date(until).toISOString();
+          break;
+        }
+        case 'note':
+          break;
+      }
+      if (event.note) state.note = event.note;
+      state.lastEvent = event;
+    });
+
+  return state;
+};
+
+/**
+ * Get the current state of every dose with recorded events, keyed by dose key
+ */
+export const getDoseStates = (medication: Medication): { [doseKey: string]: DoseState } => {
+  const events = medication.doseEvents;
+  if (!events || events.length === 0) return {};
+
+  const cached = stateCache.get(events);
+  if (cached) return cached;
+
+  const byDose: { [doseKey: string]: DoseEvent[] } = {};
+  events.forEach(event => {
+    (byDose[event.doseKey] = byDose[event.doseKey] || []).push(event);
+  });
+
+  const states: { [doseKey: string]: DoseState } = {};
+  Object.entries(byDose).forEach(([doseKey, doseEvents]) => {
+    states[doseKey] = reduceDoseEvents(doseEvents);
+  });
+
+  stateCache.set(events, states);
+  return states;
+};
+
+/**
+ * Get the current state of a single dose
+ */
+export const getDoseState = (medication: Medication, doseKey: string): DoseState => {
+  return getDoseStates(medication)[doseKey] || {};
+};
+
+/**
+ * Get the current status of a single dose
+ */
+export const getDoseStatus = (medication: Medication, doseKey: string): DoseStatus | undefined => {
+  return getDoseState(medication, doseKey).status;
+};
+
+/**
+ * Get the current status of every marked dose, e.g., { '2023-10-27T08:00': 'taken' }
+ */
+export const getDoseStatusMap = (medication: Medication): { [doseKey: string]: DoseStatus } => {
+  const statusMap: { [doseKey: string]: DoseStatus } = {};
+  Object.entries(getDoseStates(medication)).forEach(([doseKey, state]) => {
+    if (state.status) statusMap[doseKey] = state.status;
+  });
+  return statusMap;
+};
+
+/**
+ * Get every event of a single dose, oldest first
+ */
+export const getDoseEventHistory = (medication: Medication, doseKey: string): DoseEvent[] => {
+  return (medication.doseEvents || [])
+    .filter(event => event.doseKey === doseKey)
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+};
+
+/**
+ * Convert the legacy doseStatus, doseTakenAt and missedDoseReasons maps into dose events.
+ * Medications without legacy fields are returned unchanged, so this is safe to run on every load.
+ */
+export const migrateDoseHistory = (medication: Medication): Medication => {
+  const { doseStatus, doseTakenAt, missedDoseReasons, ...rest } = medication;
+  if (!doseStatus && !doseTakenAt && !missedDoseReasons) return medication;
+
+  const events: DoseEvent[] = [];
+  const toRecordedAt = (doseKey: string, takenAt?: string): string => {
+    if (takenAt) return takenAt;
+    const scheduled = new Date(doseKey);
+    return isNaN(scheduled.getTime()) ? new Date().toISOString() : scheduled.toISOString();
+  };
+
+  Object.entries(doseStatus || {}).forEach(([doseKey, status]) => {
+    events.push(createDoseEvent(medication.id, doseKey, status, {
+      source: 'migration',
+      recordedAt: toRecordedAt(doseKey, doseTakenAt?.[doseKey]),
+      note: missedDoseReasons?.[doseKey],
+    }));
+  });
+
+  Object.entries(missedDoseReasons || {}).forEach(([doseKey, reason]) => {
+    if (doseStatus?.[doseKey]) return; // Already attached to the status event
+    events.push(createDoseEvent(medication.id, doseKey, 'note', {
+      source: 'migration',
+      recordedAt: toRecordedAt(doseKey),
+      note: reason,
+    }));
+  });
+
+  return { ...rest, doseEvents: [...(medication.doseEvents || []), ...events] };
+};
+
+/**
+ * Migrate a list of medications loaded from storage or a backup
+ */
+export const migrateMedications = (medications: Medication[]): Medication[] => {
+  return medications.map(migrateDoseHistory);
+};
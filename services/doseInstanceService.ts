@@ -0,0 +1,175 @@
+import { Medication } from '../types';
+import { addDays, getScheduledTimesForDate, getTaperingTabletsForDate, toMinutes } from './scheduleService';
+import { getDoseState, getDoseStates } from './doseEventService';
+import { isPRNMedication } from './prnService';
+
+export type DoseInstanceStatus = 'taken' | 'skipped' | 'missed' | 'pending';
+
+export interface DoseInstance {
+  medication: Medication;
+  date: string; // ISO date 'YYYY-MM-DD'
+  time: string; // HH:mm
+  dateTimeKey: string; // e.g., '2023-10-27T08:00'
+  scheduledAt: Date;
+  status: DoseInstanceStatus;
+  takenAt?: string; // ISO timestamp of when the dose was actually taken
+  amount?: number; // Fraction of the dose taken, when only part of it was
+  tablets?: number; // Tablet count for the day on a tapering schedule
+  missedReason?: string;
+  isPRN: boolean;
+}
+
+export interface AdherenceSummary {
+  due: number; // Doses whose time has passed (taken + skipped + missed)
+  taken: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  percentage: number;
+}
+
+export interface DoseInstanceOptions {
+  now?: Date;
+  includePRN?: boolean; // Include logged as-needed doses (default true)
+}
+
+/**
+ * Build a dose instance for a scheduled or logged time
+ */
+const toInstance = (medication: Medication, date: string, time: string, now: Date, isPRN: boolean): DoseInstance => {
+  const dateTimeKey = `${date}T${time}`;
+  const scheduledAt = new Date(dateTimeKey);
+  const state = getDoseState(medication, dateTimeKey);
+  // An as-needed dose that was never taken isn't missed, it just wasn't needed
+  const status: DoseInstanceStatus = state.status || (scheduledAt > now || isPRN ? 'pending' : 'missed');
+  const tablets = getTaperingTabletsForDate(medication, date);
+
+  return {
+    medication,
+    date,
+    time,
+    dateTimeKey,
+    scheduledAt,
+    status,
+    takenAt: state.takenAt,
+    amount: state.amount,
+    tablets: tablets !== null ? tablets : undefined,
+    missedReason: status === 'missed' ? state.note : undefined,
+    isPRN,
+  };
+};
+
+/**
+ * Get the times on a date that have recorded events, ignoring snooze-only entries
+ */
+const getLoggedTimesForDate = (medication: Medication, date: string): string[] => {
+  return Object.entries(getDoseStates(medication))
+    .filter(([key, state]) => key.startsWith(`${date}T`) && (state.status || state.note))
+    .map(([key]) => key.split('T')[1])
+    .sort();
+};
+
+/**
+ * Get the dose instances of one medication on a date.
+ * Logged doses whose time is no longer on the schedule (e.g., after the reminder time was changed)
+ * take the place of the nearest unlogged scheduled time, so past history isn't orphaned.
+ * As-needed medications also include any doses logged outside their suggested times.
+ */
+const getInstancesForMedication = (medication: Medication, date: string, now: Date, includePRN: boolean): DoseInstance[] => {
+  const isPRN = isPRNMedication(medication);
+  if (isPRN && !includePRN) return [];
+
+  const times = [...getScheduledTimesForDate(medication, date)];
+  const loggedTimes = getLoggedTimesForDate(medication, date);
+  const freeTimes = times.filter(time => !loggedTimes.includes(time));
+
+  loggedTimes
+    .filter(time => !times.includes(time))
+    .forEach(loggedTime => {
+      if (!isPRN && freeTimes.length > 0) {
+        const nearest = freeTimes.reduce((best, time) =>
+          Math.abs(toMinutes(time) - toMinutes(loggedTime)) < Math.abs(toMinutes(best) - toMinutes(loggedTime)) ? time : best
+        );
+        freeTimes.splice(freeTimes.indexOf(nearest), 1);
+        times[times.indexOf(nearest)] = loggedTime;
+      } else {
+        times.push(loggedTime);
+      }
+    });
+
+  return times.map(time => toInstance(medication, date, time, now, isPRN));
+};
+
+/**
+ * Turn medications into concrete dose instances between two dates (inclusive), sorted by time.
+ * Every screen that needs "which doses were due on date X" should go through here.
+ */
+export const getDoseInstances = (
+  medications: Medication[],
+  fromDate: string,
+  toDate: string,
+  options: DoseInstanceOptions = {}
+): DoseInstance[] => {
+  const now = options.now || new Date();
+  const includePRN = options.includePRN !== false;
+  const instances: DoseInstance[] = [];
+
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    medications.forEach(med => {
+      instances.push(...getInstancesForMedication(med, date, now, includePRN));
+    });
+  }
+
+  return instances.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+};
+
+/**
+ * Get the dose instances for a single date
+ */
+export const getDoseInstancesForDate = (
+  medications: Medication[],
+  date: string,
+  options: DoseInstanceOptions = {}
+): DoseInstance[] => getDoseInstances(medications, date, date, options);
+
+/**
+ * Get the dose instances for the last N days, ending today
+ */
+export const getRecentDoseInstances = (
+  medications: Medication[],
+  days: number,
+  options: DoseInstanceOptions = {}
+): DoseInstance[] => {
+  const today = (options.now || new Date()).toISOString().split('T')[0];
+  return getDoseInstances(medications, addDays(today, -(days - 1)), today, options);
+};
+
+/**
+ * Summarize adherence. As-needed doses never count toward adherence.
+ */
+export const summarizeAdherence = (instances: DoseInstance[]): AdherenceSummary => {
+  const summary = { due: 0, taken: 0, skipped: 0, missed: 0, pending: 0, percentage: 0 };
+
+  instances.forEach(instance => {
+    if (instance.isPRN) return;
+    summary[instance.status]++;
+  });
+
+  summary.due = summary.taken + summary.skipped + summary.missed;
+  summary.percentage = summary.due > 0 ? Math.round((summary.taken / summary.due) * 100) : 0;
+  return summary;
+};
+
+/**
+ * Get the earliest date with any recorded dose, used as the start of history
+ */
+export const getDoseHistoryStartDate = (medications: Medication[]): string | null => {
+  let earliest: string | null = null;
+  medications.forEach(med => {
+    (med.doseEvents || []).forEach(event => {
+      const [date] = event.doseKey.split('T');
+      if (!earliest || date < earliest) earliest = date;
+    });
+  });
+  return earliest;
+};
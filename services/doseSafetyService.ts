@@ -1,4 +1,12 @@
 import { Medication, DoseStatus } from '../types';
+import { getDoseStates, getDoseStatus } from './doseEventService';
+import { getActiveMealSchedule, getMealsAround, MealSchedule } from './mealService';
+import { getInventoryLabel, getInventoryUnit, getScheduledDoseUnits, getScheduledUnitsOn, getUnitsTakenOn } from './dosageService';
+import { checkIngredientLimits } from './ingredientLimitService';
+
+// An empty stomach means at least this long after eating and before the next meal
+const EMPTY_STOMACH_MINUTES_AFTER_MEAL = 120;
+const EMPTY_STOMACH_MINUTES_BEFORE_MEAL = 30;
 
 export interface DoseSafetyCheck {
   isSafe: boolean;
@@ -8,14 +16,17 @@ export interface DoseSafetyCheck {
 }
 
 /**
- * Check if a dose is safe to take based on spacing and daily limits
+ * Check if a dose is safe to take based on spacing, daily limits of the medication and of its
+ * ingredients across all medications and, for doses taken on an empty stomach, the meals around it
  */
 export const checkDoseSafety = (
   medication: Medication,
   date: string,
   time: string,
   doseStatus: DoseStatus,
-  allMedications: Medication[]
+  allMedications: Medication[],
+  meals: MealSchedule = getActiveMealSchedule(),
+  now: Date = new Date()
 ): DoseSafetyCheck => {
   const warnings: string[] = [];
   const errors: string[] = [];
@@ -26,7 +37,7 @@ export const checkDoseSafety = (
   const scheduledDateTime = new Date(`${date}T${time}`);
 
   // Check 1: Is this dose already taken?
-  if (medication.doseStatus?.[dateTimeKey] === 'taken') {
+  if (getDoseStatus(medication, dateTimeKey) === 'taken') {
     errors.push('This dose has already been marked as taken.');
     canProceed = false;
     isSafe = false;
@@ -34,12 +45,9 @@ export const checkDoseSafety = (
   }
 
   // Check 2: Check spacing between doses of the same medication
-  const sameMedDoses = Object.entries(medication.doseStatus || {})
-    .filter(([key, status]) => status === 'taken')
-    .map(([key]) => {
-      const [d, t] = key.split('T');
-      return new Date(`${d}T${t}`);
-    })
+  const sameMedDoses = Object.entries(getDoseStates(medication))
+    .filter(([key, state]) => state.status === 'taken')
+    .map(([key, state]) => new Date(state.takenAt || key)) // When it was really taken, if known
     .sort((a, b) => b.getTime() - a.getTime()); // Most recent first
 
   if (sameMedDoses.length > 0) {
@@ -67,40 +75,55 @@ export const checkDoseSafety = (
     }
   }
 
-  // Check 3: Count doses taken today
-  const today = date;
-  const dosesTakenToday = Object.entries(medication.doseStatus || {})
-    .filter(([key, status]) => {
-      const [d] = key.split('T');
-      return d === today && status === 'taken';
-    }).length;
+  // Check 3: Count how much was taken today, e.g., tablets or mL, not just how many doses
+  const unitsTakenToday = getUnitsTakenOn(medication, date);
+  const unitsThisDose = getScheduledDoseUnits(medication, dateTimeKey);
 
   // Check 4: Maximum daily dose limit
-  const maxDailyDoses = medication.times?.length || 0;
-  if (dosesTakenToday >= maxDailyDoses && doseStatus === 'taken') {
+  const maxDailyUnits = getScheduledUnitsOn(medication, date);
+  if (unitsTakenToday + unitsThisDose > maxDailyUnits && doseStatus === 'taken') {
+    const unit = getInventoryUnit(medication);
     errors.push(
-      `You've already taken ${dosesTakenToday} dose(s) of ${medication.name} today. ` +
-      `The scheduled maximum is ${maxDailyDoses} dose(s).`
+      `You've already taken ${unitsTakenToday} ${getInventoryLabel(unit, unitsTakenToday)} of ${medication.name} today. ` +
+      `The scheduled maximum is ${maxDailyUnits} ${getInventoryLabel(unit, maxDailyUnits)}.`
     );
     canProceed = false;
     isSafe = false;
   }
 
-  // Check 5: Food timing constraints
+  // Check 5: Daily limits of ingredients like acetaminophen, across every medication with them.
+  // The 24 hours end when the dose is really taken, which for a late dose is now.
+  if (doseStatus === 'taken') {
+    const takenAt = new Date(Math.max(now.getTime(), scheduledDateTime.getTime()));
+    const limits = checkIngredientLimits(medication, dateTimeKey, takenAt, allMedications);
+    warnings.push(...limits.warnings);
+    if (limits.errors.length > 0) {
+      errors.push(...limits.errors);
+      canProceed = false;
+      isSafe = false;
+    }
+  }
+
+  // Check 6: Food timing constraints, against meals they logged or their usual meal times
   if (medication.food === 'Without food') {
-    const currentHour = scheduledDateTime.getHours();
-    // Typical meal times: 7-9 (breakfast), 12-14 (lunch), 18-20 (dinner)
-    if ((currentHour >= 7 && currentHour <= 9) || 
-        (currentHour >= 12 && currentHour <= 14) || 
-        (currentHour >= 18 && currentHour <= 20)) {
+    const clash = getMealsAround(date, meals)
+      .map(meal => ({ ...meal, minutesAfterDose: Math.round((meal.at.getTime() - scheduledDateTime.getTime()) / (1000 * 60)) }))
+      .filter(meal => meal.minutesAfterDose > -EMPTY_STOMACH_MINUTES_AFTER_MEAL && meal.minutesAfterDose < EMPTY_STOMACH_MINUTES_BEFORE_MEAL)
+      .sort((a, b) => (a.isLogged === b.isLogged ? Math.abs(a.minutesAfterDose) - Math.abs(b.minutesAfterDose) : a.isLogged ? -1 : 1))[0];
+    if (clash) {
+      const mealTime = clash.at.toTimeString().slice(0, 5);
+      const when = clash.isLogged ? `You logged ${clash.meal} at ${mealTime}` : `Your usual ${clash.meal} time is ${mealTime}`;
+      const gap = clash.minutesAfterDose >= 0
+        ? `${clash.minutesAfterDose} minutes after this dose`
+        : `${-clash.minutesAfterDose} minutes before this dose`;
       warnings.push(
-        `This medication should be taken on an empty stomach. ` +
-        `It's currently a typical meal time - make sure you haven't eaten recently.`
+        `${when}, ${gap}. This medication should be taken on an empty stomach: ` +
+        `at least ${EMPTY_STOMACH_MINUTES_AFTER_MEAL / 60} hours after eating and ${EMPTY_STOMACH_MINUTES_BEFORE_MEAL} minutes before.`
       );
     }
   }
 
-  // Check 6: Interaction warnings (basic check)
+  // Check 7: Interaction warnings (basic check)
   // This would integrate with the existing interaction checking system
 
   if (errors.length > 0) {
@@ -0,0 +1,195 @@
+import { Escalation, EscalationChannelType, EscalationSettings, Medication, Profile, QueuedReminder } from '../types';
+import { getItem, setItem } from './storageService';
+import { logAction } from './auditLogService';
+import { getPatientActor } from './actorService';
+import { isCriticalMedication } from './missedDoseRecoveryService';
+import { hasMultipleProfiles } from './profileService';
+import { addSentEscalation } from './reminderQueueStore';
+
+/**
+ * Escalation to caregivers when a critical medication's dose stays unmarked after the check-in
+ * reminder.
+ *
+ * Each caregiver in the chain is told in turn, a set number of minutes apart, until the dose is
+ * marked. Escalations are queued with the reminders, so the service worker sends them even when
+ * the app is closed; the app then saves them, which records them in the audit log. Inbox ones
+ * can only reach the caregiver's devices by syncing, which needs the app open, so they aren't
+ * sent until a sync has pushed them.
+ */
+
+export const DEFAULT_ESCALATION_SETTINGS: EscalationSettings = {
+  enabled: false,
+  delayMinutes: 15,
+  steps: [],
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// A way of reaching a caregiver. Add a channel here and to EscalationChannelType to support another.
+export interface EscalationChannel {
+  label: string;
+  send: (escalation: Escalation, reminder: QueuedReminder) => Promise<void>;
+  isSentBySync?: boolean; // Delivered by the app's next sync rather than by send
+}
+
+const postJson = async (url: string, body: any): Promise<void> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch {
+    throw new Error(`Couldn't reach ${url}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+  if (!response.ok) throw new Error(`${url} answered ${response.status}`);
+};
+
+export const ESCALATION_CHANNELS: { [type in EscalationChannelType]: EscalationChannel } = {
+  webhook: {
+    label: 'Webhook',
+    send: async escalation => {
+      if (!escalation.target) throw new Error('No webhook address is set');
+      await postJson(escalation.target, { event: 'pillpal.escalation', escalation });
+    },
+  },
+  email: {
+    label: 'Email',
+    // Browsers can't speak SMTP, so mail goes to a relay (npm run mail-outbox stands in for one)
+    send: async (escalation, reminder) => {
+      if (!reminder.mailRelayUrl) throw new Error('No mail relay is set');
+      if (!escalation.target) throw new Error('The caregiver has no email address');
+      await postJson(reminder.mailRelayUrl, { to: escalation.target, subject: reminder.title, text: escalation.message });
+    },
+  },
+  inbox: {
+    label: 'In-app inbox',
+    // Nothing to send: the caregiver's devices get it when this one next syncs
+    send: async () => undefined,
+    isSentBySync: true,
+  },
+};
+
+export const getEscalationSettings = (): EscalationSettings => getItem('escalationSettings') || DEFAULT_ESCALATION_SETTINGS;
+
+export const saveEscalationSettings = (settings: EscalationSettings): Promise<void> => setItem('escalationSettings', settings);
+
+/**
+ * The escalations queued for an unmarked dose: one per caregiver in the chain, the first
+ * delayMinutes after the check-in reminder and each after that delayMinutes later
+ */
+export const getDoseEscalations = (
+  med: Medication,
+  profile: Profile,
+  doseKey: string,
+  checkInTime: string,
+  hideDetails: boolean,
+  settings: EscalationSettings = getEscalationSettings()
+): QueuedReminder[] => {
+  if (!settings.enabled || !isCriticalMedication(med)) return [];
+  const caregivers = getItem('caregivers') || [];
+  const [date, time] = doseKey.split('T');
+  const whose = hasMultipleProfiles() ? profile.name : getPatientActor().name;
+
+  return settings.steps.flatMap((step, index): QueuedReminder[] => {
+    const caregiver = caregivers.find(c => c.id === step.caregiverId);
+    if (!caregiver) return [];
+    const minutesLate = settings.delayMinutes * (index + 1);
+    const id = `escalation:${profile.id}:${med.id}:${doseKey}:${index}`;
+    // With the app's storage encrypted, the queue, which isn't, leaves out the medication
+    const message = hideDetails
+      ? `${whose} hasn't marked a critical dose due at ${time} on ${date}. Please check in with them.`
+      : `${whose} hasn't marked their ${med.name} ${med.dosage} dose due at ${time} on ${date}, ${minutesLate} minutes after the last reminder. Please check in with them.`;
+
+    return [{
+      id,
+      kind: 'escalation',
+      profileId: profile.id,
+      medicationId: med.id,
+      doseKey,
+      fireAt: new Date(Date.parse(checkInTime) + minutesLate * 60 * 1000).toISOString(),
+      title: `PillPal: ${whose} may have missed a dose`,
+      body: message,
+      escalation: {
+        id,
+        profileId: profile.id,
+        medicationId: med.id,
+        doseKey,
+        caregiverId: caregiver.id,
+        caregiverName: caregiver.name,
+        channel: step.channel,
+        target: step.channel === 'webhook' ? step.webhookUrl : step.channel === 'email' ? caregiver.email : undefined,
+        message,
+      },
+      ...(step.channel === 'email' ? { mailRelayUrl: settings.mailRelayUrl } : {}),
+    }];
+  });
+};
+
+/**
+ * Send a due escalation through its channel and keep the outcome for the app to record
+ */
+export const sendEscalation = async (reminder: QueuedReminder): Promise<void> => {
+  const escalation = reminder.escalation!;
+  const channel = ESCALATION_CHANNELS[escalation.channel];
+  const sentAt = new Date().toISOString();
+  try {
+    await channel.send(escalation, reminder);
+    await addSentEscalation(channel.isSentBySync ? escalation : { ...escalation, sentAt });
+  } catch (error: any) {
+    await addSentEscalation({ ...escalation, sentAt, error: error?.message || 'Not sent' });
+  }
+};
+
+export const getEscalations = (): Escalation[] => getItem('escalations') || [];
+
+/**
+ * Whether any inbox escalations are waiting for a sync to reach the caregiver
+ */
+export const hasUnsyncedEscalations = (): boolean =>
+  getEscalations().some(escalation => ESCALATION_CHANNELS[escalation.channel].isSentBySync && !escalation.sentAt && !escalation.error);
+
+/**
+ * Save escalations the worker sent, recording each in the audit log
+ */
+export const recordSentEscalations = async (sent: Escalation[]): Promise<void> => {
+  if (sent.length === 0) return;
+  const ids = new Set(sent.map(escalation => escalation.id));
+  await setItem('escalations', [...getEscalations().filter(escalation => !ids.has(escalation.id)), ...sent]);
+
+  sent.forEach(escalation => {
+    const how = ESCALATION_CHANNELS[escalation.channel].label.toLowerCase();
+    const [date, time] = escalation.doseKey.split('T');
+    logAction(
+      'share',
+      'caregiver',
+      escalation.caregiverId,
+      escalation.error
+        ? `Couldn't alert ${escalation.caregiverName} by ${how} about the dose at ${time} on ${date}: ${escalation.error}`
+        : !escalation.sentAt
+        ? `Waiting to sync an alert to ${escalation.caregiverName}'s ${how} about the unmarked dose at ${time} on ${date}`
+        : `Alerted ${escalation.caregiverName} by ${how} about the unmarked dose at ${time} on ${date}`
+    );
+  });
+};
+
+/**
+ * Inbox escalations for a caregiver that they haven't acknowledged, newest first
+ */
+export const getUnacknowledgedEscalations = (caregiverId: string): Escalation[] =>
+  getEscalations()
+    .filter(escalation => escalation.channel === 'inbox' && escalation.caregiverId === caregiverId && !escalation.acknowledgedAt && !escalation.error)
+    .sort((a, b) => (b.sentAt || '').localeCompare(a.sentAt || ''));
+
+export const acknowledgeEscalation = async (id: string): Promise<void> => {
+  const escalation = getEscalations().find(e => e.id === id);
+  if (!escalation) throw new Error('Alert not found');
+  await setItem('escalations', getEscalations().map(e => (e.id === id ? { ...e, acknowledgedAt: new Date().toISOString() } : e)));
+  logAction('view', 'caregiver', escalation.caregiverId, `${escalation.caregiverName} acknowledged the alert about the dose at ${escalation.doseKey.replace('T', ' ')}`);
+};
@@ -0,0 +1,99 @@
+import type { FieldClocks } from '../types';
+
+/**
+ * Field-by-field merging for synced records (a last-writer-wins map CRDT).
+ *
+ * Every field of a medication, symptom entry or caregiver carries the hybrid logical clock of its
+ * last change. Merging two copies keeps, field by field, the value with the later clock, so
+ * devices that see the same changes in any order end up with the same record. Deleting a record
+ * is a change to its DELETED_FIELD; an edit clocked after the deletion brings the record back.
+ *
+ * This module has no browser dependencies; the sync server merges with it too.
+ */
+
+export const DELETED_FIELD = '_deleted';
+
+export interface ClockedRecord {
+  data: { [field: string]: any };
+  clocks: FieldClocks;
+  deleted?: boolean;
+}
+
+const CLOCK_TIME_LENGTH = 9; // Milliseconds in base 36, enough until the year 5188
+const CLOCK_COUNTER_LENGTH = 4;
+
+const formatClock = (time: number, counter: number, nodeId: string): string =>
+  `${time.toString(36).padStart(CLOCK_TIME_LENGTH, '0')}-${counter.toString(36).padStart(CLOCK_COUNTER_LENGTH, '0')}-${nodeId}`;
+
+const parseClock = (clock: string): { time: number; counter: number } => {
+  const [time, counter] = clock.split('-');
+  return { time: parseInt(time, 36) || 0, counter: parseInt(counter, 36) || 0 };
+};
+
+/**
+ * Compare two clocks. Clocks sort as strings; a missing clock is earlier than any other.
+ */
+export const compareClocks = (a?: string, b?: string): number => {
+  if ((a || '') === (b || '')) return 0;
+  return (a || '') < (b || '') ? -1 : 1;
+};
+
+export const latestClock = (a?: string, b?: string): string | undefined => (compareClocks(a, b) >= 0 ? a : b);
+
+/**
+ * The next clock for a change on this node: later than the last one it made or saw, and close to
+ * the real time when the node's clock is right. The node id breaks ties between nodes.
+ */
+export const nextClock = (last: string | undefined, nodeId: string, now: number = Date.now()): string => {
+  const previous = last ? parseClock(last) : { time: 0, counter: 0 };
+  return now > previous.time
+    ? formatClock(now, 0, nodeId)
+    : formatClock(previous.time, previous.counter + 1, nodeId);
+};
+
+/**
+ * Clock every field of a record the same, for records written without clocks
+ */
+export const clockAllFields = (data: { [field: string]: any }, clock: string): FieldClocks => {
+  const clocks: FieldClocks = { [DELETED_FIELD]: clock };
+  Object.keys(data).forEach(field => {
+    clocks[field] = clock;
+  });
+  return clocks;
+};
+
+/**
+ * Merge two copies of a record, keeping each field's later value. On equal clocks the first wins.
+ */
+export const mergeClockedRecords = (first: ClockedRecord, second: ClockedRecord): ClockedRecord => {
+  const fields = new Set([
+    ...Object.keys(first.clocks),
+    ...Object.keys(second.clocks),
+    ...Object.keys(first.data),
+    ...Object.keys(second.data),
+  ]);
+
+  const merged: ClockedRecord = { data: {}, clocks: {} };
+  fields.forEach(field => {
+    const winner = compareClocks(first.clocks[field], second.clocks[field]) >= 0 ? first : second;
+    const clock = winner.clocks[field];
+    if (clock) merged.clocks[field] = clock;
+
+    if (field === DELETED_FIELD) {
+      if (winner.deleted) merged.deleted = true;
+    } else if (winner.data[field] !== undefined) {
+      merged.data[field] = winner.data[field];
+    } else if (!clock) {
+      // Fields nobody has clocked yet, like the id, come from whichever copy has them
+      const value = first.data[field] !== undefined ? first.data[field] : second.data[field];
+      if (value !== undefined) merged.data[field] = value;
+    }
+  });
+
+  if (merged.deleted) {
+    const deletedAt = merged.clocks[DELETED_FIELD];
+    const editedLater = Object.entries(merged.clocks).some(([field, clock]) => field !== DELETED_FIELD && compareClocks(clock, deletedAt) > 0);
+    if (editedLater) delete merged.deleted;
+  }
+  return merged;
+};
@@ -0,0 +1,96 @@
+import { AppSecurity } from '../types';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'touchstart', 'wheel', 'scroll'];
+const CHECK_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_REPORT_INTERVAL_MS = 60 * 1000; // How often ongoing activity is reported for saving
+
+export interface InactivityMonitorOptions {
+  timeoutMinutes: number;
+  onInactive: () => void;
+  onActivity?: (at: Date) => void; // Throttled; used to persist the last activity time
+  lastActivity?: Date;
+}
+
+/**
+ * Whether the app has a lock that can be unlocked again. Biometric unlock needs the PIN to fall back on.
+ */
+export const isLockEnabled = (security: AppSecurity): boolean => {
+  return security.lockMethod !== 'none' && !!security.pinHash;
+};
+
+/**
+ * Get the inactivity timeout in minutes. A caregiver's limit wins when it's shorter.
+ */
+export const getEffectiveLockTimeout = (security: AppSecurity): number => {
+  const timeouts = [security.lockTimeout, security.caregiverLockTimeout].filter(
+    (minutes): minutes is number => typeof minutes === 'number' && minutes > 0
+  );
+  return timeouts.length > 0 ? Math.min(...timeouts) : 5;
+};
+
+/**
+ * Check whether the app should start locked: it was locked when it was closed, or it has been
+ * idle longer than the timeout since the last recorded activity
+ */
+export const shouldLockOnLoad = (security: AppSecurity, now: Date = new Date()): boolean => {
+  if (!isLockEnabled(security)) return false;
+  if (security.isLocked || !security.lastActiveTime) return true;
+  const idleMs = now.getTime() - new Date(security.lastActiveTime).getTime();
+  return idleMs >= getEffectiveLockTimeout(security) * 60 * 1000;
+};
+
+/**
+ * Watch for user input and page visibility, calling onInactive once the app has gone unused for
+ * the timeout. Time spent in the background counts as inactive. Returns a function that stops it.
+ */
+export const startInactivityMonitor = ({
+  timeoutMinutes,
+  onInactive,
+  onActivity,
+  lastActivity = new Date(),
+}: InactivityMonitorOptions): (() => void) => {
+  const timeoutMs = timeoutMinutes * 60 * 1000;
+  let lastActivityTime = lastActivity.getTime();
+  let lastReportTime = 0;
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(interval);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+
+  const checkIdle = (): boolean => {
+    if (Date.now() - lastActivityTime < timeoutMs) return false;
+    stop();
+    onInactive();
+    return true;
+  };
+
+  const handleActivity = () => {
+    // Activity after the timeout (e.g., a timer delayed in the background) doesn't reset it
+    if (checkIdle()) return;
+    lastActivityTime = Date.now();
+    if (onActivity && lastActivityTime - lastReportTime >= ACTIVITY_REPORT_INTERVAL_MS) {
+      lastReportTime = lastActivityTime;
+      onActivity(new Date(lastActivityTime));
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      checkIdle();
+    } else if (onActivity) {
+      // Save when the tab was left, so a reload knows how long it has been idle
+      onActivity(new Date(lastActivityTime));
+    }
+  };
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  const interval = setInterval(checkIdle, CHECK_INTERVAL_MS);
+
+  return stop;
+};
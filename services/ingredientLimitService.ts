@@ -0,0 +1,214 @@
+import { Medication } from '../types';
+import { getDoseStates } from './doseEventService';
+import { getIngredientAmount, getInventoryUnit, getScheduledDoseUnits, getStructuredDose, isCountUnit } from './dosageService';
+
+/**
+ * Daily limits of active ingredients that turn up in more than one product, like acetaminophen,
+ * added up across every medication taken in the last 24 hours. These are the usual adult
+ * maximums; a prescriber's own limit may be lower.
+ */
+
+export interface IngredientLimit {
+  ingredient: string;
+  names: string[]; // Generic and brand names of products with just this ingredient
+  cautionMg: number; // Warn from here
+  maxMg: number; // Never go over this in 24 hours
+}
+
+type IngredientAmounts = { [ingredient: string]: number };
+
+// Products with more than one ingredient, and how much of the limited ones they hold
+interface CombinationProduct {
+  names: string[];
+  perTablet?: IngredientAmounts; // mg in each tablet or capsule
+  perML?: IngredientAmounts; // mg in each mL of liquid
+  strengthOrder?: string[]; // The ingredients in the order a dosage like "5/325" gives them
+}
+
+// Where the amount in a dose isn't known, its ingredient maps to null
+export interface DoseIngredients {
+  [ingredient: string]: number | null;
+}
+
+export interface IngredientLimitCheck {
+  warnings: string[];
+  errors: string[];
+}
+
+export const INGREDIENT_LIMITS: IngredientLimit[] = [
+  { ingredient: 'acetaminophen', names: ['acetaminophen', 'paracetamol', 'apap', 'tylenol', 'panadol', 'mapap'], cautionMg: 3000, maxMg: 4000 },
+  { ingredient: 'ibuprofen', names: ['ibuprofen', 'advil', 'motrin'], cautionMg: 1200, maxMg: 3200 },
+  { ingredient: 'naproxen', names: ['naproxen', 'aleve', 'naprosyn', 'anaprox'], cautionMg: 660, maxMg: 1500 },
+  { ingredient: 'aspirin', names: ['aspirin', 'acetylsalicylic acid', 'bayer', 'ecotrin'], cautionMg: 3000, maxMg: 4000 },
+  { ingredient: 'diphenhydramine', names: ['diphenhydramine', 'benadryl', 'zzzquil'], cautionMg: 200, maxMg: 300 },
+  { ingredient: 'pseudoephedrine', names: ['pseudoephedrine', 'sudafed'], cautionMg: 180, maxMg: 240 },
+  { ingredient: 'phenylephrine', names: ['phenylephrine', 'sudafed pe'], cautionMg: 40, maxMg: 60 },
+  { ingredient: 'dextromethorphan', names: ['dextromethorphan', 'delsym'], cautionMg: 90, maxMg: 120 },
+  { ingredient: 'guaifenesin', names: ['guaifenesin', 'mucinex'], cautionMg: 1800, maxMg: 2400 },
+  { ingredient: 'caffeine', names: ['caffeine', 'no doz', 'vivarin'], cautionMg: 300, maxMg: 400 },
+];
+
+const COMBINATION_PRODUCTS: CombinationProduct[] = [
+  { names: ['percocet', 'endocet', 'oxycodone acetaminophen', 'oxycodone apap'], perTablet: { acetaminophen: 325 }, strengthOrder: ['oxycodone', 'acetaminophen'] },
+  { names: ['norco', 'vicodin', 'lortab', 'hydrocodone acetaminophen', 'hydrocodone apap'], perTablet: { acetaminophen: 325 }, strengthOrder: ['hydrocodone', 'acetaminophen'] },
+  { names: ['ultracet', 'tramadol acetaminophen'], perTablet: { acetaminophen: 325 }, strengthOrder: ['tramadol', 'acetaminophen'] },
+  { names: ['tylenol with codeine', 'tylenol 3', 'tylenol 4', 'acetaminophen codeine'], perTablet: { acetaminophen: 300 }, strengthOrder: ['acetaminophen', 'codeine'] },
+  { names: ['excedrin'], perTablet: { acetaminophen: 250, aspirin: 250, caffeine: 65 } },
+  { names: ['tylenol pm'], perTablet: { acetaminophen: 500, diphenhydramine: 25 } },
+  { names: ['aleve pm'], perTablet: { naproxen: 220, diphenhydramine: 25 } },
+  { names: ['advil cold and sinus', 'advil cold sinus'], perTablet: { ibuprofen: 200, pseudoephedrine: 30 } },
+  { names: ['mucinex d'], perTablet: { guaifenesin: 600, pseudoephedrine: 60 } },
+  { names: ['mucinex dm'], perTablet: { guaifenesin: 600, dextromethorphan: 30 } },
+  { names: ['robitussin dm'], perML: { guaifenesin: 20, dextromethorphan: 2 } },
+  // Cold and flu liquids per 30 mL, or LiquiCaps
+  { names: ['nyquil'], perTablet: { acetaminophen: 325, dextromethorphan: 15 }, perML: { acetaminophen: 650 / 30, dextromethorphan: 1 } },
+  { names: ['dayquil'], perTablet: { acetaminophen: 325, dextromethorphan: 10, phenylephrine: 5 }, perML: { acetaminophen: 650 / 30, dextromethorphan: 20 / 30, phenylephrine: 10 / 30 } },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// e.g., "Oxycodone/Acetaminophen" becomes " oxycodone acetaminophen ", to match whole names
+const normalizeName = (name: string): string => ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').replace(/\band\b/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+const hasName = (normalized: string, name: string): boolean => normalized.includes(normalizeName(name));
+
+// The longest name that matches wins, so "Tylenol PM" isn't taken for plain Tylenol
+const longestMatch = (normalized: string, names: string[]): number =>
+  Math.max(0, ...names.filter(name => hasName(normalized, name)).map(name => name.length));
+
+const getCombinationProduct = (medication: Medication): CombinationProduct | undefined => {
+  const normalized = normalizeName(medication.name);
+  const [best] = COMBINATION_PRODUCTS
+    .map(product => ({ product, length: longestMatch(normalized, product.names) }))
+    .filter(match => match.length > 0)
+    .sort((a, b) => b.length - a.length);
+  if (!best) return undefined;
+  // A name with only one ingredient in it, like "Sudafed PE", is more specific than a combination's
+  const single = Math.max(0, ...INGREDIENT_LIMITS.map(limit => longestMatch(normalized, limit.names)));
+  return best.length >= single ? best.product : undefined;
+};
+
+/**
+ * The limited ingredients in a medication, by name
+ */
+export const getLimitedIngredients = (medication: Medication): string[] => {
+  const product = getCombinationProduct(medication);
+  if (product) return Object.keys({ ...product.perTablet, ...product.perML });
+
+  const normalized = normalizeName(medication.name);
+  const matches = INGREDIENT_LIMITS
+    .map(limit => ({ ingredient: limit.ingredient, length: longestMatch(normalized, limit.names) }))
+    .filter(match => match.length > 0);
+  // Generic names of combinations list each ingredient; brand names only need the best match
+  const generics = matches.filter(match => hasName(normalized, match.ingredient));
+  if (generics.length > 1) return generics.map(match => match.ingredient);
+  return matches.sort((a, b) => b.length - a.length).slice(0, 1).map(match => match.ingredient);
+};
+
+// Strengths written like "5/325 mg", one per ingredient of the combination
+const getWrittenStrengths = (dosage: string, product: CombinationProduct): IngredientAmounts | null => {
+  if (!product.strengthOrder) return null;
+  // The largest, so "1/2 tablet of 5/325" finds the strengths rather than the half
+  const [numbers] = (dosage.match(/\d+(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)+/g) || [])
+    .map(match => match.split('/').map(part => parseFloat(part)))
+    .filter(match => match.length === product.strengthOrder!.length)
+    .sort((a, b) => Math.max(...b) - Math.max(...a));
+  if (!numbers) return null;
+  const amounts: IngredientAmounts = {};
+  product.strengthOrder.forEach((ingredient, index) => {
+    if (product.perTablet && ingredient in product.perTablet) amounts[ingredient] = numbers[index];
+  });
+  return amounts;
+};
+
+/**
+ * How many mg of each limited ingredient a dose holds, e.g., { acetaminophen: 650 } for two
+ * Percocet. Ingredients whose amount can't be told from the dosage map to null.
+ */
+export const getDoseIngredients = (medication: Medication, doseKey: string): DoseIngredients => {
+  const ingredients = getLimitedIngredients(medication);
+  if (ingredients.length === 0) return {};
+
+  const dose = getStructuredDose(medication);
+  const withDose = { ...medication, dose: dose || undefined };
+  const units = getScheduledDoseUnits(withDose, doseKey); // Tablets or mL
+  const result: DoseIngredients = {};
+
+  const product = getCombinationProduct(medication);
+  if (product) {
+    const perUnit = getInventoryUnit(withDose) === 'mL'
+      ? product.perML
+      : { ...product.perTablet, ...getWrittenStrengths(medication.dosage, product) };
+    ingredients.forEach(ingredient => {
+      result[ingredient] = perUnit && ingredient in perUnit ? Math.round(perUnit[ingredient] * units * 100) / 100 : null;
+    });
+    return result;
+  }
+
+  // One ingredient: its amount is the dose's. Tapering days can change how many tablets a dose is.
+  const mg = ingredients.length === 1 && dose ? getIngredientAmount(dose) : null;
+  const scale = mg !== null && dose && isCountUnit(dose.unit) && dose.amount > 0 ? units / dose.amount : 1;
+  ingredients.forEach(ingredient => {
+    result[ingredient] = mg === null ? null : Math.round(mg * scale * 100) / 100;
+  });
+  return result;
+};
+
+/**
+ * Check that a dose won't take any of its ingredients over the daily limit, counting every dose
+ * of every medication with it, scheduled or as needed, taken in the 24 hours before it's taken.
+ * Going over is an error; getting close is a warning.
+ */
+export const checkIngredientLimits = (
+  medication: Medication,
+  doseKey: string,
+  at: Date, // When this dose is taken
+  allMedications: Medication[]
+): IngredientLimitCheck => {
+  const warnings: string[] = [];
+  const errors: string[] = [];
+  const thisDose = getDoseIngredients(medication, doseKey);
+  const medications = [medication, ...allMedications.filter(med => med.id !== medication.id)];
+
+  Object.entries(thisDose).forEach(([ingredient, doseMg]) => {
+    if (doseMg === null) {
+      warnings.push(
+        `${medication.name} contains ${ingredient}, but PillPal can't tell how much from its dosage, ` +
+        `so this dose isn't counted toward the ${ingredient} daily limit.`
+      );
+      return;
+    }
+    const limit = INGREDIENT_LIMITS.find(entry => entry.ingredient === ingredient)!;
+
+    let takenMg = 0;
+    const sources = new Set<string>();
+    medications.forEach(med => {
+      if (!getLimitedIngredients(med).includes(ingredient)) return;
+      Object.entries(getDoseStates(med)).forEach(([key, state]) => {
+        if (state.status !== 'taken' || (med.id === medication.id && key === doseKey)) return;
+        const takenAt = new Date(state.takenAt || key).getTime();
+        if (takenAt <= at.getTime() - DAY_MS || takenAt > at.getTime()) return;
+        const mg = getDoseIngredients(med, key)[ingredient];
+        if (!mg) return;
+        takenMg += mg * (state.amount ?? 1);
+        sources.add(med.name);
+      });
+    });
+
+    const totalMg = Math.round(takenMg + doseMg);
+    const from = sources.size > 0 ? ` Taken in the last 24 hours: ${[...sources].join(', ')}.` : '';
+    if (totalMg > limit.maxMg) {
+      errors.push(
+        `This dose of ${medication.name} would bring your ${ingredient} to ${totalMg} mg in 24 hours, ` +
+        `over the ${limit.maxMg} mg daily maximum.${from}`
+      );
+    } else if (totalMg > limit.cautionMg) {
+      warnings.push(
+        `This dose of ${medication.name} brings your ${ingredient} to ${totalMg} mg in 24 hours, ` +
+        `close to the ${limit.maxMg} mg daily maximum.${from}`
+      );
+    }
+  });
+
+  return { warnings, errors };
+};
@@ -0,0 +1,115 @@
+import { MealAnchor, MealEvent, MealTimes, MealType, Medication, UserPreferences } from '../types';
+import { getItem, setItem } from './storageService';
+import { addDays, toMinutes } from './scheduleService';
+
+/**
+ * Meal times, and doses timed by them ("30 minutes before breakfast", "with dinner").
+ *
+ * A dose timed by a meal keeps its clock time in `times` like any other, so schedules, reminders
+ * and dose history work unchanged; mealAnchors says which meal each one follows, and moving the
+ * meal recalculates it.
+ */
+
+export const MEALS: MealType[] = ['breakfast', 'lunch', 'dinner'];
+
+export const DEFAULT_MEAL_TIMES: MealTimes = { breakfast: '08:00', lunch: '12:30', dinner: '18:30' };
+
+// Offered when timing a dose by a meal, in minutes from it
+export const MEAL_OFFSETS = [-60, -30, 0, 30, 60, 120];
+
+const MEAL_LOG_DAYS = 14; // Only recent meals matter to the safety checks
+
+export interface MealSchedule {
+  mealTimes: MealTimes;
+  mealLog: MealEvent[];
+}
+
+// A meal around a dose: logged if they said they ate it, otherwise when they usually do
+export interface MealOccurrence {
+  meal: MealType;
+  at: Date;
+  isLogged: boolean;
+}
+
+export const getMealTimes = (preferences?: UserPreferences): MealTimes => ({ ...DEFAULT_MEAL_TIMES, ...preferences?.mealTimes });
+
+const toTime = (totalMinutes: number): string => {
+  const minutes = ((totalMinutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+/**
+ * The clock time of a dose timed by a meal
+ */
+export const getMealAnchoredTime = (anchor: MealAnchor, mealTimes: MealTimes): string =>
+  toTime(toMinutes(mealTimes[anchor.meal]) + anchor.offsetMinutes);
+
+const describeOffset = (minutes: number): string => {
+  const abs = Math.abs(minutes);
+  if (abs < 60) return `${abs} min`;
+  return abs % 60 === 0 ? `${abs / 60} hr` : `${Math.floor(abs / 60)} hr ${abs % 60} min`;
+};
+
+/**
+ * e.g., "30 min before breakfast" or "With dinner"
+ */
+export const describeMealAnchor = (anchor: MealAnchor): string => {
+  if (anchor.offsetMinutes === 0) return `With ${anchor.meal}`;
+  return `${describeOffset(anchor.offsetMinutes)} ${anchor.offsetMinutes < 0 ? 'before' : 'after'} ${anchor.meal}`;
+};
+
+/**
+ * A medication with the times timed by meals worked out again. Returns it unchanged if none moved.
+ */
+export const applyMealTimes = (medication: Medication, mealTimes: MealTimes): Medication => {
+  const anchors = medication.mealAnchors;
+  if (!anchors?.some(Boolean)) return medication;
+  const times = medication.times.map((time, index) => (anchors[index] ? getMealAnchoredTime(anchors[index]!, mealTimes) : time));
+  return times.every((time, index) => time === medication.times[index]) ? medication : { ...medication, times };
+};
+
+/**
+ * Move doses timed by meals to follow the meal times. Returns the same list if none moved.
+ */
+export const rescheduleMealDoses = (medications: Medication[], mealTimes: MealTimes): Medication[] => {
+  const updated = medications.map(med => applyMealTimes(med, mealTimes));
+  return updated.some((med, index) => med !== medications[index]) ? updated : medications;
+};
+
+export const getMealLog = (): MealEvent[] => getItem('mealLog') || [];
+
+/**
+ * Record that they ate a meal, forgetting ones too old to matter
+ */
+export const logMeal = async (meal: MealType, eatenAt: Date = new Date()): Promise<MealEvent> => {
+  const entry: MealEvent = { id: Date.now().toString(), meal, eatenAt: eatenAt.toISOString() };
+  const cutoff = eatenAt.getTime() - MEAL_LOG_DAYS * 24 * 60 * 60 * 1000;
+  await setItem('mealLog', [...getMealLog().filter(event => Date.parse(event.eatenAt) >= cutoff), entry]);
+  return entry;
+};
+
+/**
+ * A profile's meal times and logged meals, from its preferences and meal log
+ */
+export const getMealSchedule = (preferences?: UserPreferences, mealLog: MealEvent[] = []): MealSchedule => ({
+  mealTimes: getMealTimes(preferences),
+  mealLog,
+});
+
+export const getActiveMealSchedule = (): MealSchedule => getMealSchedule(getItem('userPreferences'), getMealLog());
+
+/**
+ * Meals from the day before a date to the day after: each one they logged, or the usual time for
+ * meals they didn't
+ */
+export const getMealsAround = (date: string, schedule: MealSchedule): MealOccurrence[] =>
+  [addDays(date, -1), date, addDays(date, 1)].flatMap(day =>
+    MEALS.flatMap((meal): MealOccurrence[] => {
+      const logged = schedule.mealLog.filter(event => event.meal === meal && toLocalDate(new Date(event.eatenAt)) === day);
+      if (logged.length > 0) return logged.map(event => ({ meal, at: new Date(event.eatenAt), isLogged: true }));
+      return [{ meal, at: new Date(`${day}T${schedule.mealTimes[meal]}`), isLogged: false }];
+    })
+  );
@@ -10,6 +10,12 @@ export interface RecoveryGuidance {
   severity: 'low' | 'medium' | 'high';
 }
 
+// Medications where a missed or doubled dose is dangerous
+export const CRITICAL_MEDICATIONS = ['warfarin', 'insulin', 'digoxin', 'lithium', 'phenytoin'];
+
+export const isCriticalMedication = (medication: Medication): boolean =>
+  CRITICAL_MEDICATIONS.some(critical => medication.name.toLowerCase().includes(critical));
+
 /**
  * Generate recovery guidance for missed doses
  */
@@ -101,8 +107,7 @@ export const getMissedDoseRecovery = (
   }
 
   // Special handling for critical medications
-  const criticalMeds = ['warfarin', 'insulin', 'digoxin', 'lithium', 'phenytoin'];
-  if (criticalMeds.some(critical => medication.name.toLowerCase().includes(critical))) {
+  if (isCriticalMedication(medication)) {
     if (guidance) {
       guidance.guidance += ' ⚠️ This is a critical medication - consult your healthcare provider if you have concerns.';
       guidance.severity = 'high';
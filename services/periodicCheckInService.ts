@@ -1,4 +1,5 @@
 import { Medication } from '../types';
+import { getDoseStatusMap } from './doseEventService';
 
 export interface CheckInReminder {
   id: string;
@@ -21,9 +22,9 @@ export const generateCheckInReminders = (medications: Medication[]): CheckInRemi
 
   medications.forEach(med => {
     // Check if medication is long-term (has been taken for more than 90 days)
-    const doseDates = Object.keys(med.doseStatus || {})
-      .map(key => key.split('T')[0])
-      .filter(date => med.doseStatus?.[`${date}T${med.times[0]}`] === 'taken')
+    const doseDates = Object.entries(getDoseStatusMap(med))
+      .filter(([, status]) => status === 'taken')
+      .map(([key]) => key.split('T')[0])
       .sort();
 
     if (doseDates.length === 0) return;
@@ -0,0 +1,111 @@
+import { Actor, Caregiver, CaregiverAction, CaregiverPermissions, Medication } from '../types';
+import { getActorCaregiver } from './actorService';
+
+export const FULL_PERMISSIONS: CaregiverPermissions = {
+  markDoses: true,
+  editSchedules: true,
+  viewJournal: true,
+  exportReports: true,
+};
+
+const NO_PERMISSIONS: CaregiverPermissions = {
+  medicationIds: [],
+  markDoses: false,
+  editSchedules: false,
+  viewJournal: false,
+  exportReports: false,
+};
+
+export const ACTION_LABELS: { [action in CaregiverAction]: string } = {
+  markDoses: 'Mark doses',
+  editSchedules: 'Edit medications and schedules',
+  viewJournal: 'View symptom journal',
+  exportReports: 'Export reports and backups',
+};
+
+const ACTION_DENIALS: { [action in CaregiverAction]: string } = {
+  markDoses: 'mark doses',
+  editSchedules: 'change medications or schedules',
+  viewJournal: 'see the symptom journal',
+  exportReports: 'export reports or backups',
+};
+
+/**
+ * Permissions implied by an access level, for caregivers without their own
+ */
+export const getDefaultPermissions = (accessLevel: Caregiver['accessLevel']): CaregiverPermissions => {
+  return accessLevel === 'manage'
+    ? { ...FULL_PERMISSIONS }
+    : { markDoses: false, editSchedules: false, viewJournal: true, exportReports: false };
+};
+
+export const getCaregiverPermissions = (caregiver: Caregiver): CaregiverPermissions => {
+  return caregiver.permissions || getDefaultPermissions(caregiver.accessLevel);
+};
+
+/**
+ * Get what someone using the app may do. The patient can do everything; a caregiver who has
+ * been removed can do nothing.
+ */
+export const getActorPermissions = (actor: Actor): CaregiverPermissions => {
+  if (actor.type === 'patient') return FULL_PERMISSIONS;
+  const caregiver = getActorCaregiver(actor);
+  return caregiver ? getCaregiverPermissions(caregiver) : NO_PERMISSIONS;
+};
+
+export const canSeeMedication = (permissions: CaregiverPermissions, medicationId: string): boolean => {
+  return !permissions.medicationIds || permissions.medicationIds.includes(medicationId);
+};
+
+/**
+ * Get the medications someone may see
+ */
+export const getVisibleMedications = (actor: Actor, medications: Medication[]): Medication[] => {
+  const permissions = getActorPermissions(actor);
+  return permissions.medicationIds ? medications.filter(med => canSeeMedication(permissions, med.id)) : medications;
+};
+
+/**
+ * Check whether someone may take an action, on a medication when one is given.
+ * Returns why not when they can't, or null when they can.
+ */
+export const getPermissionDenial = (actor: Actor, action: CaregiverAction, medicationId?: string): string | null => {
+  const permissions = getActorPermissions(actor);
+  if (!permissions[action]) {
+    return `${actor.name} doesn't have permission to ${ACTION_DENIALS[action]}.`;
+  }
+  if (medicationId && !canSeeMedication(permissions, medicationId)) {
+    return `${actor.name} doesn't have access to this medication.`;
+  }
+  return null;
+};
+
+export const hasPermission = (actor: Actor, action: CaregiverAction, medicationId?: string): boolean => {
+  return getPermissionDenial(actor, action, medicationId) === null;
+};
+
+/**
+ * Summarize permissions for lists, e.g., "Full access" or "Mark doses · 2 medications"
+ */
+export const describePermissions = (permissions: CaregiverPermissions): string => {
+  const actions = (Object.keys(ACTION_LABELS) as CaregiverAction[]).filter(action => permissions[action]);
+  const scope = permissions.medicationIds
+    ? `${permissions.medicationIds.length} ${permissions.medicationIds.length === 1 ? 'medication' : 'medications'}`
+    : 'All medications';
+
+  if (actions.length === Object.keys(ACTION_LABELS).length && !permissions.medicationIds) return 'Full access';
+  if (actions.length === 0) return `View only · ${scope}`;
+  return `${actions.map(action => ACTION_LABELS[action]).join(', ')} · ${scope}`;
+};
+
+/**
+ * Check whether someone else may do anything the current person can't, so switching to them
+ * needs the patient's PIN first
+ */
+export const widensPermissions = (from: Actor, to: Actor): boolean => {
+  const current = getActorPermissions(from);
+  const next = getActorPermissions(to);
+  if ((Object.keys(ACTION_LABELS) as CaregiverAction[]).some(action => next[action] && !current[action])) return true;
+  if (!next.medicationIds) return !!current.medicationIds;
+  return next.medicationIds.some(id => !canSeeMedication(current, id));
+};
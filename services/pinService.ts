@@ -0,0 +1,79 @@
+import { AppSecurity, PinHashParams } from '../types';
+import { derivePbkdf2Hash, randomBytes, toBase64, fromBase64, SALT_BYTES, DEFAULT_PBKDF2_ITERATIONS } from './cryptoService';
+
+export interface PinHash {
+  pinHash: string;
+  pinHashParams: PinHashParams;
+}
+
+export interface PinVerification {
+  valid: boolean;
+  upgradedHash?: PinHash; // Set when a PIN saved by an older version should be re-hashed
+}
+
+// Lockouts start at this many wrong PINs in a row; each further failure doubles the wait
+const LOCKOUT_THRESHOLD = 3;
+const BASE_LOCKOUT_SECONDS = 30;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+
+/**
+ * The reversible encoding older versions stored as pinHash
+ */
+const legacyHashPin = (pin: string): string => btoa(pin).split('').reverse().join('');
+
+/**
+ * Hash a PIN with a fresh salt
+ */
+export const hashPin = async (pin: string): Promise<PinHash> => {
+  const pinHashParams: PinHashParams = {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: DEFAULT_PBKDF2_ITERATIONS,
+    salt: toBase64(randomBytes(SALT_BYTES)),
+  };
+  const pinHash = await derivePbkdf2Hash(pin, fromBase64(pinHashParams.salt), pinHashParams.iterations);
+  return { pinHash, pinHashParams };
+};
+
+/**
+ * Check a PIN against the saved hash, upgrading hashes saved by older versions
+ */
+export const verifyPin = async (pin: string, security: AppSecurity): Promise<PinVerification> => {
+  if (!security.pinHash) return { valid: false };
+
+  if (!security.pinHashParams) {
+    if (legacyHashPin(pin) !== security.pinHash) return { valid: false };
+    return { valid: true, upgradedHash: await hashPin(pin) };
+  }
+
+  const { salt, iterations } = security.pinHashParams;
+  const hash = await derivePbkdf2Hash(pin, fromBase64(salt), iterations);
+  return { valid: hash === security.pinHash };
+};
+
+/**
+ * Get how long PIN entry is disabled after a number of wrong PINs in a row
+ */
+export const getLockoutSeconds = (failedAttempts: number): number => {
+  if (failedAttempts < LOCKOUT_THRESHOLD) return 0;
+  return Math.min(BASE_LOCKOUT_SECONDS * Math.pow(2, failedAttempts - LOCKOUT_THRESHOLD), MAX_LOCKOUT_SECONDS);
+};
+
+/**
+ * Get the security changes to save after a wrong PIN
+ */
+export const recordFailedAttempt = (security: AppSecurity, now: Date = new Date()): Partial<AppSecurity> => {
+  const failedAttempts = (security.failedAttempts || 0) + 1;
+  const lockoutSeconds = getLockoutSeconds(failedAttempts);
+  return {
+    failedAttempts,
+    lockedUntil: lockoutSeconds > 0 ? new Date(now.getTime() + lockoutSeconds * 1000).toISOString() : undefined,
+  };
+};
+
+/**
+ * Get the seconds left before another PIN can be tried, or 0
+ */
+export const getRemainingLockoutSeconds = (security: AppSecurity, now: Date = new Date()): number => {
+  if (!security.lockedUntil) return 0;
+  return Math.max(0, Math.ceil((new Date(security.lockedUntil).getTime() - now.getTime()) / 1000));
+};
@@ -0,0 +1,214 @@
+import { Medication, Profile, ProfileData, EmergencyInfo } from '../types';
+import { getItem, setItem, setItems } from './storageService';
+import { appendDoseEvents, createDoseEvent, getDoseState } from './doseEventService';
+import { getQuantityAfterDose } from './dosageService';
+import { checkDoseSafety } from './doseSafetyService';
+import { getMealSchedule } from './mealService';
+
+/**
+ * Household profiles.
+ *
+ * Each person has their own medications, journal, preferences, as-needed limits and Emergency
+ * Medical ID. The active profile's data lives in the regular stores, so every screen works on it
+ * unchanged; the other profiles' data is kept in profileData until they're switched to.
+ */
+
+// Installs from before profiles existed have a single profile with this id
+export const DEFAULT_PROFILE_ID = 'default';
+
+const PROFILE_COLORS = ['#4f46e5', '#db2777', '#059669', '#d97706', '#0284c7', '#7c3aed'];
+
+export interface HouseholdMember {
+  profile: Profile;
+  medications: Medication[];
+  isActive: boolean;
+}
+
+export const createEmptyProfileData = (): ProfileData => ({
+  medications: [],
+  symptomEntries: [],
+  prnConfigs: {},
+  medicationEducations: {},
+  notificationBehaviors: {},
+});
+
+/**
+ * Get every profile. Before a second profile is added, there's just the one for the existing data.
+ */
+export const getProfiles = (): Profile[] => {
+  const profiles = getItem('profiles');
+  if (profiles && profiles.length > 0) return profiles;
+
+  const emergencyInfo: EmergencyInfo | undefined = getItem('emergencyInfo');
+  return [{ id: DEFAULT_PROFILE_ID, name: emergencyInfo?.name || 'Me', color: PROFILE_COLORS[0], createdDate: '' }];
+};
+
+export const getActiveProfileId = (): string => {
+  const profiles = getProfiles();
+  const activeId = getItem('activeProfileId');
+  return profiles.some(profile => profile.id === activeId) ? activeId! : profiles[0].id;
+};
+
+export const getActiveProfile = (): Profile => {
+  const activeId = getActiveProfileId();
+  return getProfiles().find(profile => profile.id === activeId)!;
+};
+
+export const hasMultipleProfiles = (): boolean => getProfiles().length > 1;
+
+/**
+ * Read the active profile's data from the regular stores
+ */
+const readActiveProfileData = (): ProfileData => ({
+  medications: getItem('medications') || [],
+  symptomEntries: getItem('symptomEntries') || [],
+  userPreferences: getItem('userPreferences'),
+  mealLog: getItem('mealLog'),
+  emergencyInfo: getItem('emergencyInfo'),
+  prnConfigs: getItem('prnConfigs') || {},
+  medicationEducations: getItem('medicationEducations') || {},
+  notificationBehaviors: getItem('notificationBehaviors') || {},
+});
+
+/**
+ * Get a profile's data, whether or not it's the active one
+ */
+export const getProfileData = (profileId: string): ProfileData => {
+  if (profileId === getActiveProfileId()) return readActiveProfileData();
+  return getItem('profileData')?.[profileId] || createEmptyProfileData();
+};
+
+/**
+ * Add a profile with no data
+ */
+export const createProfile = async (name: string): Promise<Profile> => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Profile name is required');
+
+  const profiles = getProfiles();
+  const profile: Profile = {
+    id: Date.now().toString(),
+    name: trimmed,
+    color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length],
+    createdDate: new Date().toISOString(),
+  };
+
+  await setItems({
+    profiles: [...profiles, profile],
+    activeProfileId: getActiveProfileId(),
+    profileData: { ...(getItem('profileData') || {}), [profile.id]: createEmptyProfileData() },
+  });
+  return profile;
+};
+
+export const renameProfile = (profileId: string, name: string): Promise<void> => {
+  const trimmed = name.trim();
+  if (!trimmed) return Promise.reject(new Error('Profile name is required'));
+  return setItem('profiles', getProfiles().map(profile => (profile.id === profileId ? { ...profile, name: trimmed } : profile)));
+};
+
+/**
+ * Delete a profile and all of its data. The active profile can't be removed.
+ */
+export const removeProfile = async (profileId: string): Promise<void> => {
+  if (profileId === getActiveProfileId()) {
+    throw new Error('Switch to another profile before removing this one');
+  }
+  const { [profileId]: removed, ...profileData } = getItem('profileData') || {};
+  await setItems({
+    profiles: getProfiles().filter(profile => profile.id !== profileId),
+    profileData,
+  });
+};
+
+/**
+ * Make another profile active: the current profile's data is put aside and the other's loaded
+ * into the regular stores, in one write. Returns the newly active profile's data.
+ */
+export const switchProfile = async (profileId: string): Promise<ProfileData> => {
+  const activeId = getActiveProfileId();
+  const profiles = getProfiles();
+  if (profileId === activeId) return readActiveProfileData();
+  if (!profiles.some(profile => profile.id === profileId)) {
+    throw new Error('Profile not found');
+  }
+
+  const { [profileId]: incoming, ...otherProfiles } = getItem('profileData') || {};
+  const data = incoming || createEmptyProfileData();
+
+  await setItems({
+    medications: data.medications,
+    symptomEntries: data.symptomEntries,
+    userPreferences: data.userPreferences,
+    mealLog: data.mealLog,
+    emergencyInfo: data.emergencyInfo,
+    prnConfigs: data.prnConfigs,
+    medicationEducations: data.medicationEducations,
+    notificationBehaviors: data.notificationBehaviors,
+    profiles,
+    activeProfileId: profileId,
+    profileData: { ...otherProfiles, [activeId]: readActiveProfileData() },
+  });
+  return data;
+};
+
+/**
+ * Get each profile's medications, the active profile's from the given (current) list
+ */
+export const getHouseholdMedications = (activeMedications: Medication[]): HouseholdMember[] => {
+  const activeId = getActiveProfileId();
+  const profileData = getItem('profileData') || {};
+  return getProfiles().map(profile => ({
+    profile,
+    isActive: profile.id === activeId,
+    medications: profile.id === activeId ? activeMedications : profileData[profile.id]?.medications || [],
+  }));
+};
+
+/**
+ * Mark a dose for a profile that isn't the active one, adjusting its pill count the same way.
+ * Taken doses get the same safety checks, against that profile's medications and meals.
+ */
+export const recordInactiveProfileDose = async (
+  profileId: string,
+  medicationId: string,
+  doseKey: string,
+  status: 'taken' | 'skipped'
+): Promise<void> => {
+  if (profileId === getActiveProfileId()) {
+    throw new Error('Use the regular dose actions for the active profile');
+  }
+  const allData = getItem('profileData') || {};
+  const data = allData[profileId];
+  if (!data) throw new Error('Profile not found');
+
+  const medication = data.medications.find(med => med.id === medicationId);
+  if (medication && status === 'taken' && getDoseState(medication, doseKey).status !== 'taken') {
+    const [date, time] = doseKey.split('T');
+    const meals = getMealSchedule(data.userPreferences, data.mealLog);
+    const safety = checkDoseSafety(medication, date, time, 'taken', data.medications, meals);
+    if (!safety.canProceed) throw new Error(safety.errors.join('\n'));
+  }
+
+  const medications = data.medications.map(med => {
+    if (med.id !== medicationId) return med;
+    const oldStatus = getDoseState(med, doseKey).status;
+    if (oldStatus === status) return med;
+
+    const quantity = getQuantityAfterDose(med, doseKey, oldStatus, status);
+    return { ...appendDoseEvents(med, [createDoseEvent(med.id, doseKey, status)]), quantity };
+  });
+
+  await setItem('profileData', { ...allData, [profileId]: { ...data, medications } });
+};
+
+/**
+ * Reminder titles say whose medication it is when the household has several people
+ */
+export const getDoseReminderTitle = (medicationName: string, profile: Profile): string => {
+  return hasMultipleProfiles() ? `Time for ${profile.name}'s ${medicationName}` : `Time for your ${medicationName}`;
+};
+
+export const getRefillReminderTitle = (medicationName: string, profile: Profile): string => {
+  return hasMultipleProfiles() ? `Refill ${profile.name}'s ${medicationName}` : `Refill ${medicationName}`;
+};
@@ -0,0 +1,343 @@
+/**
+ * QR code encoder (ISO/IEC 18004), so transfer codes can be drawn offline without a library.
+ *
+ * Only what the transfer needs is supported: byte mode, error correction level M, and the
+ * smallest version (1-40) the data fits in. The mask is chosen by the standard's penalty rules.
+ */
+
+export type QrMatrix = boolean[][]; // [row][column]; true is a dark module
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const NUM_ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+const ECC_FORMAT_BITS = 0; // Level M
+const MAX_VERSION = 40;
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+// Modules available for data and error correction, after the function patterns
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number): number =>
+  Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ECC_BLOCKS[version];
+
+/**
+ * The most bytes one code can hold
+ */
+export const MAX_QR_BYTES = getNumDataCodewords(MAX_VERSION) - 3;
+
+const multiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const computeDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+};
+
+const computeRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+// Split the data into blocks, add each block's error correction, and interleave them
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+  const numBlocks = NUM_ECC_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = computeDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    k += blockData.length;
+    const ecc = computeRemainder(blockData, divisor);
+    if (i < numShortBlocks) blockData.push(0); // Padding, skipped when interleaving
+    blocks.push([...blockData, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// Mode, length, data, terminator and padding, as codewords
+const encodeDataCodewords = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0x4, 4); // Byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = getNumDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+const getAlignmentPatternPositions = (version: number, size: number): number[] => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < numAlign; position -= step) result.splice(1, 0, position);
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Build the module grid for one version
+ */
+const createQrMatrix = (version: number) => {
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction: boolean[][] = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+  const setFunctionModule = (x: number, y: number, isDark: boolean) => {
+    modules[y][x] = isDark;
+    isFunction[y][x] = true;
+  };
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) setFunctionModule(8, i, getBit(bits, i));
+    setFunctionModule(8, 7, getBit(bits, 6));
+    setFunctionModule(8, 8, getBit(bits, 7));
+    setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunctionModule(14 - i, 8, getBit(bits, i));
+    for (let i = 0; i < 8; i++) setFunctionModule(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) setFunctionModule(8, size - 15 + i, getBit(bits, i));
+    setFunctionModule(8, size - 8, true); // Always dark
+  };
+
+  const drawVersion = () => {
+    if (version < 7) return;
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunctionModule(a, b, getBit(bits, i));
+      setFunctionModule(b, a, getBit(bits, i));
+    }
+  };
+
+  const drawFinderPattern = (x: number, y: number) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < size && yy >= 0 && yy < size) setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+      }
+    }
+  };
+
+  const drawAlignmentPattern = (x: number, y: number) => {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(6, i, i % 2 === 0);
+    setFunctionModule(i, 6, i % 2 === 0);
+  }
+  drawFinderPattern(3, 3);
+  drawFinderPattern(size - 4, 3);
+  drawFinderPattern(3, size - 4);
+  const alignment = getAlignmentPatternPositions(version, size);
+  alignment.forEach((y, i) => alignment.forEach((x, j) => {
+    const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === alignment.length - 1) || (i === alignment.length - 1 && j === 0);
+    if (!overlapsFinder) drawAlignmentPattern(x, y);
+  }));
+  drawFormatBits(0); // Reserves the area; drawn again once the mask is chosen
+  drawVersion();
+
+  return { size, modules, isFunction, drawFormatBits };
+};
+
+// Zigzag the codewords up and down two columns at a time, from the bottom right
+const drawCodewords = (modules: QrMatrix, isFunction: boolean[][], codewords: number[]) => {
+  const size = modules.length;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && i < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+const applyMask = (modules: QrMatrix, isFunction: boolean[][], mask: number) => {
+  modules.forEach((row, y) => row.forEach((isDark, x) => {
+    if (!isFunction[y][x] && MASKS[mask](x, y)) row[x] = !isDark;
+  }));
+};
+
+// Run lengths before the current run, newest first, for spotting finder-like patterns
+const addRunToHistory = (runLength: number, history: number[], size: number) => {
+  if (history[0] === 0) runLength += size; // The light border before the first run
+  history.pop();
+  history.unshift(runLength);
+};
+
+const countFinderLikePatterns = (history: number[]): number => {
+  const n = history[1];
+  const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+  return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+};
+
+const getLinePenalty = (line: boolean[]): number => {
+  const size = line.length;
+  let result = 0;
+  let runColor = false;
+  let runLength = 0;
+  const history = new Array<number>(7).fill(0);
+  line.forEach(isDark => {
+    if (isDark === runColor) {
+      runLength++;
+      if (runLength === 5) result += PENALTY_N1;
+      else if (runLength > 5) result++;
+    } else {
+      addRunToHistory(runLength, history, size);
+      if (!runColor) result += countFinderLikePatterns(history) * PENALTY_N3;
+      runColor = isDark;
+      runLength = 1;
+    }
+  });
+  // End with the light border after the line
+  if (runColor) {
+    addRunToHistory(runLength, history, size);
+    runLength = 0;
+  }
+  addRunToHistory(runLength + size, history, size);
+  return result + countFinderLikePatterns(history) * PENALTY_N3;
+};
+
+const getPenaltyScore = (modules: QrMatrix): number => {
+  const size = modules.length;
+  let result = 0;
+  for (let i = 0; i < size; i++) {
+    result += getLinePenalty(modules[i]);
+    result += getLinePenalty(modules.map(row => row[i]));
+  }
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) result += PENALTY_N2;
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return result + k * PENALTY_N4;
+};
+
+/**
+ * Encode text (as UTF-8) into a QR code
+ */
+export const encodeQrCode = (text: string): QrMatrix => {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= MAX_VERSION && 4 + (version < 10 ? 8 : 16) + bytes.length * 8 > getNumDataCodewords(version) * 8) version++;
+  if (version > MAX_VERSION) throw new Error(`Too much data for one QR code (${bytes.length} bytes; the most is ${MAX_QR_BYTES})`);
+
+  const { modules, isFunction, drawFormatBits } = createQrMatrix(version);
+  drawCodewords(modules, isFunction, addEccAndInterleave(encodeDataCodewords(bytes, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(modules, isFunction, mask);
+    drawFormatBits(mask);
+    const penalty = getPenaltyScore(modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(modules, isFunction, mask); // Masking twice undoes it
+  }
+  applyMask(modules, isFunction, bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+};
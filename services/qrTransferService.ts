@@ -0,0 +1,129 @@
+import { BackupData, exportAllData, serializeBackup } from './backupService';
+import { EncryptedBackupEnvelope, ENCRYPTED_BACKUP_FORMAT, ENCRYPTED_BACKUP_VERSION, encryptBackup, gunzip, gzip, isCompressionAvailable } from './backupEncryptionService';
+import { DEFAULT_PBKDF2_ITERATIONS, IV_BYTES, PBKDF2_HASH, SALT_BYTES, fromBase64, toBase64 } from './cryptoService';
+
+/**
+ * Move a full backup to another phone as a loop of QR codes, with no server or network.
+ *
+ * The sending phone shows the backup, compressed and then optionally encrypted, split across
+ * numbered frames. The receiving phone scans them in any order until it has every one, then
+ * hands the reassembled file to the regular restore path, which decrypts, validates and previews it.
+ *
+ * Encrypted frames carry just the salt, IV and ciphertext of an encrypted backup; the rest of its
+ * envelope is the same for every transfer.
+ */
+
+export interface TransferProgress {
+  id: string; // Tells frames from different transfers apart
+  total: number;
+  encoding: TransferEncoding;
+  chunks: { [index: number]: string };
+  received: number;
+}
+
+type TransferEncoding = 'gzip' | 'json' | 'encrypted';
+
+const FRAME_PREFIX = 'PPQR1';
+const FRAME_DATA_LENGTH = 300; // Keeps each code small enough for a phone camera to read from across a table
+export const FRAME_INTERVAL_MS = 250;
+
+const ENCODING_CODES: { [encoding in TransferEncoding]: string } = { gzip: 'z', json: 'j', encrypted: 'e' };
+
+// Photos of pills are the bulk of most backups and aren't needed to take doses
+const withoutPhotos = (backup: BackupData): BackupData => ({
+  ...backup,
+  medications: backup.medications.map(({ image, ...med }) => med),
+  ...(backup.profileData && {
+    profileData: Object.fromEntries(Object.entries(backup.profileData).map(([id, data]) => [
+      id,
+      { ...data, medications: data.medications.map(({ image, ...med }) => med) },
+    ])),
+  }),
+});
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+};
+
+/**
+ * Create the frames for a transfer of everything on this device, encrypted when a passphrase is given
+ */
+export const createTransferFrames = async (passphrase?: string): Promise<string[]> => {
+  const backup = withoutPhotos(exportAllData());
+  const encoding: TransferEncoding = !isCompressionAvailable() ? 'json' : passphrase ? 'encrypted' : 'gzip';
+
+  let contents: Uint8Array;
+  if (encoding === 'encrypted') {
+    // Compressed before it's encrypted, since ciphertext doesn't compress
+    const envelope = await encryptBackup(await serializeBackup(undefined, backup), passphrase!, true);
+    contents = concatBytes(fromBase64(envelope.kdf.salt), fromBase64(envelope.cipher.iv), fromBase64(envelope.ciphertext));
+  } else {
+    const json = new TextEncoder().encode(await serializeBackup(passphrase, backup));
+    contents = encoding === 'gzip' ? await gzip(json) : json;
+  }
+  const data = toBase64(contents);
+
+  const id = Date.now().toString(36);
+  const total = Math.ceil(data.length / FRAME_DATA_LENGTH);
+  return Array.from({ length: total }, (_, index) =>
+    [FRAME_PREFIX, id, index, total, ENCODING_CODES[encoding], data.slice(index * FRAME_DATA_LENGTH, (index + 1) * FRAME_DATA_LENGTH)].join(':')
+  );
+};
+
+/**
+ * Add a scanned frame. Frames already received are ignored; a frame from another transfer starts over.
+ */
+export const addTransferFrame = (progress: TransferProgress | null, text: string): TransferProgress => {
+  const [prefix, id, indexText, totalText, encodingCode, data] = text.split(':');
+  const index = Number(indexText);
+  const total = Number(totalText);
+  const encoding = (Object.keys(ENCODING_CODES) as TransferEncoding[]).find(key => ENCODING_CODES[key] === encodingCode);
+  if (prefix !== FRAME_PREFIX || !id || !Number.isInteger(index) || !Number.isInteger(total) || index < 0 || index >= total || !encoding || !data) {
+    throw new Error("That QR code isn't a PillPal transfer code");
+  }
+
+  const current = progress && progress.id === id ? progress : { id, total, encoding, chunks: {}, received: 0 };
+  if (current.chunks[index] !== undefined) return current;
+  return { ...current, chunks: { ...current.chunks, [index]: data }, received: current.received + 1 };
+};
+
+export const isTransferComplete = (progress: TransferProgress | null): boolean => !!progress && progress.received === progress.total;
+
+// Rebuild the encrypted backup file from the salt, IV and ciphertext sent in encrypted frames
+const toEncryptedBackup = (bytes: Uint8Array): EncryptedBackupEnvelope => {
+  if (bytes.length <= SALT_BYTES + IV_BYTES) throw new Error('it may be damaged');
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: PBKDF2_HASH, iterations: DEFAULT_PBKDF2_ITERATIONS, salt: toBase64(bytes.slice(0, SALT_BYTES)) },
+    cipher: { name: 'AES-GCM', iv: toBase64(bytes.slice(SALT_BYTES, SALT_BYTES + IV_BYTES)) },
+    ciphertext: toBase64(bytes.slice(SALT_BYTES + IV_BYTES)),
+    compression: 'gzip',
+  };
+};
+
+/**
+ * Put the frames back together as the backup file the sending phone would have saved
+ */
+export const assembleTransfer = async (progress: TransferProgress): Promise<File> => {
+  if (!isTransferComplete(progress)) throw new Error('Some transfer codes are still missing');
+
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64(Array.from({ length: progress.total }, (_, index) => progress.chunks[index]).join(''));
+    if (progress.encoding === 'encrypted') {
+      // The restore path asks for the passphrase, decrypts, and then unpacks it
+      bytes = new TextEncoder().encode(JSON.stringify(toEncryptedBackup(bytes)));
+    } else if (progress.encoding === 'gzip') {
+      bytes = await gunzip(bytes);
+    }
+  } catch (error: any) {
+    throw new Error(`The transfer couldn't be read: ${error?.message || 'it may be damaged'}`);
+  }
+  return new File([bytes], `pillpal-transfer-${new Date().toISOString().split('T')[0]}.json`, { type: 'application/json' });
+};
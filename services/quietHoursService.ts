@@ -0,0 +1,50 @@
+import { QuietHours, UserPreferences } from '../types';
+import { toMinutes } from './scheduleService';
+
+/**
+ * Quiet hours: the night between a profile's sleep and wake times, plus any others they set.
+ * Reminders for most medications wait until quiet hours end; those for critical medications
+ * still go out (see reminderQueueService).
+ */
+
+/**
+ * A profile's quiet hours, the night first
+ */
+export const getQuietHours = (preferences?: UserPreferences): QuietHours[] => {
+  if (!preferences) return [];
+  const night = preferences.sleepTime && preferences.wakeTime ? [{ start: preferences.sleepTime, end: preferences.wakeTime }] : [];
+  return [...night, ...(preferences.quietHours || [])].filter(quiet => quiet.start && quiet.end && quiet.start !== quiet.end);
+};
+
+const isWithin = (minutes: number, quiet: QuietHours): boolean => {
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+/**
+ * Whether a time of day (HH:mm) falls in quiet hours
+ */
+export const isInQuietHours = (time: string, quietHours: QuietHours[]): boolean =>
+  quietHours.some(quiet => isWithin(toMinutes(time), quiet));
+
+/**
+ * When the quiet hours a moment falls in are over, or null if it isn't in any. Quiet hours that
+ * run into each other count as one.
+ */
+export const getQuietHoursEnd = (at: Date, quietHours: QuietHours[]): Date | null => {
+  let end: Date | null = null;
+  let current = at;
+  // Each can only be run into once, unless together they cover the whole day
+  for (let i = 0; i < quietHours.length; i++) {
+    const quiet = quietHours.find(q => isWithin(current.getHours() * 60 + current.getMinutes(), q));
+    if (!quiet) break;
+    const [hours, minutes] = quiet.end.split(':').map(Number);
+    const next = new Date(current);
+    next.setHours(hours, minutes, 0, 0);
+    if (next.getTime() <= current.getTime()) next.setDate(next.getDate() + 1);
+    end = next;
+    current = next;
+  }
+  return end;
+};
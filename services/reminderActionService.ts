@@ -0,0 +1,134 @@
+import { Actor, Medication, NotificationBehavior, QueuedReminder, ReminderAction, ReminderActionType } from '../types';
+import { appendDoseEvents, createDoseEvent, getDoseState } from './doseEventService';
+import { checkDoseSafety, DoseSafetyCheck } from './doseSafetyService';
+import { NOTIFICATION_SNOOZE_MINUTES, updateReminderStage } from './reminderService';
+import { getItem, setItem, readStoredCollection } from './storageService';
+import { getMealSchedule, MealSchedule } from './mealService';
+import { getQuantityAfterDose } from './dosageService';
+
+/**
+ * Taken, Snooze and Skip buttons on dose notifications.
+ *
+ * The service worker saves each press with the reminder queue (see reminderQueueStore), checking
+ * the dose is safe to mark first when it can read the app's data. The app records the saved
+ * presses as dose events as soon as it's open and unlocked, checking again against the latest data.
+ */
+
+export interface ReminderActionResult {
+  medications: Medication[];
+  notificationBehaviors: { [medId: string]: NotificationBehavior };
+  error?: string; // Nothing was recorded
+  warnings: string[];
+}
+
+export const createReminderAction = (
+  type: ReminderActionType,
+  reminder: QueuedReminder,
+  now: Date = new Date(),
+  reason?: string
+): ReminderAction => {
+  const action: ReminderAction = {
+    id: `${now.getTime()}-${reminder.id}`,
+    type,
+    reminderId: reminder.id,
+    profileId: reminder.profileId,
+    medicationId: reminder.medicationId!,
+    doseKey: reminder.doseKey!,
+    stage: reminder.stage || 0,
+    recordedAt: now.toISOString(),
+  };
+  if (type === 'snooze') action.snoozeMinutes = NOTIFICATION_SNOOZE_MINUTES;
+  if (type === 'skip' && reason?.trim()) action.reason = reason.trim();
+  return action;
+};
+
+const checkAction = (medications: Medication[], action: ReminderAction, meals?: MealSchedule): DoseSafetyCheck | null => {
+  const med = medications.find(m => m.id === action.medicationId);
+  if (!med || action.type !== 'taken') return null;
+  const [date, time] = action.doseKey.split('T');
+  return checkDoseSafety(med, date, time, 'taken', medications, meals);
+};
+
+/**
+ * Check a press against the stored data, from the service worker. Resolves null when there's
+ * nothing to check or the data is encrypted, in which case the app checks when it records it.
+ */
+export const precheckReminderAction = async (action: ReminderAction): Promise<DoseSafetyCheck | null> => {
+  // Every profile but the active one is kept in profileData
+  const profileData = await readStoredCollection('profileData');
+  const data = profileData?.[action.profileId];
+  const medications = data?.medications || (await readStoredCollection('medications'));
+  if (!medications) return null;
+  const meals = data
+    ? getMealSchedule(data.userPreferences, data.mealLog)
+    : getMealSchedule(await readStoredCollection('userPreferences'), await readStoredCollection('mealLog'));
+  return checkAction(medications, action, meals);
+};
+
+/**
+ * Record a press as a dose event, once it passes the safety check. Snoozes also count towards
+ * the medication's notification behavior, which adaptive reminders learn from.
+ */
+export const applyReminderAction = (
+  medications: Medication[],
+  notificationBehaviors: { [medId: string]: NotificationBehavior },
+  action: ReminderAction,
+  actor?: Actor,
+  meals?: MealSchedule // The active profile's, unless given
+): ReminderActionResult => {
+  const unchanged = { medications, notificationBehaviors, warnings: [] };
+  const med = medications.find(m => m.id === action.medicationId);
+  if (!med) return { ...unchanged, error: 'The medication has been removed.' };
+
+  const safety = checkAction(medications, action, meals);
+  if (safety && !safety.canProceed) return { ...unchanged, error: safety.errors[0] };
+
+  const details = { source: 'notification' as const, actor, recordedAt: action.recordedAt };
+  const oldStatus = getDoseState(med, action.doseKey).status;
+
+  if (action.type === 'snooze') {
+    const behavior: NotificationBehavior = notificationBehaviors[med.id] || {
+      medicationId: med.id,
+      averageResponseTime: 0,
+      snoozeCount: 0,
+      lateDoseCount: 0,
+      adjustedTimes: [],
+    };
+    const event = createDoseEvent(med.id, action.doseKey, 'snoozed', { ...details, snoozeMinutes: action.snoozeMinutes });
+    return {
+      medications: medications.map(m => (m.id === med.id ? appendDoseEvents(m, [event]) : m)),
+      notificationBehaviors: { ...notificationBehaviors, [med.id]: updateReminderStage(behavior, action.stage) },
+      warnings: [],
+    };
+  }
+
+  const status = action.type === 'taken' ? 'taken' : 'skipped';
+  if (oldStatus === status) return unchanged;
+  const event = createDoseEvent(med.id, action.doseKey, status, { ...details, note: action.reason });
+  const quantity = getQuantityAfterDose(med, action.doseKey, oldStatus, status);
+
+  return {
+    medications: medications.map(m => (m.id === med.id ? { ...appendDoseEvents(m, [event]), quantity } : m)),
+    notificationBehaviors,
+    warnings: safety?.warnings || [],
+  };
+};
+
+/**
+ * Record a press for a profile other than the active one
+ */
+export const applyInactiveProfileReminderAction = async (action: ReminderAction, actor?: Actor): Promise<ReminderActionResult> => {
+  const allData = getItem('profileData') || {};
+  const data = allData[action.profileId];
+  if (!data) throw new Error('Profile not found');
+
+  const meals = getMealSchedule(data.userPreferences, data.mealLog);
+  const result = applyReminderAction(data.medications, data.notificationBehaviors || {}, action, actor, meals);
+  if (!result.error) {
+    await setItem('profileData', {
+      ...allData,
+      [action.profileId]: { ...data, medications: result.medications, notificationBehaviors: result.notificationBehaviors },
+    });
+  }
+  return result;
+};
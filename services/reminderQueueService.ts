@@ -0,0 +1,293 @@
+import { Medication, NotificationBehavior, Profile, QueuedReminder, QuietHours, ReminderAction, UserPreferences } from '../types';
+import { calculateReminderStages, calculateSnoozeTime } from './reminderService';
+import { addDays, getScheduledTimesForDate } from './scheduleService';
+import { getDoseState } from './doseEventService';
+import { isPRNMedication } from './prnService';
+import { describeInventory } from './dosageService';
+import { getDoseReminderTitle, getRefillReminderTitle, hasMultipleProfiles, HouseholdMember } from './profileService';
+import { getItem, isStorageEncrypted } from './storageService';
+import { getDoseEscalations, sendEscalation } from './escalationService';
+import { isCriticalMedication } from './missedDoseRecoveryService';
+import { getQuietHours, getQuietHoursEnd, isInQuietHours } from './quietHoursService';
+import { REMINDER_SYNC_TAG, getDoseReminderId, getReminderActions, replaceReminderQueue, showDueReminders } from './reminderQueueStore';
+
+/**
+ * Dose, follow-up and refill reminders, shown by the service worker (sw.ts) so they still arrive
+ * after the app is closed. The app rebuilds the queue from the household's medications whenever
+ * they change; doses already marked simply drop out of it.
+ */
+
+export const REMINDER_WORKER_URL = '/sw.js';
+
+const REMINDER_DAYS_AHEAD = 3; // How far ahead the worker can remind without the app being opened
+const REFILL_REMINDER_TIME = '09:00';
+const PERIODIC_SYNC_MINUTES = 15;
+
+export interface ReminderQueueOptions {
+  now?: Date;
+  getReminderTime?: (medication: Medication, scheduledTime: string, isActive: boolean) => string; // Adaptive timing
+  pendingActions?: ReminderAction[]; // Pressed on notifications but not recorded yet
+}
+
+// The app tells the worker when it changed the queue or to check what's due, and the worker
+// tells the app when notification buttons were pressed or escalations were sent
+export interface ReminderWorkerMessage {
+  type: 'reconcile' | 'check' | 'actions' | 'escalations';
+}
+
+/**
+ * Whether a dose is marked, and until when it's snoozed, counting notification buttons the app
+ * hasn't recorded yet
+ */
+const getReminderDoseState = (med: Medication, profileId: string, doseKey: string, pendingActions: ReminderAction[]) => {
+  const state = getDoseState(med, doseKey);
+  let isMarked = !!state.status;
+  let snoozedUntil = state.snoozedUntil;
+  pendingActions
+    .filter(action => action.profileId === profileId && action.medicationId === med.id && action.doseKey === doseKey)
+    .forEach(action => {
+      if (action.type === 'snooze') {
+        snoozedUntil = calculateSnoozeTime(action.snoozeMinutes || 0, new Date(action.recordedAt)).toISOString();
+      } else {
+        isMarked = true;
+      }
+    });
+  return { isMarked, snoozedUntil };
+};
+
+const getBehavior = (member: HouseholdMember, medicationId: string): NotificationBehavior | undefined => {
+  const behaviors = member.isActive
+    ? getItem('notificationBehaviors')
+    : getItem('profileData')?.[member.profile.id]?.notificationBehaviors;
+  return behaviors?.[medicationId];
+};
+
+const getPreferences = (member: HouseholdMember): UserPreferences | undefined =>
+  member.isActive ? getItem('userPreferences') : getItem('profileData')?.[member.profile.id]?.userPreferences;
+
+/**
+ * When a reminder goes out given quiet hours, and what it says about it. It waits until they end
+ * unless there's a reason to break through.
+ */
+const fitQuietHours = (fireAt: string, quietHours: QuietHours[], breakThroughReason?: string) => {
+  const quietEnd = getQuietHoursEnd(new Date(fireAt), quietHours);
+  if (!quietEnd) return { fireAt, note: '', isHeld: false };
+  if (breakThroughReason) return { fireAt, note: ` ${breakThroughReason}`, isHeld: false };
+  return { fireAt: quietEnd.toISOString(), note: ' Held back during quiet hours.', isHeld: true };
+};
+
+/**
+ * Show reminders held until the same quiet hours ended as one notification
+ */
+const bundleHeldReminders = (reminders: QueuedReminder[], heldIds: Set<string>, hideDetails: boolean): QueuedReminder[] => {
+  const groups = new Map<string, QueuedReminder[]>();
+  reminders.filter(reminder => heldIds.has(reminder.id)).forEach(reminder => {
+    const key = `${reminder.profileId}:${reminder.fireAt}`;
+    groups.set(key, [...(groups.get(key) || []), reminder]);
+  });
+
+  const bundled = new Set<string>();
+  const bundles: QueuedReminder[] = [];
+  groups.forEach((group, key) => {
+    if (group.length < 2) return;
+    group.forEach(reminder => bundled.add(reminder.id));
+    bundles.push({
+      id: `bundle:${key}`,
+      kind: 'bundle',
+      profileId: group[0].profileId,
+      fireAt: group[0].fireAt,
+      title: `PillPal: ${group.length} reminders from quiet hours`,
+      body: hideDetails ? 'Open PillPal to see them.' : group.map(reminder => reminder.title).join('\n'),
+    });
+  });
+  return [...reminders.filter(reminder => !bundled.has(reminder.id)), ...bundles];
+};
+
+// With the app's storage encrypted, the queue, which isn't, says nothing about which medication it is
+const describeDoseReminder = (med: Medication, profile: Profile, time: string, stage: number, hideDetails: boolean) => {
+  const whose = hasMultipleProfiles() ? `${profile.name}'s` : 'your';
+  if (hideDetails) {
+    return stage === 0
+      ? { title: 'PillPal reminder', body: 'A dose is due. Open PillPal to see which.' }
+      : { title: 'PillPal reminder', body: "A dose still isn't marked as taken or skipped." };
+  }
+  if (stage === 0) {
+    return { title: getDoseReminderTitle(med.name, profile), body: `It's time to take ${whose} ${med.dosage} dose.` };
+  }
+  if (stage === 1) {
+    return { title: `Reminder: ${med.name}`, body: `${whose === 'your' ? 'Your' : whose} ${time} dose hasn't been marked yet.` };
+  }
+  return { title: `Did ${whose === 'your' ? 'you' : profile.name} take ${med.name}?`, body: `The ${time} dose still isn't marked as taken or skipped.` };
+};
+
+/**
+ * Every reminder due in the next few days for the household, with escalations to caregivers for
+ * critical doses. Doses already marked, as-needed medications and reminders whose time has passed
+ * are left out. Reminders in a profile's quiet hours wait until they end, except for critical
+ * doses due during them.
+ */
+export const buildReminderQueue = (members: HouseholdMember[], options: ReminderQueueOptions = {}): QueuedReminder[] => {
+  const now = options.now || new Date();
+  const today = now.toISOString().split('T')[0];
+  const hideDetails = isStorageEncrypted();
+  const reminders: QueuedReminder[] = [];
+  const heldIds = new Set<string>();
+
+  members.forEach(member => {
+    const { profile, medications, isActive } = member;
+    const quietHours = getQuietHours(getPreferences(member));
+    medications.forEach(med => {
+      if (!isPRNMedication(med)) {
+        // From yesterday, since today's date is in UTC and the local day may not have started there yet
+        for (let date = addDays(today, -1); date <= addDays(today, REMINDER_DAYS_AHEAD); date = addDays(date, 1)) {
+          getScheduledTimesForDate(med, date).forEach(scheduledTime => {
+            const doseKey = `${date}T${scheduledTime}`;
+            const { isMarked, snoozedUntil } = getReminderDoseState(med, profile.id, doseKey, options.pendingActions || []);
+            if (isMarked) return;
+
+            const reminderTime = options.getReminderTime?.(med, scheduledTime, isActive) || scheduledTime;
+            const stages = calculateReminderStages(med, reminderTime, date, getBehavior(member, med.id));
+            // Only a critical dose that's due in quiet hours breaks through, not one reminded early into them
+            const breakThroughReason = isCriticalMedication(med) && isInQuietHours(scheduledTime, quietHours)
+              ? `Sent during quiet hours because ${hideDetails ? 'it' : med.name} is a critical medication.`
+              : undefined;
+            let heldUntil: string | undefined;
+            stages.forEach(stage => {
+              const { fireAt, note, isHeld } = fitQuietHours(stage.reminderTime, quietHours, breakThroughReason);
+              if (Date.parse(fireAt) <= now.getTime()) return;
+              // Stages that would interrupt a snooze are left out
+              if (snoozedUntil && fireAt < snoozedUntil) return;
+              // Once quiet hours end, the first stage held back stands in for the ones due before then
+              if (heldUntil && fireAt <= heldUntil) return;
+              const id = getDoseReminderId(profile.id, med.id, doseKey, stage.stage);
+              if (isHeld) {
+                heldUntil = fireAt;
+                heldIds.add(id);
+              }
+              const description = describeDoseReminder(med, profile, scheduledTime, stage.stage, hideDetails);
+              reminders.push({
+                id,
+                kind: stage.stage === 0 ? 'dose' : 'followUp',
+                profileId: profile.id,
+                medicationId: med.id,
+                doseKey,
+                stage: stage.stage,
+                fireAt,
+                ...description,
+                body: description.body + note,
+              });
+            });
+
+            // Kept even once due, so one the worker hasn't sent yet isn't lost; late ones are dropped when it checks
+            reminders.push(...getDoseEscalations(med, profile, doseKey, stages[stages.length - 1].reminderTime, hideDetails));
+
+            if (snoozedUntil && Date.parse(snoozedUntil) > now.getTime()) {
+              const { fireAt, note, isHeld } = fitQuietHours(snoozedUntil, quietHours, breakThroughReason);
+              const id = getDoseReminderId(profile.id, med.id, doseKey, 'snooze');
+              if (isHeld) heldIds.add(id);
+              const description = describeDoseReminder(med, profile, scheduledTime, 1, hideDetails);
+              reminders.push({
+                id,
+                kind: 'followUp',
+                profileId: profile.id,
+                medicationId: med.id,
+                doseKey,
+                stage: 1,
+                fireAt,
+                ...description,
+                body: description.body + note,
+              });
+            }
+          });
+        }
+      }
+
+      // Once per low supply for the active profile; other profiles' medications aren't updated
+      // from here, so they're reminded daily until switched to
+      const isLow = med.quantity !== undefined && med.refillThreshold !== undefined && med.quantity <= med.refillThreshold;
+      if (isLow && !(isActive && med.refillNotified)) {
+        let date = today;
+        if (new Date(`${date}T${REFILL_REMINDER_TIME}`).getTime() <= now.getTime()) date = addDays(date, 1);
+        const id = `refill:${profile.id}:${med.id}:${date}`;
+        // Not bundled, since whether it went out is what stops it being repeated
+        const { fireAt, note } = fitQuietHours(new Date(`${date}T${REFILL_REMINDER_TIME}`).toISOString(), quietHours);
+        reminders.push({
+          id,
+          kind: 'refill',
+          profileId: profile.id,
+          medicationId: med.id,
+          fireAt,
+          ...(hideDetails
+            ? { title: 'PillPal reminder', body: `A medication is running low. Open PillPal to see which.${note}` }
+            : { title: getRefillReminderTitle(med.name, profile), body: `You have ${describeInventory(med)} left. Time to get a refill.${note}` }),
+        });
+      }
+    });
+  });
+
+  return bundleHeldReminders(reminders, heldIds, hideDetails).sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+};
+
+const postToWorker = async (message: ReminderWorkerMessage): Promise<boolean> => {
+  const registration = await navigator.serviceWorker?.getRegistration(REMINDER_WORKER_URL);
+  const worker = registration?.active;
+  worker?.postMessage(message);
+  return !!worker;
+};
+
+/**
+ * Rebuild the queue and have the worker pick up the changes. Returns the saved queue.
+ */
+export const reconcileReminders = async (members: HouseholdMember[], options: ReminderQueueOptions = {}): Promise<QueuedReminder[]> => {
+  const pendingActions = options.pendingActions || (await getReminderActions());
+  const queue = await replaceReminderQueue(buildReminderQueue(members, { ...options, pendingActions }));
+  await postToWorker({ type: 'reconcile' });
+  return queue;
+};
+
+/**
+ * Medications of the active profile whose refill reminder has gone out
+ */
+export const getSentRefillReminders = (queue: QueuedReminder[], profileId: string): string[] =>
+  queue.filter(reminder => reminder.kind === 'refill' && reminder.profileId === profileId && reminder.firedAt).map(reminder => reminder.medicationId!);
+
+/**
+ * Show whatever is due, and send due escalations. The worker does it when it's running; without
+ * one, the open page does.
+ */
+export const checkReminders = async (): Promise<void> => {
+  if (await postToWorker({ type: 'check' })) return;
+  const canNotify = 'Notification' in window && Notification.permission === 'granted';
+  await showDueReminders(reminder => {
+    if (reminder.kind === 'escalation') return sendEscalation(reminder);
+    if (canNotify) new Notification(reminder.title, { body: reminder.body, tag: reminder.id, icon: '/favicon.ico' });
+  });
+};
+
+/**
+ * Call back whenever the worker sends a message of a type. Returns a function that stops listening.
+ */
+export const onReminderWorkerMessage = (type: ReminderWorkerMessage['type'], callback: () => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => undefined;
+  const listener = (event: MessageEvent<ReminderWorkerMessage>) => {
+    if (event.data?.type === type) callback();
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+/**
+ * Install the reminder worker, and where the browser allows it, have it woken regularly while the app is closed
+ */
+export const registerReminderWorker = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.register(REMINDER_WORKER_URL, { type: 'module' });
+
+  const periodicSync = (registration as any).periodicSync;
+  if (!periodicSync) return;
+  try {
+    await periodicSync.register(REMINDER_SYNC_TAG, { minInterval: PERIODIC_SYNC_MINUTES * 60 * 1000 });
+  } catch {
+    // Only allowed for installed apps; reminders then rely on the app being opened now and then
+  }
+};
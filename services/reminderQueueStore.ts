@@ -0,0 +1,182 @@
+import { Escalation, QueuedReminder, ReminderAction } from '../types';
+
+/**
+ * The reminder queue, kept in its own IndexedDB database so the service worker can read it
+ * without the app's storage, which may be locked behind the PIN. The app rebuilds the queue
+ * whenever medications change (see reminderQueueService); the worker shows what's due.
+ *
+ * Buttons pressed on dose notifications, and escalations sent to caregivers, wait here too until
+ * the app records them.
+ */
+
+export const REMINDER_SYNC_TAG = 'pillpal-reminders'; // Periodic background sync that wakes the worker
+
+const DB_NAME = 'pillpal-reminders';
+const DB_VERSION = 3;
+const STORE_NAME = 'reminders';
+const ACTIONS_STORE_NAME = 'actions';
+const ESCALATIONS_STORE_NAME = 'escalations';
+const STALE_AFTER_MINUTES = 60; // Later than this, a reminder is dropped rather than shown
+const ESCALATION_STALE_AFTER_MINUTES = 12 * 60; // A caregiver still wants to know about a critical dose hours later
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      [STORE_NAME, ACTIONS_STORE_NAME, ESCALATIONS_STORE_NAME].forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readAll = <T = QueuedReminder>(store: IDBObjectStore): Promise<T[]> => {
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run work in one transaction and wait for it to commit
+ */
+const withTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    const transaction = database.transaction(storeNames, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const result = await work(transaction);
+    await committed;
+    return result;
+  } finally {
+    database.close();
+  }
+};
+
+const withStore = <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => Promise<T>): Promise<T> =>
+  withTransaction([STORE_NAME], mode, transaction => work(transaction.objectStore(STORE_NAME)));
+
+// Every reminder id of a dose starts with this
+export const getDoseReminderPrefix = (profileId: string, medicationId: string, doseKey: string): string =>
+  `dose:${profileId}:${medicationId}:${doseKey}:`;
+
+/**
+ * The id of a dose's reminder at a stage, or of the one that comes back after it's snoozed
+ */
+export const getDoseReminderId = (profileId: string, medicationId: string, doseKey: string, stage: number | 'snooze'): string =>
+  `${getDoseReminderPrefix(profileId, medicationId, doseKey)}${stage}`;
+
+const isForDose = (reminder: QueuedReminder, action: ReminderAction): boolean =>
+  reminder.profileId === action.profileId && reminder.medicationId === action.medicationId && reminder.doseKey === action.doseKey;
+
+export const getReminderQueue = (): Promise<QueuedReminder[]> => withStore('readonly', readAll);
+
+/**
+ * Replace the queue. Reminders that are still queued for the same time keep their firedAt, so
+ * nothing is shown twice. Returns the saved queue.
+ */
+export const replaceReminderQueue = (reminders: QueuedReminder[]): Promise<QueuedReminder[]> => {
+  return withStore('readwrite', async store => {
+    const previous = new Map((await readAll(store)).map(reminder => [reminder.id, reminder]));
+    store.clear();
+    return reminders.map(reminder => {
+      const existing = previous.get(reminder.id);
+      const saved = existing?.firedAt && existing.fireAt === reminder.fireAt ? { ...reminder, firedAt: existing.firedAt } : reminder;
+      store.put(saved);
+      return saved;
+    });
+  });
+};
+
+export const markRemindersFired = (ids: string[], firedAt: string = new Date().toISOString()): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return withStore('readwrite', async store => {
+    (await readAll(store))
+      .filter(reminder => ids.includes(reminder.id))
+      .forEach(reminder => store.put({ ...reminder, firedAt }));
+  });
+};
+
+/**
+ * Show (or for escalations, send) every reminder that's due and hasn't gone out yet. Reminders
+ * that are too late to be useful are marked as done without being shown. Returns how many were shown.
+ */
+export const showDueReminders = async (
+  show: (reminder: QueuedReminder) => Promise<void> | void,
+  now: Date = new Date()
+): Promise<number> => {
+  // Marked in the same transaction they're read in, so a check running alongside can't show them again
+  const due = await withStore('readwrite', async store => {
+    const reminders = (await readAll(store)).filter(reminder => !reminder.firedAt && Date.parse(reminder.fireAt) <= now.getTime());
+    reminders.forEach(reminder => store.put({ ...reminder, firedAt: now.toISOString() }));
+    return reminders;
+  });
+
+  const fresh = due.filter(reminder => {
+    const staleAfter = reminder.kind === 'escalation' ? ESCALATION_STALE_AFTER_MINUTES : STALE_AFTER_MINUTES;
+    return Date.parse(reminder.fireAt) >= now.getTime() - staleAfter * 60 * 1000;
+  });
+  await Promise.all(fresh.map(reminder => show(reminder)));
+  return fresh.length;
+};
+
+/**
+ * Save a button pressed on a dose notification and update the dose's reminders to match: none
+ * once it's taken or skipped, and when snoozed, only the snoozed one and those after it
+ */
+export const addReminderAction = (action: ReminderAction, snoozed?: QueuedReminder): Promise<void> => {
+  return withTransaction([STORE_NAME, ACTIONS_STORE_NAME], 'readwrite', async transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    transaction.objectStore(ACTIONS_STORE_NAME).put(action);
+    (await readAll(store))
+      .filter(reminder => isForDose(reminder, action) && (!snoozed || reminder.fireAt < snoozed.fireAt))
+      .forEach(reminder => store.delete(reminder.id));
+    if (snoozed) store.put(snoozed);
+  });
+};
+
+/**
+ * Buttons pressed on notifications that the app hasn't recorded yet, oldest first
+ */
+export const getReminderActions = async (): Promise<ReminderAction[]> => {
+  const actions = await withTransaction([ACTIONS_STORE_NAME], 'readonly', transaction => readAll<ReminderAction>(transaction.objectStore(ACTIONS_STORE_NAME)));
+  return actions.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+};
+
+export const removeReminderActions = (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return withTransaction([ACTIONS_STORE_NAME], 'readwrite', async transaction => {
+    ids.forEach(id => transaction.objectStore(ACTIONS_STORE_NAME).delete(id));
+  });
+};
+
+export const addSentEscalation = (escalation: Escalation): Promise<void> =>
+  withTransaction([ESCALATIONS_STORE_NAME], 'readwrite', async transaction => {
+    transaction.objectStore(ESCALATIONS_STORE_NAME).put(escalation);
+  });
+
+/**
+ * Escalations sent that the app hasn't recorded yet
+ */
+export const getSentEscalations = (): Promise<Escalation[]> =>
+  withTransaction([ESCALATIONS_STORE_NAME], 'readonly', transaction => readAll<Escalation>(transaction.objectStore(ESCALATIONS_STORE_NAME)));
+
+export const removeSentEscalations = (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return withTransaction([ESCALATIONS_STORE_NAME], 'readwrite', async transaction => {
+    ids.forEach(id => transaction.objectStore(ESCALATIONS_STORE_NAME).delete(id));
+  });
+};
@@ -1,4 +1,5 @@
-import { Medication, NotificationBehavior, DoseStatus } from '../types';
+import { Medication, NotificationBehavior, DoseStatus, ReminderActionType } from '../types';
+import { getDoseStatus } from './doseEventService';
 
 export interface ReminderStage {
   stage: number; // 0 = first, 1 = follow-up, 2 = check-in
@@ -61,7 +62,7 @@ export const shouldSendReminder = (
   reminderStage: number
 ): boolean => {
   const dateTimeKey = `${date}T${time}`;
-  const status = medication.doseStatus?.[dateTimeKey];
+  const status = getDoseStatus(medication, dateTimeKey);
   
   // Don't send if already taken or skipped
   if (status === 'taken' || status === 'skipped') {
@@ -86,13 +87,34 @@ export const getSnoozeOptions = (): { label: string; minutes: number }[] => {
   ];
 };
 
+export const NOTIFICATION_SNOOZE_MINUTES = 10;
+
+export interface NotificationAction {
+  action: ReminderActionType;
+  title: string;
+  type?: 'text'; // Lets the person type a reply, where the browser supports it
+  placeholder?: string;
+}
+
+/**
+ * Buttons on dose notifications. Browsers show as many as they have room for, in this order.
+ */
+export const getNotificationActions = (): NotificationAction[] => {
+  const snooze = getSnoozeOptions().find(option => option.minutes === NOTIFICATION_SNOOZE_MINUTES)!;
+  return [
+    { action: 'taken', title: 'Taken' },
+    { action: 'snooze', title: `Snooze ${snooze.label}` },
+    { action: 'skip', title: 'Skip', type: 'text', placeholder: 'Why? (optional)' },
+  ];
+};
+
 /**
  * Calculate next reminder time after snooze
  */
-export const calculateSnoozeTime = (snoozeMinutes: number): Date => {
-  const now = new Date();
-  now.setMinutes(now.getMinutes() + snoozeMinutes);
-  return now;
+export const calculateSnoozeTime = (snoozeMinutes: number, from: Date = new Date()): Date => {
+  const time = new Date(from);
+  time.setMinutes(time.getMinutes() + snoozeMinutes);
+  return time;
 };
 
 /**
@@ -0,0 +1,215 @@
+import { Medication, RecurrenceRule } from '../types';
+
+export interface ScheduledDose {
+  date: string; // ISO date 'YYYY-MM-DD'
+  time: string; // HH:mm
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Whole days from one ISO date to another (computed in UTC so DST never shifts the count)
+ */
+export const daysBetween = (fromDate: string, toDate: string): number => {
+  const from = Date.parse(`${fromDate}T00:00:00Z`);
+  const to = Date.parse(`${toDate}T00:00:00Z`);
+  return Math.round((to - from) / (1000 * 60 * 60 * 24));
+};
+
+/**
+ * Add a number of days to an ISO date
+ */
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+/**
+ * Minutes since midnight for an HH:mm time
+ */
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTimeString = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const mins = Math.round(totalMinutes % 60);
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Spread a number of tablets evenly over waking hours (08:00 to 22:00)
+ */
+export const generateTimesForTablets = (numTablets: number): string[] => {
+  if (numTablets <= 0) return [];
+
+  const startHour = 8;
+  const endHour = 22;
+  const totalMinutes = (endHour - startHour) * 60;
+  const interval = numTablets > 1 ? totalMinutes / (numTablets - 1) : 0;
+
+  const times: string[] = [];
+  for (let i = 0; i < numTablets; i++) {
+    times.push(toTimeString(startHour * 60 + i * interval));
+  }
+  return times;
+};
+
+/**
+ * Get the tablet count for a tapering day, or null if the medication doesn't taper
+ */
+export const getTaperingTabletsForDate = (medication: Medication, date: string): number | null => {
+  if (!medication.taperingSchedule || !medication.startDate) return null;
+
+  const dayNumber = daysBetween(medication.startDate, date) + 1; // Day 1 is the start date
+  const scheduleEntry = medication.taperingSchedule.find(s => s.day === dayNumber);
+  return scheduleEntry ? scheduleEntry.tablets : 0;
+};
+
+/**
+ * Split a tapering day's tablets into doses, or null if the medication doesn't taper. A dose of
+ * several tablets or capsules takes them together, so the last dose of the day may be smaller;
+ * otherwise each tablet is a dose of its own.
+ */
+export const getTaperingDoseAmounts = (medication: Medication, date: string): number[] | null => {
+  const tablets = getTaperingTabletsForDate(medication, date);
+  if (tablets === null) return null;
+
+  const dose = medication.dose;
+  const perDose = dose && (dose.unit === 'tablet' || dose.unit === 'capsule') && dose.amount > 0 ? dose.amount : 1;
+  const amounts: number[] = [];
+  for (let left = tablets; left > 0; left -= perDose) {
+    amounts.push(Math.min(perDose, left));
+  }
+  return amounts;
+};
+
+/**
+ * Get the anchor date a rule counts from
+ */
+const getRuleStartDate = (medication: Medication): string | undefined => {
+  return medication.recurrence?.startDate || medication.startDate;
+};
+
+/**
+ * Check whether a recurrence rule has a dose day on the given date
+ */
+export const isScheduledOn = (medication: Medication, date: string): boolean => {
+  const rule = medication.recurrence;
+  if (!rule) return true;
+
+  const startDate = getRuleStartDate(medication);
+  if (startDate && date < startDate) return false;
+  if (rule.endDate && date > rule.endDate) return false;
+
+  // Rules that count days need an anchor; without one fall back to every day
+  const dayOffset = startDate ? daysBetween(startDate, date) : 0;
+
+  switch (rule.type) {
+    case 'interval': {
+      const intervalDays = Math.max(1, rule.intervalDays || 1);
+      return dayOffset % intervalDays === 0;
+    }
+    case 'weekly': {
+      if (!rule.weekdays || rule.weekdays.length === 0) return true;
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      return rule.weekdays.includes(weekday);
+    }
+    case 'cycle': {
+      const onDays = Math.max(1, rule.cycleOnDays || 1);
+      const offDays = Math.max(0, rule.cycleOffDays || 0);
+      return dayOffset % (onDays + offDays) < onDays;
+    }
+    case 'hourly':
+    case 'daily':
+    default:
+      return true;
+  }
+};
+
+/**
+ * Get the times of an every-N-hours rule that fall on a date, continuing across midnight
+ */
+const getHourlyTimesForDate = (rule: RecurrenceRule, startDate: string | undefined, date: string): string[] => {
+  const intervalMinutes = Math.max(1, rule.intervalHours || 24) * 60;
+  const firstDoseMinutes = toMinutes(rule.firstDoseTime || '08:00');
+  const dayStart = (startDate ? daysBetween(startDate, date) : 0) * MINUTES_PER_DAY;
+  const dayEnd = dayStart + MINUTES_PER_DAY;
+
+  const firstIndex = Math.max(0, Math.ceil((dayStart - firstDoseMinutes) / intervalMinutes));
+  const times: string[] = [];
+  for (let m = firstDoseMinutes + firstIndex * intervalMinutes; m < dayEnd; m += intervalMinutes) {
+    times.push(toTimeString(m - dayStart));
+  }
+  return times;
+};
+
+/**
+ * Get the dose times scheduled for a medication on a given date.
+ * This is the single place that decides which days and times a medication is due.
+ */
+export const getScheduledTimesForDate = (medication: Medication, date: string): string[] => {
+  // Tapering schedules define their own tablet count per day
+  const taperingAmounts = getTaperingDoseAmounts(medication, date);
+  if (taperingAmounts !== null) {
+    return generateTimesForTablets(taperingAmounts.length);
+  }
+
+  const rule = medication.recurrence;
+  if (!rule) return medication.times;
+  if (!isScheduledOn(medication, date)) return [];
+
+  if (rule.type === 'hourly') {
+    return getHourlyTimesForDate(rule, getRuleStartDate(medication), date);
+  }
+
+  return medication.times;
+};
+
+/**
+ * Expand a medication's schedule into concrete doses between two dates (inclusive)
+ */
+export const expandSchedule = (medication: Medication, fromDate: string, toDate: string): ScheduledDose[] => {
+  const doses: ScheduledDose[] = [];
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    getScheduledTimesForDate(medication, date).forEach(time => {
+      doses.push({ date, time });
+    });
+  }
+  return doses;
+};
+
+/**
+ * Describe a recurrence rule in plain words
+ */
+export const describeRecurrence = (rule?: RecurrenceRule): string => {
+  if (!rule) return 'Every day';
+
+  let description: string;
+  switch (rule.type) {
+    case 'interval':
+      description = (rule.intervalDays || 1) === 2 ? 'Every other day' : `Every ${rule.intervalDays || 1} days`;
+      break;
+    case 'weekly':
+      description = rule.weekdays && rule.weekdays.length > 0
+        ? [...rule.weekdays].sort().map(d => DAY_NAMES[d]).join('/')
+        : 'Every day';
+      break;
+    case 'cycle':
+      description = `${rule.cycleOnDays || 1} days on, ${rule.cycleOffDays || 0} days off`;
+      break;
+    case 'hourly':
+      description = `Every ${rule.intervalHours || 24} hours from ${rule.firstDoseTime || '08:00'}`;
+      break;
+    default:
+      description = 'Every day';
+  }
+
+  if (rule.endDate) {
+    description += ` until ${new Date(`${rule.endDate}T00:00:00`).toLocaleDateString()}`;
+  }
+  return description;
+};
@@ -0,0 +1,594 @@
+import {
+  Medication,
+  UserPreferences,
+  SymptomEntry,
+  AppSecurity,
+  MedicationEducation,
+  EmergencyInfo,
+  TravelInfo,
+  PRNConfig,
+  Caregiver,
+  NotificationBehavior,
+  Profile,
+  MealEvent,
+  ProfileData,
+  SyncSettings,
+  SyncedRecordState,
+  SyncConflict,
+  EscalationSettings,
+  Escalation,
+} from '../types';
+import { AuditLogEntry } from './auditLogService';
+import { migrateMedications } from './doseEventService';
+import { migrateDoses } from './dosageService';
+import {
+  deriveKey,
+  encryptText,
+  decryptText,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  randomBytes,
+  toBase64,
+  fromBase64,
+  SALT_BYTES,
+  PBKDF2_HASH,
+  DEFAULT_PBKDF2_ITERATIONS,
+} from './cryptoService';
+
+/**
+ * Persistent app storage backed by IndexedDB.
+ *
+ * Every collection is loaded into memory by initStorage() before the app renders, so reads are
+ * synchronous. Writes update memory immediately and are persisted in the background.
+ *
+ * When the app is locked with a PIN, health data is encrypted at rest with a random data key.
+ * The data key is stored wrapped by a key derived from the PIN, so changing the PIN only re-wraps
+ * it. Encrypted collections stay out of memory until unlockStorage() is given the PIN.
+ */
+
+export interface StorageCollections {
+  medications: Medication[];
+  userPreferences: UserPreferences;
+  symptomEntries: SymptomEntry[];
+  appSecurity: AppSecurity;
+  medicationEducations: { [medId: string]: MedicationEducation };
+  emergencyInfo: EmergencyInfo;
+  travelInfo: TravelInfo;
+  prnConfigs: { [medId: string]: PRNConfig };
+  caregivers: Caregiver[];
+  auditLogs: AuditLogEntry[];
+  auditLogArchive: AuditLogEntry[]; // Older entries rotated out of auditLogs
+  notificationBehaviors: { [medId: string]: NotificationBehavior };
+  lastSyncTime: string;
+  hasSeenOnboarding: boolean;
+  profiles: Profile[];
+  activeProfileId: string;
+  profileData: { [profileId: string]: ProfileData }; // Every profile but the active one
+  syncSettings: SyncSettings;
+  syncSnapshot: { [recordKey: string]: SyncedRecordState };
+  syncClock: string; // Latest logical clock this device made or saw
+  syncConflicts: SyncConflict[];
+  escalationSettings: EscalationSettings;
+  escalations: Escalation[]; // Synced, so caregivers see the ones sent to their inbox
+  mealLog: MealEvent[];
+}
+
+export type CollectionName = keyof StorageCollections;
+
+export interface StorageKeyring {
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: string; iterations: number; salt: string };
+  iv: string;
+  wrappedKey: string; // Data key encrypted with the PIN-derived key
+}
+
+interface EncryptedRecord {
+  encrypted: 'AES-GCM';
+  iv: string;
+  ciphertext: string;
+}
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (data: Partial<StorageCollections>) => Partial<StorageCollections>; // Returns the collections it changed
+  afterCommit?: () => void; // Runs once the migrated data is safely stored
+}
+
+const DB_NAME = 'pillpal';
+const DB_VERSION = 1; // Object store layout; data changes are handled by the migrations below
+const STORE_NAME = 'collections';
+const SCHEMA_VERSION_KEY = '__schemaVersion';
+const KEYRING_KEY = '__keyring';
+const KEYRING_VERSION = 1;
+
+// Bump this and append a migration below whenever stored data changes shape
+export const SCHEMA_VERSION = 3;
+
+// Collections kept in localStorage under the same key, by earlier versions or by the fallback
+const LEGACY_KEYS: CollectionName[] = [
+  'medications',
+  'userPreferences',
+  'symptomEntries',
+  'appSecurity',
+  'medicationEducations',
+  'emergencyInfo',
+  'travelInfo',
+  'prnConfigs',
+  'caregivers',
+  'auditLogs',
+  'notificationBehaviors',
+  'lastSyncTime',
+  'hasSeenOnboarding',
+];
+const LEGACY_BEHAVIOR_PREFIX = 'notificationBehavior_';
+
+// Collections added since, which only the localStorage fallback keeps there
+const FALLBACK_KEYS: CollectionName[] = [
+  'auditLogArchive',
+  'profiles',
+  'activeProfileId',
+  'profileData',
+  'syncSettings',
+  'syncSnapshot',
+  'syncClock',
+  'syncConflicts',
+  'escalationSettings',
+  'escalations',
+  'mealLog',
+];
+
+// Collections holding health or personal data, encrypted at rest while a PIN is set.
+// Settings needed to show the lock screen stay readable.
+const ENCRYPTED_COLLECTIONS: CollectionName[] = [
+  'medications',
+  'symptomEntries',
+  'emergencyInfo',
+  'medicationEducations',
+  'prnConfigs',
+  'travelInfo',
+  'caregivers',
+  'auditLogs',
+  'auditLogArchive',
+  'notificationBehaviors',
+  'profiles',
+  'profileData',
+  'syncSettings',
+  'syncConflicts',
+  'escalationSettings',
+  'escalations',
+  'mealLog',
+];
+
+let cache: Partial<StorageCollections> = {};
+let db: IDBDatabase | null = null;
+let initPromise: Promise<void> | null = null;
+let keyring: StorageKeyring | null = null;
+let dataKey: CryptoKey | null = null;
+let lockedRecords: { [name: string]: EncryptedRecord } = {}; // Encrypted collections not yet decrypted
+let pendingMigrationVersion: number | null = null; // Migrations wait until encrypted data is unlocked
+let writeQueue: Promise<void> = Promise.resolve();
+
+const isEncryptedRecord = (value: any): value is EncryptedRecord => {
+  return !!value && typeof value === 'object' && value.encrypted === 'AES-GCM' && typeof value.ciphertext === 'string';
+};
+
+/**
+ * Read the collections earlier versions kept in localStorage
+ */
+const readLegacyLocalStorage = (): Partial<StorageCollections> => {
+  const data: { [name: string]: any } = {};
+
+  [...LEGACY_KEYS, ...FALLBACK_KEYS].forEach(key => {
+    const saved = localStorage.getItem(key);
+    if (saved === null) return;
+    try {
+      data[key] = JSON.parse(saved);
+    } catch {
+      // lastSyncTime was saved as a bare string
+      if (key === 'lastSyncTime') data[key] = saved;
+      else console.error(`Skipping unreadable localStorage key "${key}"`);
+    }
+  });
+
+  const behaviors: { [medId: string]: NotificationBehavior } = {};
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(LEGACY_BEHAVIOR_PREFIX))
+    .forEach(key => {
+      const medicationId = key.slice(LEGACY_BEHAVIOR_PREFIX.length);
+      try {
+        behaviors[medicationId] = { ...JSON.parse(localStorage.getItem(key) || '{}'), medicationId };
+      } catch {
+        console.error(`Skipping unreadable localStorage key "${key}"`);
+      }
+    });
+  if (Object.keys(behaviors).length > 0) {
+    data.notificationBehaviors = { ...(data.notificationBehaviors || {}), ...behaviors };
+  }
+
+  return data as Partial<StorageCollections>;
+};
+
+/**
+ * Remove the localStorage keys that have been imported into IndexedDB
+ */
+const clearLegacyLocalStorage = (): void => {
+  LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(LEGACY_BEHAVIOR_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Data migrations, applied in order. Each runs once, when upgrading from an older schema version.
+ */
+const migrations: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Import data saved in localStorage by earlier versions',
+    migrate: () => readLegacyLocalStorage(),
+    afterCommit: clearLegacyLocalStorage,
+  },
+  {
+    version: 2,
+    description: 'Convert doseStatus maps into dose events',
+    migrate: data => (data.medications ? { medications: migrateMedications(data.medications) } : {}),
+  },
+  {
+    version: 3,
+    description: 'Parse structured doses from dosage text',
+    migrate: data => ({
+      ...(data.medications ? { medications: migrateDoses(data.medications) } : {}),
+      ...(data.profileData
+        ? {
+            profileData: Object.fromEntries(
+              Object.entries(data.profileData).map(([profileId, profile]) => [profileId, { ...profile, medications: migrateDoses(profile.medications) }])
+            ),
+          }
+        : {}),
+    }),
+  },
+];
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        database.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readAllRecords = (database: IDBDatabase): Promise<{ [key: string]: any }> => {
+  return new Promise((resolve, reject) => {
+    const data: { [name: string]: any } = {};
+    const request = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        data[cursor.key as string] = cursor.value;
+        cursor.continue();
+      } else {
+        resolve(data);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Encrypt a collection for storage. The collection name is authenticated so records can't be swapped.
+ */
+const encryptRecord = async (key: CryptoKey, name: string, value: any): Promise<EncryptedRecord> => {
+  const { iv, ciphertext } = await encryptText(key, JSON.stringify(value), name);
+  return { encrypted: 'AES-GCM', iv, ciphertext };
+};
+
+const decryptRecord = async (key: CryptoKey, name: string, record: EncryptedRecord): Promise<any> => {
+  return JSON.parse(await decryptText(key, record.iv, record.ciphertext, name));
+};
+
+/**
+ * Persist collections in a single transaction. Undefined values delete the collection.
+ * A migration passes its version so the data and the version bump are committed together, and
+ * encryption changes pass the keyring (null to remove it) with the re-encoded data.
+ * Writes are queued so they land in the order they were made.
+ */
+const persistCollections = (
+  changes: Partial<StorageCollections>,
+  options: { schemaVersion?: number; keyring?: StorageKeyring | null } = {}
+): Promise<void> => {
+  const key = dataKey; // The key in use when the write was made
+  const write = writeQueue.then(async () => {
+    const entries = await Promise.all(
+      Object.entries(changes).map(async ([name, value]): Promise<[string, any]> => [
+        name,
+        key && value !== undefined && ENCRYPTED_COLLECTIONS.includes(name as CollectionName)
+          ? await encryptRecord(key, name, value)
+          : value,
+      ])
+    );
+    if (entries.length === 0 && options.schemaVersion === undefined && options.keyring === undefined) return;
+
+    // Without IndexedDB, fall back to localStorage
+    if (!db) {
+      entries.forEach(([name, value]) => {
+        if (value === undefined) localStorage.removeItem(name);
+        else localStorage.setItem(name, JSON.stringify(value));
+      });
+      if (options.keyring === null) localStorage.removeItem(KEYRING_KEY);
+      else if (options.keyring) localStorage.setItem(KEYRING_KEY, JSON.stringify(options.keyring));
+      return;
+    }
+
+    const database = db;
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      entries.forEach(([name, value]) => {
+        if (value === undefined) store.delete(name);
+        else store.put(value, name);
+      });
+      if (options.schemaVersion !== undefined) store.put(options.schemaVersion, SCHEMA_VERSION_KEY);
+      if (options.keyring === null) store.delete(KEYRING_KEY);
+      else if (options.keyring) store.put(options.keyring, KEYRING_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  });
+
+  // A failed write shouldn't block the ones after it
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+/**
+ * Apply every migration newer than the stored schema version
+ */
+const runMigrations = async (fromVersion: number): Promise<void> => {
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+
+    const changes = migration.migrate({ ...cache });
+    cache = { ...cache, ...changes };
+    await persistCollections(changes, { schemaVersion: migration.version });
+    if (db && migration.afterCommit) migration.afterCommit();
+  }
+};
+
+const runMigrationsSafely = async (fromVersion: number): Promise<void> => {
+  try {
+    await runMigrations(fromVersion);
+  } catch (error) {
+    // The migrated data stays in memory; the migration is retried on the next load
+    console.error('Storage migration failed', error);
+  }
+};
+
+/**
+ * Open the database, run pending migrations and load every collection into memory.
+ * Must finish before anything reads from storage; safe to call more than once.
+ */
+export const initStorage = (): Promise<void> => {
+  if (!initPromise) {
+    initPromise = (async () => {
+      let storedVersion = 0;
+      let records: { [name: string]: any } = {};
+      try {
+        db = await openDatabase();
+        const { [SCHEMA_VERSION_KEY]: version, [KEYRING_KEY]: savedKeyring, ...collections } = await readAllRecords(db);
+        records = collections;
+        keyring = savedKeyring || null;
+        storedVersion = version || 0;
+      } catch (error) {
+        // Without IndexedDB every load starts from the localStorage copy, which is what
+        // the first migration would import
+        console.error('IndexedDB is unavailable, falling back to localStorage', error);
+        db = null;
+        records = readLegacyLocalStorage();
+        const savedKeyring = localStorage.getItem(KEYRING_KEY);
+        keyring = savedKeyring ? JSON.parse(savedKeyring) : null;
+        storedVersion = 1;
+      }
+
+      cache = {};
+      lockedRecords = {};
+      Object.entries(records).forEach(([name, value]) => {
+        if (isEncryptedRecord(value)) lockedRecords[name] = value;
+        else (cache as any)[name] = value;
+      });
+
+      if (keyring) {
+        pendingMigrationVersion = storedVersion;
+        return;
+      }
+      await runMigrationsSafely(storedVersion);
+    })();
+  }
+  return initPromise;
+};
+
+/**
+ * Whether stored data is encrypted behind a PIN
+ */
+export const isStorageEncrypted = (): boolean => keyring !== null;
+
+/**
+ * Whether encrypted data is still waiting for the PIN. Nothing should read or write
+ * app data until unlockStorage() succeeds.
+ */
+export const isStorageLocked = (): boolean => keyring !== null && dataKey === null;
+
+const createKeyring = async (key: CryptoKey, pin: string): Promise<StorageKeyring> => {
+  const salt = randomBytes(SALT_BYTES);
+  const pinKey = await deriveKey(pin, salt, DEFAULT_PBKDF2_ITERATIONS);
+  const { iv, ciphertext } = await wrapDataKey(key, pinKey);
+  return {
+    version: KEYRING_VERSION,
+    kdf: { name: 'PBKDF2', hash: PBKDF2_HASH, iterations: DEFAULT_PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    iv,
+    wrappedKey: ciphertext,
+  };
+};
+
+const getEncryptedCollections = (): Partial<StorageCollections> => {
+  const collections: { [name: string]: any } = {};
+  ENCRYPTED_COLLECTIONS.forEach(name => {
+    if (cache[name] !== undefined) collections[name] = cache[name];
+  });
+  return collections as Partial<StorageCollections>;
+};
+
+/**
+ * Decrypt stored data with the PIN and load it into memory.
+ * Resolves false if the PIN can't unwrap the data key.
+ */
+export const unlockStorage = async (pin: string): Promise<boolean> => {
+  if (!keyring || dataKey) return true;
+
+  let key: CryptoKey;
+  try {
+    const pinKey = await deriveKey(pin, fromBase64(keyring.kdf.salt), keyring.kdf.iterations);
+    key = await unwrapDataKey(keyring.iv, keyring.wrappedKey, pinKey);
+  } catch {
+    return false;
+  }
+
+  const decrypted: { [name: string]: any } = {};
+  for (const [name, record] of Object.entries(lockedRecords)) {
+    decrypted[name] = await decryptRecord(key, name, record);
+  }
+  dataKey = key;
+  cache = { ...cache, ...decrypted };
+  lockedRecords = {};
+
+  if (pendingMigrationVersion !== null) {
+    const fromVersion = pendingMigrationVersion;
+    pendingMigrationVersion = null;
+    await runMigrationsSafely(fromVersion);
+  }
+  return true;
+};
+
+/**
+ * Start encrypting stored health data with a key protected by the PIN
+ */
+export const enableStorageEncryption = async (pin: string): Promise<void> => {
+  if (keyring) return changeStoragePin(pin);
+
+  const key = await generateDataKey();
+  const newKeyring = await createKeyring(key, pin);
+  dataKey = key;
+  keyring = newKeyring;
+  await persistCollections(getEncryptedCollections(), { keyring: newKeyring });
+};
+
+/**
+ * Re-wrap the data key with a new PIN. The data itself doesn't need re-encrypting.
+ */
+export const changeStoragePin = async (newPin: string): Promise<void> => {
+  if (!dataKey) throw new Error('Storage must be unlocked before changing the PIN');
+
+  const newKeyring = await createKeyring(dataKey, newPin);
+  keyring = newKeyring;
+  await persistCollections({}, { keyring: newKeyring });
+};
+
+/**
+ * Store health data unencrypted again, e.g., when the PIN lock is turned off
+ */
+export const disableStorageEncryption = async (): Promise<void> => {
+  if (!keyring) return;
+  if (!dataKey) throw new Error('Storage must be unlocked before turning off encryption');
+
+  dataKey = null;
+  keyring = null;
+  await persistCollections(getEncryptedCollections(), { keyring: null });
+};
+
+/**
+ * Delete every collection and the keyring, so nothing is left behind to read, encrypted or not
+ */
+export const clearStorage = async (): Promise<void> => {
+  const names = [...LEGACY_KEYS, ...FALLBACK_KEYS];
+  cache = {};
+  lockedRecords = {};
+  dataKey = null;
+  keyring = null;
+  await persistCollections(Object.fromEntries(names.map(name => [name, undefined])), { keyring: null });
+};
+
+/**
+ * Read a collection
+ */
+export const getItem = <K extends CollectionName>(name: K): StorageCollections[K] | undefined => {
+  return cache[name] as StorageCollections[K] | undefined;
+};
+
+/**
+ * Read a collection straight from the database, for the service worker, which has no copy in
+ * memory. Resolves undefined if it's missing, encrypted or the database can't be opened.
+ */
+export const readStoredCollection = async <K extends CollectionName>(name: K): Promise<StorageCollections[K] | undefined> => {
+  try {
+    const database = await openDatabase();
+    try {
+      const value = await new Promise<any>((resolve, reject) => {
+        const request = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(name);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      return isEncryptedRecord(value) ? undefined : value;
+    } finally {
+      database.close();
+    }
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Save a collection. Rejects if it couldn't be persisted (e.g., QuotaExceededError).
+ */
+export const setItem = <K extends CollectionName>(name: K, value: StorageCollections[K]): Promise<void> => {
+  if (isStorageLocked() && ENCRYPTED_COLLECTIONS.includes(name)) {
+    return Promise.reject(new Error(`Can't save ${name} while storage is locked`));
+  }
+  cache = { ...cache, [name]: value };
+  return persistCollections({ [name]: value } as Partial<StorageCollections>);
+};
+
+/**
+ * Save several collections in one write, so they're stored together or not at all.
+ * Undefined values delete the collection.
+ */
+export const setItems = (changes: Partial<StorageCollections>): Promise<void> => {
+  const names = Object.keys(changes) as CollectionName[];
+  if (isStorageLocked() && names.some(name => ENCRYPTED_COLLECTIONS.includes(name))) {
+    return Promise.reject(new Error(`Can't save ${names.join(', ')} while storage is locked`));
+  }
+  const updated: Partial<StorageCollections> = { ...cache, ...changes };
+  names.forEach(name => {
+    if (changes[name] === undefined) delete updated[name];
+  });
+  cache = updated;
+  return persistCollections(changes);
+};
+
+/**
+ * Delete a collection
+ */
+export const removeItem = (name: CollectionName): Promise<void> => {
+  const { [name]: removed, ...rest } = cache;
+  cache = rest;
+  return persistCollections({ [name]: undefined } as Partial<StorageCollections>);
+};
@@ -0,0 +1,124 @@
+import { Caregiver, DoseEventType, Escalation, Medication, ProfileData, SymptomEntry, SyncCollection, SyncConflict } from '../types';
+import { getItem, setItem, setItems, StorageCollections } from './storageService';
+import { getActiveProfileId } from './profileService';
+import { appendDoseEvents, createDoseEvent } from './doseEventService';
+import { DELETED_FIELD } from './fieldMergeService';
+
+/**
+ * Edits that two devices made differently before syncing. Sync settles every conflict the same way
+ * on all devices; these let the user look at what was settled and pick the other value instead.
+ * The pick is saved as a new local edit, so the next sync sends it everywhere.
+ */
+
+const FIELD_LABELS: { [field: string]: string } = {
+  [DELETED_FIELD]: 'deleted on one device, changed on another',
+  name: 'name',
+  dosage: 'dosage',
+  dose: 'dose amount',
+  frequency: 'frequency',
+  times: 'dose times',
+  recurrence: 'schedule days',
+  food: 'food instructions',
+  quantity: 'amount left',
+  refillThreshold: 'refill reminder',
+  usageNote: 'note',
+  taperingSchedule: 'tapering schedule',
+  symptoms: 'symptoms',
+  mood: 'mood',
+  painLevel: 'pain level',
+  notes: 'notes',
+  sideEffects: 'side effects',
+  email: 'email',
+  accessLevel: 'access level',
+  permissions: 'permissions',
+  acknowledgedAt: 'acknowledged',
+};
+
+/**
+ * How a conflicting field is named in the conflict list
+ */
+export const describeConflictField = (collection: SyncCollection, field: string): string => {
+  if (collection === 'doseEvents') return `dose on ${new Date(field).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`;
+  return FIELD_LABELS[field] || field.replace(/([A-Z])/g, ' $1').toLowerCase();
+};
+
+/**
+ * A conflicting value as the user reads it
+ */
+export const formatConflictValue = (conflict: SyncConflict, value: any): string => {
+  if (conflict.field === DELETED_FIELD) return value ? 'Keep it' : 'Deleted';
+  if (value === null || value === undefined || value === '') return conflict.collection === 'doseEvents' ? 'Not marked' : 'None';
+  if (conflict.collection === 'doseEvents') return value === 'taken' ? 'Taken' : 'Skipped';
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ') || 'None';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const getSyncConflicts = (): SyncConflict[] => getItem('syncConflicts') || [];
+
+export const dismissSyncConflict = (id: string): Promise<void> => {
+  return setItem('syncConflicts', getSyncConflicts().filter(conflict => conflict.id !== id));
+};
+
+const replaceById = <T extends { id: string }>(items: T[], id: string, update: (item: T) => T | null): T[] =>
+  items.flatMap(item => {
+    if (item.id !== id) return [item];
+    const updated = update(item);
+    return updated ? [updated] : [];
+  });
+
+// Put a deleted record back, or update or remove one that's here
+const updateRecord = <T extends { id: string }>(items: T[], conflict: SyncConflict, value: any): T[] => {
+  if (conflict.field !== DELETED_FIELD) {
+    return replaceById(items, conflict.recordId, item => ({ ...item, [conflict.field]: value }));
+  }
+  if (!value) return items.filter(item => item.id !== conflict.recordId);
+  return items.some(item => item.id === conflict.recordId) ? items : [...items, value as T];
+};
+
+const updateMedications = (medications: Medication[], conflict: SyncConflict, value: any): Medication[] => {
+  if (conflict.collection !== 'doseEvents') return updateRecord(medications, conflict, value);
+  const type: DoseEventType = value || 'undone';
+  return replaceById(medications, conflict.recordId, med =>
+    appendDoseEvents(med, [createDoseEvent(med.id, conflict.field, type, { note: 'Chosen after a sync conflict' })])
+  );
+};
+
+/**
+ * Settle a conflict with this device's value or the other device's. Choosing the value sync already
+ * kept just clears the conflict.
+ */
+export const resolveSyncConflict = async (id: string, choice: 'local' | 'remote'): Promise<void> => {
+  const conflict = getSyncConflicts().find(c => c.id === id);
+  if (!conflict) return;
+  const remaining = getSyncConflicts().filter(c => c.id !== id);
+  if (choice === conflict.kept) {
+    await setItem('syncConflicts', remaining);
+    return;
+  }
+
+  const value = choice === 'local' ? conflict.localValue : conflict.remoteValue;
+  const updates: Partial<StorageCollections> = { syncConflicts: remaining };
+
+  if (conflict.collection === 'caregivers') {
+    updates.caregivers = updateRecord<Caregiver>(getItem('caregivers') || [], conflict, value);
+  } else if (conflict.collection === 'escalations') {
+    updates.escalations = updateRecord<Escalation>(getItem('escalations') || [], conflict, value);
+  } else if (conflict.profileId === getActiveProfileId()) {
+    if (conflict.collection === 'symptoms') {
+      updates.symptomEntries = updateRecord<SymptomEntry>(getItem('symptomEntries') || [], conflict, value);
+    } else {
+      updates.medications = updateMedications(getItem('medications') || [], conflict, value);
+    }
+  } else {
+    const allData = getItem('profileData') || {};
+    const data = allData[conflict.profileId || ''];
+    if (!data) throw new Error('That profile is no longer on this device');
+    const updated: ProfileData = conflict.collection === 'symptoms'
+      ? { ...data, symptomEntries: updateRecord(data.symptomEntries, conflict, value) }
+      : { ...data, medications: updateMedications(data.medications, conflict, value) };
+    updates.profileData = { ...allData, [conflict.profileId!]: updated };
+  }
+
+  await setItems(updates);
+};
@@ -0,0 +1,476 @@
+import {
+  Caregiver,
+  DoseEvent,
+  Escalation,
+  Medication,
+  ProfileData,
+  SymptomEntry,
+  SyncChange,
+  SyncCollection,
+  SyncConflict,
+  SyncRecord,
+  SyncSettings,
+  SyncedRecordState,
+} from '../types';
+import { getItem, setItems, StorageCollections } from './storageService';
+import { getActiveProfileId } from './profileService';
+import { reduceDoseEvents } from './doseEventService';
+import { ClockedRecord, DELETED_FIELD, compareClocks, latestClock, mergeClockedRecords, nextClock } from './fieldMergeService';
+import { getSyncConflicts, describeConflictField } from './syncConflictService';
+
+/**
+ * Sync with a self-hosted PillPal sync server (see server/syncServer.ts).
+ *
+ * Each sync pulls what changed on the server since lastSyncTime, merges it with this device's
+ * changes field by field (see fieldMergeService), then pushes the merged records. Local changes are
+ * found by comparing each field with a hash of it as last synced, so nothing else in the app needs
+ * to track them; they're clocked when the sync finds them. Dose events are sent one by one, apart
+ * from their medication, so doses marked on two devices are all kept.
+ *
+ * When both sides changed the same field to different values, the later change wins everywhere and
+ * the other is kept as a SyncConflict for the user to review.
+ */
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  skipped: number; // Changes for profiles that aren't on this device
+  conflicts: number; // Conflicting edits found by this sync
+  syncedAt: string;
+}
+
+// Everything but the caregivers and escalations belongs to one profile
+interface LocalProfileData {
+  medications: Medication[];
+  symptomEntries: SymptomEntry[];
+}
+
+// Kept once for the whole device; escalations still name their profile when synced
+interface SharedRecords {
+  caregivers: Caregiver[];
+  escalations: Escalation[];
+}
+
+type RecordRef = Pick<SyncChange, 'collection' | 'id' | 'profileId'>;
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+let syncInProgress: Promise<SyncResult> | null = null;
+
+export const getSyncSettings = (): SyncSettings | null => getItem('syncSettings') || null;
+
+export const isSyncConfigured = (): boolean => !!getSyncSettings();
+
+/**
+ * Connect this device to a sync server. The first sync after connecting sends and receives everything.
+ */
+export const saveSyncSettings = (serverUrl: string, token: string): Promise<void> => {
+  const url = serverUrl.trim().replace(/\/+$/, '');
+  if (!/^https?:\/\/[^/]+/.test(url)) return Promise.reject(new Error('Enter the server address, like http://192.168.1.20:8787'));
+  if (!token.trim()) return Promise.reject(new Error('Enter the sync token set on the server'));
+
+  return setItems({
+    syncSettings: { serverUrl: url, token: token.trim(), deviceId: getSyncSettings()?.deviceId || Date.now().toString() },
+    syncSnapshot: undefined,
+    lastSyncTime: undefined,
+  });
+};
+
+export const disconnectSync = (): Promise<void> => {
+  return setItems({ syncSettings: undefined, syncSnapshot: undefined, lastSyncTime: undefined, syncConflicts: undefined });
+};
+
+/**
+ * Simple string hash (FNV-1a), enough to notice that a value changed
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const hashFields = (data: { [field: string]: any }): { [field: string]: string } => {
+  const hashes: { [field: string]: string } = {};
+  Object.entries(data).forEach(([field, value]) => {
+    if (value !== undefined) hashes[field] = hashString(JSON.stringify(value));
+  });
+  return hashes;
+};
+
+const toSyncedState = (record: ClockedRecord): SyncedRecordState => ({
+  hashes: hashFields(record.data),
+  clocks: record.clocks,
+  ...(record.deleted ? { deleted: true } : {}),
+});
+
+// Dose events never change, so all that's kept is that they were synced
+const SYNCED_EVENT: SyncedRecordState = { hashes: {}, clocks: {} };
+
+const isSameValue = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const getRecordKey = (ref: RecordRef): string => `${ref.collection}:${ref.profileId || ''}:${ref.id}`;
+
+const parseRecordKey = (key: string): RecordRef => {
+  const [collection, profileId, ...idParts] = key.split(':');
+  return { collection: collection as SyncCollection, id: idParts.join(':'), ...(profileId ? { profileId } : {}) };
+};
+
+// Dose events are synced on their own
+const toMedicationData = ({ doseEvents, ...med }: Medication) => med;
+
+/**
+ * Fields whose value differs from the synced one, including fields removed since
+ */
+const getChangedFields = (data: { [field: string]: any }, syncedHashes: { [field: string]: string }): string[] => {
+  const hashes = hashFields(data);
+  const fields = new Set([...Object.keys(hashes), ...Object.keys(syncedHashes)]);
+  return [...fields].filter(field => hashes[field] !== syncedHashes[field]);
+};
+
+const readLocalProfiles = (): { [profileId: string]: LocalProfileData } => {
+  const profiles: { [profileId: string]: LocalProfileData } = {};
+  Object.entries(getItem('profileData') || {}).forEach(([profileId, data]) => {
+    profiles[profileId] = { medications: data.medications, symptomEntries: data.symptomEntries };
+  });
+  profiles[getActiveProfileId()] = {
+    medications: getItem('medications') || [],
+    symptomEntries: getItem('symptomEntries') || [],
+  };
+  return profiles;
+};
+
+/**
+ * Every synced record on this device, by key
+ */
+const collectLocalRecords = (profiles: { [profileId: string]: LocalProfileData }, shared: SharedRecords): { [key: string]: SyncChange } => {
+  const records: { [key: string]: SyncChange } = {};
+  const add = (change: SyncChange) => {
+    records[getRecordKey(change)] = change;
+  };
+
+  Object.entries(profiles).forEach(([profileId, data]) => {
+    data.medications.forEach(med => {
+      add({ collection: 'medications', id: med.id, profileId, data: toMedicationData(med) });
+      (med.doseEvents || []).forEach(event => add({ collection: 'doseEvents', id: event.id, profileId, data: event }));
+    });
+    data.symptomEntries.forEach(entry => add({ collection: 'symptoms', id: entry.id, profileId, data: entry }));
+  });
+  shared.caregivers.forEach(caregiver => add({ collection: 'caregivers', id: caregiver.id, data: caregiver }));
+  shared.escalations.forEach(escalation => add({ collection: 'escalations', id: escalation.id, profileId: escalation.profileId, data: escalation }));
+  return records;
+};
+
+const request = async (settings: SyncSettings, path: string, init: RequestInit = {}): Promise<any> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(`${settings.serverUrl}/api${path}`, {
+      ...init,
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${settings.token}` },
+    });
+  } catch {
+    throw new Error(`Couldn't reach the sync server at ${settings.serverUrl}`);
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 401) throw new Error('The sync server rejected the sync token');
+  if (!response.ok) throw new Error(body.error || `Sync server error (${response.status})`);
+  return body;
+};
+
+const upsert = <T extends { id: string }>(items: T[], item: T): T[] =>
+  items.some(existing => existing.id === item.id) ? items.map(existing => (existing.id === item.id ? item : existing)) : [...items, item];
+
+/**
+ * Put a merged record in place, or remove it once deleted. Returns the caregivers and escalations,
+ * which aren't per profile.
+ */
+const applyRecord = (
+  ref: RecordRef,
+  record: ClockedRecord,
+  profiles: { [profileId: string]: LocalProfileData },
+  shared: SharedRecords
+): SharedRecords => {
+  if (ref.collection === 'caregivers') {
+    const { caregivers } = shared;
+    return { ...shared, caregivers: record.deleted ? caregivers.filter(c => c.id !== ref.id) : upsert(caregivers, record.data as Caregiver) };
+  }
+  if (ref.collection === 'escalations') {
+    const { escalations } = shared;
+    return { ...shared, escalations: record.deleted ? escalations.filter(e => e.id !== ref.id) : upsert(escalations, record.data as Escalation) };
+  }
+  const profile = profiles[ref.profileId!];
+  if (ref.collection === 'medications') {
+    const local = profile.medications.find(med => med.id === ref.id);
+    profile.medications = record.deleted
+      ? profile.medications.filter(med => med.id !== ref.id)
+      : upsert(profile.medications, { ...(record.data as Medication), doseEvents: local?.doseEvents || [] });
+  } else if (ref.collection === 'symptoms') {
+    profile.symptomEntries = record.deleted
+      ? profile.symptomEntries.filter(entry => entry.id !== ref.id)
+      : upsert(profile.symptomEntries, record.data as SymptomEntry);
+  }
+  return shared;
+};
+
+const getRecordName = (collection: SyncCollection, data: any): string => {
+  if (collection === 'symptoms') return `Journal entry for ${data?.date || 'an unknown day'}`;
+  if (collection === 'escalations') return `Alert to ${data?.caregiverName || 'a caregiver'}`;
+  return data?.name || 'Unnamed';
+};
+
+const runSync = async (): Promise<SyncResult> => {
+  const settings = getSyncSettings();
+  if (!settings) throw new Error('Sync is not set up on this device');
+
+  const since = getItem('lastSyncTime');
+  const pulled: { changes: SyncRecord[]; serverTime: string } = await request(
+    settings,
+    `/changes${since ? `?since=${encodeURIComponent(since)}` : ''}`
+  );
+
+  // Nothing is awaited from here until the merge is saved, so no edit can slip in between
+  const synced: { [key: string]: SyncedRecordState } = {};
+  Object.entries(getItem('syncSnapshot') || {}).forEach(([key, state]) => {
+    // Earlier versions kept one hash per record; those records sync in full once
+    if (state && typeof state === 'object') synced[key] = state;
+  });
+
+  let clock = getItem('syncClock');
+  pulled.changes.forEach(record => Object.values(record.clocks || {}).forEach(remoteClock => {
+    clock = latestClock(clock, remoteClock);
+  }));
+  const tick = (): string => (clock = nextClock(clock, settings.deviceId));
+
+  const remoteRecords: { [key: string]: ClockedRecord } = {};
+  pulled.changes.forEach(record => {
+    if (record.collection === 'doseEvents') return;
+    remoteRecords[getRecordKey(record)] = { data: record.data || {}, clocks: record.clocks || {}, deleted: !!record.deleted };
+  });
+
+  const profiles = readLocalProfiles();
+  let shared: SharedRecords = { caregivers: getItem('caregivers') || [], escalations: getItem('escalations') || [] };
+  const localRecords = collectLocalRecords(profiles, shared);
+
+  // This device's changes since the last sync, each changed field clocked now
+  const local: { [key: string]: ClockedRecord } = {};
+  const pendingFields: { [key: string]: string[] } = {};
+  const newDoseEvents: SyncChange[] = [];
+  Object.entries(localRecords).forEach(([key, change]) => {
+    if (change.collection === 'doseEvents') {
+      if (!synced[key]) newDoseEvents.push(change);
+      return;
+    }
+    // Never synced from here: compare with the server's copy, if there is one, rather than
+    // treating every field as a new edit
+    const base = synced[key] || (remoteRecords[key] && toSyncedState(remoteRecords[key])) || { hashes: {}, clocks: {} };
+    const changed = getChangedFields(change.data, base.hashes);
+    if (base.deleted) changed.push(DELETED_FIELD); // Back again, e.g., from a restored backup
+    const clocks = { ...base.clocks };
+    changed.forEach(field => {
+      clocks[field] = tick();
+    });
+    local[key] = { data: change.data, clocks };
+    if (changed.length > 0) pendingFields[key] = changed;
+  });
+  Object.entries(synced).forEach(([key, state]) => {
+    if (localRecords[key] || state.deleted || key.startsWith('doseEvents:')) return;
+    local[key] = { data: { id: parseRecordKey(key).id }, clocks: { ...state.clocks, [DELETED_FIELD]: tick() }, deleted: true };
+    pendingFields[key] = [DELETED_FIELD];
+  });
+
+  const detectedAt = new Date().toISOString();
+  const conflicts: SyncConflict[] = [];
+  const addConflict = (ref: RecordRef, field: string, name: string, localValue: any, remoteValue: any, kept: 'local' | 'remote') => {
+    conflicts.push({
+      id: `${getRecordKey(ref)}:${field}`,
+      collection: ref.collection,
+      recordId: ref.id,
+      ...(ref.profileId ? { profileId: ref.profileId } : {}),
+      field,
+      label: `${name}: ${describeConflictField(ref.collection, field)}`,
+      localValue,
+      remoteValue,
+      kept,
+      detectedAt,
+    });
+  };
+
+  // Merge in the server's copies, which include this device's earlier changes
+  let skipped = 0;
+  const merged: { [key: string]: ClockedRecord } = {};
+  Object.entries(remoteRecords).forEach(([key, remote]) => {
+    const ref = parseRecordKey(key);
+    if (ref.collection !== 'caregivers' && !profiles[ref.profileId || '']) {
+      skipped++;
+      return;
+    }
+    const mine = local[key];
+    const result = mine ? mergeClockedRecords(mine, remote) : remote;
+    merged[key] = result;
+
+    // A conflict is a field changed here that another device changed too, to something else
+    const pending = pendingFields[key];
+    if (!mine || !pending) return;
+    const base = synced[key];
+    const remoteChanged = Object.keys(remote.clocks).filter(field => compareClocks(remote.clocks[field], base?.clocks[field]) !== 0);
+    if (mine.deleted && !remote.deleted) {
+      if (remoteChanged.some(field => field !== DELETED_FIELD)) {
+        addConflict(ref, DELETED_FIELD, getRecordName(ref.collection, remote.data), null, remote.data, result.deleted ? 'local' : 'remote');
+      }
+    } else if (remote.deleted && !mine.deleted) {
+      if (remoteChanged.includes(DELETED_FIELD)) {
+        addConflict(ref, DELETED_FIELD, getRecordName(ref.collection, mine.data), mine.data, null, result.deleted ? 'remote' : 'local');
+      }
+    } else if (!mine.deleted) {
+      pending
+        .filter(field => remoteChanged.includes(field) && field !== DELETED_FIELD && !isSameValue(mine.data[field], remote.data[field]))
+        .forEach(field => {
+          const kept = isSameValue(result.data[field], mine.data[field]) ? 'local' : 'remote';
+          addConflict(ref, field, getRecordName(ref.collection, mine.data), mine.data[field], remote.data[field], kept);
+        });
+    }
+  });
+
+  Object.entries(merged).forEach(([key, record]) => {
+    shared = applyRecord(parseRecordKey(key), record, profiles, shared);
+  });
+
+  // Add other devices' dose events, grouped by dose so a dose marked differently on each side is noticed
+  const remoteEvents: { [doseRef: string]: { profileId: string; events: DoseEvent[] } } = {};
+  pulled.changes.forEach(record => {
+    if (record.collection !== 'doseEvents') return;
+    if (!profiles[record.profileId || '']) {
+      skipped++;
+      return;
+    }
+    const event = record.data as DoseEvent;
+    const doseRef = `${record.profileId}:${event.medicationId}:${event.doseKey}`;
+    remoteEvents[doseRef] = remoteEvents[doseRef] || { profileId: record.profileId!, events: [] };
+    remoteEvents[doseRef].events.push(event);
+  });
+  const syncedEventKeys: string[] = [];
+  Object.values(remoteEvents).forEach(({ profileId, events }) => {
+    const profile = profiles[profileId];
+    const { medicationId, doseKey } = events[0];
+    const med = profile.medications.find(m => m.id === medicationId);
+    if (!med) {
+      skipped += events.length;
+      return;
+    }
+    events.forEach(event => syncedEventKeys.push(getRecordKey({ collection: 'doseEvents', id: event.id, profileId })));
+    const existing = med.doseEvents || [];
+    const incoming = events.filter(event => !existing.some(e => e.id === event.id));
+    if (incoming.length === 0) return;
+
+    const forDose = existing.filter(event => event.doseKey === doseKey);
+    const unsynced = forDose.filter(event => !synced[getRecordKey({ collection: 'doseEvents', id: event.id, profileId })]);
+    if (unsynced.length > 0) {
+      const localStatus = reduceDoseEvents(forDose).status;
+      const remoteStatus = reduceDoseEvents([...forDose.filter(event => !unsynced.includes(event)), ...incoming]).status;
+      if (localStatus !== remoteStatus) {
+        const mergedStatus = reduceDoseEvents([...forDose, ...incoming]).status;
+        addConflict(
+          { collection: 'doseEvents', id: medicationId, profileId },
+          doseKey,
+          med.name,
+          localStatus || null,
+          remoteStatus || null,
+          mergedStatus === localStatus ? 'local' : 'remote'
+        );
+      }
+    }
+    profile.medications = upsert(profile.medications, { ...med, doseEvents: [...existing, ...incoming] });
+  });
+
+  // Pulled records with nothing changed here are now synced as pulled; the rest once pushed
+  Object.entries(merged).forEach(([key, record]) => {
+    if (!pendingFields[key]) synced[key] = toSyncedState(record);
+  });
+  syncedEventKeys.forEach(key => {
+    synced[key] = SYNCED_EVENT;
+  });
+
+  const outgoing: SyncChange[] = [
+    ...Object.keys(pendingFields).map(key => {
+      const record = merged[key] || local[key];
+      return { ...parseRecordKey(key), data: record.data, clocks: record.clocks, ...(record.deleted ? { deleted: true } : {}) };
+    }),
+    ...newDoseEvents,
+  ];
+
+  const activeId = getActiveProfileId();
+  const profileData: { [profileId: string]: ProfileData } = { ...(getItem('profileData') || {}) };
+  Object.entries(profiles).forEach(([profileId, data]) => {
+    if (profileId !== activeId && profileData[profileId]) {
+      profileData[profileId] = { ...profileData[profileId], ...data };
+    }
+  });
+  const data: Partial<StorageCollections> = {
+    medications: profiles[activeId].medications,
+    symptomEntries: profiles[activeId].symptomEntries,
+    caregivers: shared.caregivers,
+    escalations: shared.escalations,
+    ...(Object.keys(profileData).length > 0 ? { profileData } : {}),
+  };
+
+  // A newer conflict over the same field replaces the one before
+  const conflictIds = new Set(conflicts.map(conflict => conflict.id));
+  const syncConflicts = [...getSyncConflicts().filter(conflict => !conflictIds.has(conflict.id)), ...conflicts];
+
+  // Saved together, so the data and what's recorded as synced can't disagree
+  await setItems({
+    ...(pulled.changes.length > 0 ? data : {}),
+    syncSnapshot: synced,
+    syncClock: clock,
+    syncConflicts,
+    lastSyncTime: pulled.serverTime,
+  });
+
+  if (outgoing.length > 0) {
+    await request(settings, '/changes', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: settings.deviceId, changes: outgoing }),
+    });
+    // Only what was pushed counts as synced; anything edited meanwhile goes next time
+    const snapshot = { ...(getItem('syncSnapshot') || {}) };
+    outgoing.forEach(change => {
+      snapshot[getRecordKey(change)] = change.collection === 'doseEvents'
+        ? SYNCED_EVENT
+        : toSyncedState({ data: change.data, clocks: change.clocks || {}, deleted: change.deleted });
+    });
+    // Inbox alerts are sent once they're on the server for the caregiver's devices; the time goes up next sync
+    const pushedIds = new Set(outgoing.filter(change => change.collection === 'escalations' && !change.deleted).map(change => change.id));
+    const escalations = getItem('escalations') || [];
+    const sentAt = new Date().toISOString();
+    const delivered = escalations.map(e => (pushedIds.has(e.id) && !e.sentAt && !e.error ? { ...e, sentAt } : e));
+    await setItems({
+      syncSnapshot: snapshot,
+      ...(delivered.some((e, i) => e !== escalations[i]) ? { escalations: delivered } : {}),
+    });
+  }
+
+  const pulledCount = pulled.changes.filter(record => record.deviceId !== settings.deviceId).length;
+  return { pushed: outgoing.length, pulled: pulledCount, skipped, conflicts: conflicts.length, syncedAt: pulled.serverTime };
+};
+
+/**
+ * Pull everyone else's changes, merge in this device's and push the result. The app should reload
+ * medications, symptoms, caregivers and escalations from storage afterwards. A sync already running is joined,
+ * not repeated.
+ */
+export const syncNow = (): Promise<SyncResult> => {
+  if (!syncInProgress) {
+    syncInProgress = runSync().finally(() => {
+      syncInProgress = null;
+    });
+  }
+  return syncInProgress;
+};
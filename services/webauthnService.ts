@@ -0,0 +1,176 @@
+import { BiometricCredential } from '../types';
+import { randomBytes, toBase64, fromBase64, toBase64Url, fromBase64Url } from './cryptoService';
+
+/**
+ * Biometric unlock with a WebAuthn platform authenticator (Touch ID, Windows Hello, Android
+ * fingerprint). The credential's public key is kept in AppSecurity and every assertion is verified
+ * here: challenge, origin, relying party, user presence and verification, sign counter and signature.
+ *
+ * To test without hardware, add a virtual authenticator (Chrome DevTools > WebAuthn, or WebDriver's
+ * addVirtualAuthenticator) with protocol ctap2, transport internal, and user verification enabled.
+ */
+
+const COSE_ES256 = -7;
+const COSE_RS256 = -257;
+const TIMEOUT_MS = 60000;
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+};
+
+/**
+ * Check whether this device has a platform authenticator that can verify the user
+ */
+export const isBiometricAvailable = async (): Promise<boolean> => {
+  if (typeof PublicKeyCredential === 'undefined' || !navigator.credentials) return false;
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Register a platform credential for unlocking the app
+ */
+export const registerBiometric = async (userName: string): Promise<BiometricCredential> => {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      rp: { name: 'PillPal' },
+      user: { id: randomBytes(16), name: userName, displayName: userName },
+      challenge: randomBytes(32),
+      pubKeyCredParams: [
+        { type: 'public-key', alg: COSE_ES256 },
+        { type: 'public-key', alg: COSE_RS256 },
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: 'platform',
+        userVerification: 'required',
+        residentKey: 'discouraged',
+      },
+      attestation: 'none',
+      timeout: TIMEOUT_MS,
+    },
+  }) as PublicKeyCredential | null;
+
+  if (!credential) throw new Error('No credential was created');
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const publicKey = response.getPublicKey();
+  const algorithm = response.getPublicKeyAlgorithm();
+  if (!publicKey || (algorithm !== COSE_ES256 && algorithm !== COSE_RS256)) {
+    throw new Error("This authenticator's key type isn't supported");
+  }
+
+  return {
+    id: toBase64Url(new Uint8Array(credential.rawId)),
+    publicKey: toBase64(new Uint8Array(publicKey)),
+    algorithm,
+    signCount: 0,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Convert a DER-encoded ECDSA signature to the raw r|s form WebCrypto expects
+ */
+const derToRawSignature = (der: Uint8Array): Uint8Array => {
+  let offset = 2;
+  if (der[0] !== 0x30) throw new Error('Malformed signature');
+  if (der[1] & 0x80) offset += der[1] & 0x7f;
+
+  const readInteger = (): Uint8Array => {
+    if (der[offset] !== 0x02) throw new Error('Malformed signature');
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    while (value.length > 32 && value[0] === 0) value = value.slice(1);
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return padded;
+  };
+
+  const raw = new Uint8Array(64);
+  raw.set(readInteger(), 0);
+  raw.set(readInteger(), 32);
+  return raw;
+};
+
+const verifySignature = async (credential: BiometricCredential, signature: Uint8Array, data: Uint8Array): Promise<boolean> => {
+  const spki = fromBase64(credential.publicKey);
+  if (credential.algorithm === COSE_ES256) {
+    const key = await crypto.subtle.importKey('spki', spki, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawSignature(signature), data);
+  }
+  const key = await crypto.subtle.importKey('spki', spki, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+};
+
+/**
+ * Ask the platform authenticator to verify the user, and check its assertion.
+ * Resolves with the credential's updated sign counter; rejects if the check fails or is cancelled.
+ */
+export const verifyBiometric = async (stored: BiometricCredential): Promise<BiometricCredential> => {
+  const challenge = randomBytes(32);
+  let assertion: PublicKeyCredential | null;
+  try {
+    assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge,
+        allowCredentials: [{ type: 'public-key', id: fromBase64Url(stored.id), transports: ['internal'] }],
+        userVerification: 'required',
+        timeout: TIMEOUT_MS,
+      },
+    }) as PublicKeyCredential | null;
+  } catch (error: any) {
+    if (error?.name === 'NotAllowedError') throw new Error('Biometric check was cancelled or timed out');
+    throw error;
+  }
+  if (!assertion) throw new Error('No biometric response');
+
+  const response = assertion.response as AuthenticatorAssertionResponse;
+  if (toBase64Url(new Uint8Array(assertion.rawId)) !== stored.id) {
+    throw new Error('Unknown credential');
+  }
+
+  const clientDataBytes = new Uint8Array(response.clientDataJSON);
+  const clientData = JSON.parse(decoder.decode(clientDataBytes));
+  if (clientData.type !== 'webauthn.get' || clientData.challenge !== toBase64Url(challenge) || clientData.origin !== location.origin) {
+    throw new Error('Biometric response did not match this request');
+  }
+
+  const authData = new Uint8Array(response.authenticatorData);
+  if (authData.length < 37 || !bytesEqual(authData.slice(0, 32), await sha256(encoder.encode(location.hostname)))) {
+    throw new Error('Biometric response is for a different site');
+  }
+  const flags = authData[32];
+  if (!(flags & FLAG_USER_PRESENT) || !(flags & FLAG_USER_VERIFIED)) {
+    throw new Error('The authenticator did not verify you');
+  }
+
+  // A counter that doesn't increase can mean a cloned authenticator; zero means it isn't supported
+  const signCount = new DataView(authData.buffer, authData.byteOffset + 33, 4).getUint32(0);
+  if ((signCount !== 0 || stored.signCount !== 0) && signCount <= stored.signCount) {
+    throw new Error('Biometric response was replayed');
+  }
+
+  const signedData = new Uint8Array(authData.length + 32);
+  signedData.set(authData, 0);
+  signedData.set(await sha256(clientDataBytes), authData.length);
+  if (!(await verifySignature(stored, new Uint8Array(response.signature), signedData))) {
+    throw new Error('Biometric signature is invalid');
+  }
+
+  return { ...stored, signCount };
+};
@@ -0,0 +1,204 @@
+import { QueuedReminder, ReminderActionType } from './types';
+import {
+  REMINDER_SYNC_TAG,
+  addReminderAction,
+  getDoseReminderId,
+  getDoseReminderPrefix,
+  getReminderQueue,
+  markRemindersFired,
+  showDueReminders,
+} from './services/reminderQueueStore';
+import { ReminderWorkerMessage } from './services/reminderQueueService';
+import { createReminderAction, precheckReminderAction } from './services/reminderActionService';
+import { calculateSnoozeTime, getNotificationActions } from './services/reminderService';
+import { sendEscalation } from './services/escalationService';
+
+/**
+ * PillPal's service worker: shows the queued dose, follow-up and refill reminders (see
+ * reminderQueueService), including after the app is closed.
+ *
+ * Where the browser supports notification triggers, every upcoming reminder is handed to the
+ * system to show on time. Elsewhere the worker shows whatever is due each time it runs: when the
+ * open app checks in each minute, on periodic background sync, and on a timer while it's awake.
+ *
+ * Dose notifications have Taken, Snooze and Skip buttons. The worker saves what was pressed and
+ * updates the queue to match; the app records it (see reminderActionService). Escalations to
+ * caregivers are sent from here too (see escalationService).
+ */
+
+// Service worker types aren't part of the DOM library the app compiles against
+interface ExtendableEvent extends Event {
+  waitUntil: (promise: Promise<any>) => void;
+}
+
+interface WorkerClient {
+  url: string;
+  focus?: () => Promise<WorkerClient>;
+  postMessage: (message: ReminderWorkerMessage) => void;
+}
+
+interface NotificationClickEvent extends ExtendableEvent {
+  notification: Notification;
+  action: string;
+  reply?: string | null; // Typed into a text button, where supported
+}
+
+interface WorkerScope {
+  registration: ServiceWorkerRegistration;
+  clients: {
+    claim: () => Promise<void>;
+    matchAll: (options?: { type?: string; includeUncontrolled?: boolean }) => Promise<WorkerClient[]>;
+    openWindow: (url: string) => Promise<WorkerClient | null>;
+  };
+  skipWaiting: () => Promise<void>;
+  addEventListener: (type: string, listener: (event: any) => void) => void;
+}
+
+const worker = self as unknown as WorkerScope;
+
+const MAX_TIMER_MS = 10 * 60 * 1000; // Beyond this the worker is likely stopped before the timer fires anyway
+
+let reminderTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Notification triggers (TimestampTrigger) are only in some Chromium browsers
+const TimestampTrigger = (self as any).TimestampTrigger;
+const supportsTriggers = !!TimestampTrigger && 'showTrigger' in Notification.prototype;
+
+const ACTION_TYPES: string[] = getNotificationActions().map(action => action.action);
+
+const getNotificationOptions = (reminder: QueuedReminder): NotificationOptions => ({
+  body: reminder.body,
+  tag: reminder.id,
+  icon: '/favicon.ico',
+  requireInteraction: reminder.stage === 2,
+  data: reminder,
+  // Buttons are for one dose, so refills and bundles have none
+  ...(reminder.doseKey ? { actions: getNotificationActions() } : {}),
+} as NotificationOptions);
+
+const notifyClients = async (message: ReminderWorkerMessage): Promise<WorkerClient[]> => {
+  const clients = await worker.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach(client => client.postMessage(message));
+  return clients;
+};
+
+// Escalations go to a caregiver instead, and an open app records them straight away
+const showReminder = async (reminder: QueuedReminder): Promise<void> => {
+  if (reminder.kind === 'escalation') {
+    await sendEscalation(reminder);
+    await notifyClients({ type: 'escalations' });
+    return;
+  }
+  await worker.registration.showNotification(reminder.title, getNotificationOptions(reminder));
+};
+
+/**
+ * Hand upcoming reminders to the system, and take back ones that are no longer queued
+ */
+const scheduleWithTriggers = async (queue: QueuedReminder[]) => {
+  const queuedIds = new Set(queue.map(reminder => reminder.id));
+  const scheduled = await worker.registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+  // A dose marked or rescheduled since drops out of the queue, so its notification goes too
+  scheduled.filter(notification => notification.tag.startsWith('dose:') && !queuedIds.has(notification.tag)).forEach(notification => notification.close());
+
+  const upcoming = queue.filter(reminder => reminder.kind !== 'escalation' && !reminder.firedAt && Date.parse(reminder.fireAt) > Date.now());
+  await Promise.all(upcoming.map(reminder =>
+    worker.registration.showNotification(reminder.title, {
+      ...getNotificationOptions(reminder),
+      showTrigger: new TimestampTrigger(Date.parse(reminder.fireAt)),
+    } as NotificationOptions)
+  ));
+  await markRemindersFired(upcoming.map(reminder => reminder.id));
+};
+
+const refreshReminders = async (): Promise<void> => {
+  clearTimeout(reminderTimer);
+  await showDueReminders(showReminder);
+
+  const queue = await getReminderQueue();
+  if (supportsTriggers) await scheduleWithTriggers(queue);
+
+  // Triggers can only show notifications, so escalations always wait for the worker to wake
+  const nextTime = Math.min(...queue
+    .filter(reminder => !reminder.firedAt && (!supportsTriggers || reminder.kind === 'escalation'))
+    .map(reminder => Date.parse(reminder.fireAt)));
+  const delay = nextTime - Date.now();
+  if (delay <= MAX_TIMER_MS) {
+    reminderTimer = setTimeout(() => {
+      refreshReminders().catch(error => console.error('Failed to show reminders', error));
+    }, Math.max(delay, 0));
+  }
+};
+
+const showMessage = (title: string, body: string, tag: string): Promise<void> =>
+  worker.registration.showNotification(title, { body, tag, icon: '/favicon.ico' });
+
+/**
+ * Save a button pressed on a dose notification, unless the stored data shows the dose can't be
+ * marked, and have an open app record it straight away
+ */
+const handleReminderAction = async (type: ReminderActionType, reminder: QueuedReminder, reason?: string): Promise<void> => {
+  const now = new Date();
+  const action = createReminderAction(type, reminder, now, reason);
+  const safety = await precheckReminderAction(action);
+  if (safety && !safety.canProceed) {
+    await showMessage('Not marked as taken', safety.errors[0], `${reminder.id}:blocked`);
+    return;
+  }
+
+  const snoozed: QueuedReminder | undefined = type === 'snooze'
+    ? {
+        ...reminder,
+        id: getDoseReminderId(action.profileId, action.medicationId, action.doseKey, 'snooze'),
+        fireAt: calculateSnoozeTime(action.snoozeMinutes!, now).toISOString(),
+        firedAt: undefined,
+      }
+    : undefined;
+  await addReminderAction(action, snoozed);
+
+  // The dose's other reminders on screen are answered too
+  const dosePrefix = getDoseReminderPrefix(action.profileId, action.medicationId, action.doseKey);
+  const shown = await worker.registration.getNotifications();
+  shown.filter(notification => notification.tag.startsWith(dosePrefix)).forEach(notification => notification.close());
+
+  const clients = await notifyClients({ type: 'actions' });
+  if (safety?.warnings.length) {
+    await showMessage('Marked as taken', safety.warnings.join(' '), `${reminder.id}:warning`);
+  } else if (!safety && type === 'taken' && clients.length === 0) {
+    await showMessage('Saved', 'PillPal will check and record it the next time you open it.', `${reminder.id}:saved`);
+  }
+  await refreshReminders();
+};
+
+worker.addEventListener('install', (event: ExtendableEvent) => {
+  event.waitUntil(worker.skipWaiting());
+});
+
+worker.addEventListener('activate', (event: ExtendableEvent) => {
+  event.waitUntil(worker.clients.claim().then(refreshReminders));
+});
+
+worker.addEventListener('message', (event: ExtendableEvent & { data?: { type?: string } }) => {
+  if (event.data?.type === 'reconcile' || event.data?.type === 'check') {
+    event.waitUntil(refreshReminders());
+  }
+});
+
+worker.addEventListener('periodicsync', (event: ExtendableEvent & { tag: string }) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(refreshReminders());
+});
+
+worker.addEventListener('notificationclick', (event: NotificationClickEvent) => {
+  event.notification.close();
+  const reminder: QueuedReminder | undefined = event.notification.data;
+  if (reminder?.doseKey && ACTION_TYPES.includes(event.action)) {
+    event.waitUntil(handleReminderAction(event.action as ReminderActionType, reminder, event.reply || undefined));
+    return;
+  }
+
+  event.waitUntil((async () => {
+    const [client] = await worker.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (client?.focus) await client.focus();
+    else await worker.clients.openWindow('/');
+  })());
+});
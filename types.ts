@@ -38,15 +38,56 @@ export interface InteractionDetail {
   interactingDrugs?: string[];
 }
 
+// Structured Recurrence
+export type RecurrenceType = 'daily' | 'interval' | 'weekly' | 'cycle' | 'hourly';
+
+export interface RecurrenceRule {
+  type: RecurrenceType;
+  intervalDays?: number; // 'interval': every N days counted from startDate
+  weekdays?: number[]; // 'weekly': 0-6 (Sunday-Saturday)
+  cycleOnDays?: number; // 'cycle': e.g., 21 days on...
+  cycleOffDays?: number; // ...followed by 7 days off
+  intervalHours?: number; // 'hourly': every N hours
+  firstDoseTime?: string; // 'hourly': HH:mm of the first dose on startDate
+  startDate?: string; // ISO date 'YYYY-MM-DD', anchor for interval/cycle/hourly rules
+  endDate?: string; // ISO date 'YYYY-MM-DD', last day of the course (inclusive)
+}
+
+// Dose Event Log
+export type DoseEventType = 'taken' | 'skipped' | 'partial' | 'snoozed' | 'undone' | 'note';
+export type DoseEventSource = 'patient' | 'caregiver' | 'notification' | 'voice' | 'migration';
+
+export interface DoseEvent {
+  id: string;
+  medicationId: string;
+  doseKey: string; // Scheduled dose the event belongs to, e.g., '2023-10-27T08:00'
+  type: DoseEventType;
+  recordedAt: string; // ISO timestamp the event was written
+  takenAt?: string; // 'taken' | 'partial': ISO timestamp the dose was actually taken
+  amount?: number; // 'partial': fraction of the dose taken, e.g., 0.5
+  snoozeMinutes?: number; // 'snoozed'
+  source: DoseEventSource;
+  actor?: Actor; // Who recorded it; absent on events from before actors were tracked
+  note?: string; // e.g., why a dose was skipped or missed
+}
+
 export interface Medication {
   id: string;
   name: string;
-  dosage: string;
+  dosage: string; // As written, e.g., "10mg" or "2 tablets"
+  dose?: StructuredDose; // The same in numbers, when it could be worked out
   frequency: string;
   times: string[]; // e.g., ['08:00', '20:00']
+  mealAnchors?: (MealAnchor | null)[]; // By index into `times`: the meal that time follows, if any
+  recurrence?: RecurrenceRule; // Which days `times` apply to; absent means every day
   food: 'With food' | 'Without food' | 'No specific instructions';
-  doseStatus?: { [dateTime: string]: DoseStatus }; // Tracks intake, e.g., { '2023-10-27T08:00': 'taken' }
-  missedDoseReasons?: { [dateTime: string]: string }; // Tracks reasons for missed doses
+  doseEvents?: DoseEvent[]; // Append-only dose history; current status is derived from it
+  /** @deprecated Replaced by doseEvents; only read when migrating old data */
+  doseStatus?: { [dateTime: string]: DoseStatus };
+  /** @deprecated Replaced by doseEvents; only read when migrating old data */
+  doseTakenAt?: { [dateTime: string]: string };
+  /** @deprecated Replaced by doseEvents; only read when migrating old data */
+  missedDoseReasons?: { [dateTime: string]: string };
   image?: string; // Base64 encoded image string from camera or search
   quantity?: number;
   refillThreshold?: number;
@@ -63,6 +104,44 @@ export interface Medication {
   taperingSchedule?: { day: number; tablets: number }[]; // For multi-day tapering schedules
 }
 
+export type MassUnit = 'mcg' | 'mg' | 'g';
+export type VolumeUnit = 'mL' | 'tsp';
+export type CountUnit = 'tablet' | 'capsule' | 'puff' | 'drop' | 'patch' | 'unit';
+export type DoseUnit = MassUnit | VolumeUnit | CountUnit;
+export type DoseForm = 'tablet' | 'capsule' | 'liquid' | 'injection' | 'inhaler' | 'drops' | 'patch' | 'other';
+
+// How much active ingredient is in the form: 5 mg per tablet, or 250 mg per 5 mL
+export interface DoseStrength {
+  amount: number;
+  unit: MassUnit | 'unit';
+  per?: number; // For liquids, the mL the amount is in; 1 if absent
+}
+
+// One dose in numbers: 2 tablets of 5 mg, 10 mL of 250 mg/5 mL, or 10 mg of something
+export interface StructuredDose {
+  amount: number;
+  unit: DoseUnit;
+  form: DoseForm;
+  strength?: DoseStrength;
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export type MealTimes = { [meal in MealType]: string }; // HH:mm
+
+// A dose timed by a meal rather than the clock, e.g., 30 minutes before breakfast
+export interface MealAnchor {
+  meal: MealType;
+  offsetMinutes: number; // Negative is before the meal, 0 is with it
+}
+
+// A meal the user said they ate
+export interface MealEvent {
+  id: string;
+  meal: MealType;
+  eatenAt: string; // ISO timestamp
+}
+
 export interface InteractionResult {
   hasInteractions: boolean;
   summary: string;
@@ -74,6 +153,7 @@ export enum View {
   Meds = 'meds',
   Reports = 'reports',
   Settings = 'settings',
+  Household = 'household',
 }
 
 // Dashboard Widget Configuration (moved before UserPreferences)
@@ -100,6 +180,27 @@ export interface UserPreferences {
   reminderStyle?: 'detailed' | 'simple' | 'minimal';
   motivationalMessages?: boolean;
   showTips?: boolean;
+  mealTimes?: Partial<MealTimes>; // Usual meal times; doses timed by meals follow them
+  wakeTime?: string; // HH:mm; with sleepTime, the night counts as quiet hours
+  sleepTime?: string; // HH:mm
+  quietHours?: QuietHours[]; // Others, such as an afternoon nap
+}
+
+// A stretch of the day without reminders, other than for critical medications. May run past midnight.
+export interface QuietHours {
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export type CaregiverAction = 'markDoses' | 'editSchedules' | 'viewJournal' | 'exportReports';
+
+// What a caregiver may do. Caregivers added before permissions existed get defaults from their access level.
+export interface CaregiverPermissions {
+  medicationIds?: string[]; // Medications they can see; absent means all of them
+  markDoses: boolean;
+  editSchedules: boolean; // Add, edit and delete medications, and log refills
+  viewJournal: boolean;
+  exportReports: boolean; // Reports, CSV exports and backups
 }
 
 export interface Caregiver {
@@ -107,9 +208,17 @@ export interface Caregiver {
   name: string;
   email: string;
   accessLevel: 'view' | 'manage';
+  permissions?: CaregiverPermissions;
   addedDate: string;
 }
 
+// The person using the app: the patient, or one of their caregivers
+export interface Actor {
+  id: string; // 'patient', or the caregiver's id
+  type: 'patient' | 'caregiver';
+  name: string;
+}
+
 export interface NotificationBehavior {
   medicationId: string;
   averageResponseTime?: number; // minutes
@@ -120,6 +229,73 @@ export interface NotificationBehavior {
   reminderStage?: number; // 0 = first, 1 = follow-up, 2 = check-in
 }
 
+// 'bundle': reminders held back during quiet hours, shown together when they end
+export type ReminderKind = 'dose' | 'followUp' | 'refill' | 'escalation' | 'bundle';
+
+// A notification waiting in the service worker's queue
+export interface QueuedReminder {
+  id: string; // Stable per dose and stage, so rebuilding the queue keeps track of what already went out
+  kind: ReminderKind;
+  profileId: string;
+  medicationId?: string; // All but bundles
+  doseKey?: string; // Dose and follow-up reminders
+  stage?: number; // From calculateReminderStages: 0 = first, 1 = follow-up, 2 = check-in
+  fireAt: string; // ISO timestamp
+  title: string;
+  body: string;
+  firedAt?: string; // When it was shown, or handed to the system to show on time
+  escalation?: Escalation; // 'escalation': sent to a caregiver rather than shown
+  mailRelayUrl?: string; // 'escalation' by email
+}
+
+export type EscalationChannelType = 'webhook' | 'email' | 'inbox';
+
+// One caregiver in the escalation chain, told in order while a critical dose stays unmarked
+export interface EscalationStep {
+  caregiverId: string;
+  channel: EscalationChannelType;
+  webhookUrl?: string; // 'webhook'
+}
+
+export interface EscalationSettings {
+  enabled: boolean;
+  delayMinutes: number; // After the check-in reminder, and between caregivers
+  steps: EscalationStep[];
+  mailRelayUrl?: string; // The SMTP stand-in that 'email' steps are posted to
+}
+
+// A caregiver told that a critical dose hasn't been marked
+export interface Escalation {
+  id: string;
+  profileId: string;
+  medicationId: string;
+  doseKey: string;
+  caregiverId: string;
+  caregiverName: string;
+  channel: EscalationChannelType;
+  target?: string; // Webhook URL or email address
+  message: string;
+  sentAt?: string; // ISO timestamp; unset until it's sent
+  error?: string; // Why it couldn't be sent
+  acknowledgedAt?: string; // 'inbox': when the caregiver saw it
+}
+
+export type ReminderActionType = 'taken' | 'snooze' | 'skip';
+
+// A button pressed on a dose notification, waiting for the app to record it
+export interface ReminderAction {
+  id: string;
+  type: ReminderActionType;
+  reminderId: string;
+  profileId: string;
+  medicationId: string;
+  doseKey: string;
+  stage: number;
+  recordedAt: string; // ISO timestamp the button was pressed
+  snoozeMinutes?: number;
+  reason?: string; // Why it was skipped, where the notification could ask
+}
+
 // Adherence & Gamification
 export interface AdherenceStreak {
   currentStreak: number; // Days
@@ -198,12 +374,33 @@ export interface EmergencyInfo {
 }
 
 // App Security
+export interface PinHashParams {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+}
+
+export interface BiometricCredential {
+  id: string; // WebAuthn credential id, base64url
+  publicKey: string; // SPKI, base64
+  algorithm: number; // COSE algorithm: -7 (ES256) or -257 (RS256)
+  signCount: number;
+  createdAt: string;
+}
+
 export interface AppSecurity {
   isLocked: boolean;
   lockMethod: 'none' | 'pin' | 'biometric';
   pinHash?: string;
+  pinHashParams?: PinHashParams; // Missing on PINs saved by older versions, which are re-hashed on unlock
+  biometricCredential?: BiometricCredential; // Platform authenticator registered for biometric unlock
+  failedAttempts?: number; // Wrong PINs in a row
+  lockedUntil?: string; // ISO timestamp; PIN entry is disabled until then
   lockTimeout: number; // minutes
+  caregiverLockTimeout?: number; // minutes; a caregiver's limit, used when shorter than lockTimeout
+  caregiverLockTimeoutSetBy?: string; // Caregiver id
   lastUnlockTime?: string;
+  lastActiveTime?: string; // ISO timestamp of the last user activity, so a reload can't skip the lock
 }
 
 // Undo Action
@@ -245,4 +442,72 @@ export interface PRNConfig {
   lastTakenTime?: string;
   takenToday: number;
   resetDate: string; // ISO date
-}
\ No newline at end of file
+}
+// Household Profiles
+export interface Profile {
+  id: string;
+  name: string;
+  color: string; // Hex color for the profile's badge
+  createdDate: string;
+}
+
+// One person's own data. The active profile's is kept in the regular stores, the others' alongside them.
+export interface ProfileData {
+  medications: Medication[];
+  symptomEntries: SymptomEntry[];
+  userPreferences?: UserPreferences;
+  mealLog?: MealEvent[];
+  emergencyInfo?: EmergencyInfo;
+  prnConfigs: { [medId: string]: PRNConfig };
+  medicationEducations: { [medId: string]: MedicationEducation };
+  notificationBehaviors: { [medId: string]: NotificationBehavior };
+}
+
+// Sync
+export type SyncCollection = 'medications' | 'doseEvents' | 'symptoms' | 'caregivers' | 'escalations';
+
+// Hybrid logical clock of each field's last change, by field name
+export type FieldClocks = { [field: string]: string };
+
+// A change sent to the sync server
+export interface SyncChange {
+  collection: SyncCollection;
+  id: string;
+  profileId?: string; // Absent for caregivers, who are shared by the household
+  data?: any; // May be absent when deleted
+  deleted?: boolean;
+  clocks?: FieldClocks; // Absent from dose events, which never change, and from plain REST writes
+}
+
+// A record as the sync server stores it
+export interface SyncRecord extends SyncChange {
+  updatedAt: string; // Server time, so devices with wrong clocks still agree on the order
+  deviceId: string; // The device that made the latest change
+}
+
+// A field two devices changed differently before syncing. Both converge on one value; the user can pick the other.
+export interface SyncConflict {
+  id: string;
+  collection: SyncCollection;
+  recordId: string;
+  profileId?: string;
+  field: string; // The record's field, its deleted flag, or for dose status the dose key
+  label: string; // e.g., "Aspirin: dose times"
+  localValue: any; // This device's value
+  remoteValue: any; // The other device's value
+  kept: 'local' | 'remote';
+  detectedAt: string;
+}
+
+// A record as this device last synced it, to tell which of its fields changed here since
+export interface SyncedRecordState {
+  hashes: { [field: string]: string }; // Hash of each field's value
+  clocks: FieldClocks;
+  deleted?: boolean;
+}
+
+export interface SyncSettings {
+  serverUrl: string;
+  token: string;
+  deviceId: string;
+}
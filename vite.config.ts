@@ -9,7 +9,31 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // The reminder service worker is written in TypeScript; in development /sw.js serves it from sw.ts
+        {
+          name: 'service-worker',
+          configureServer(server) {
+            server.middlewares.use((req, _res, next) => {
+              if (req.url === '/sw.js') req.url = '/sw.ts';
+              next();
+            });
+          },
+        },
+      ],
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'sw.ts'),
+          },
+          output: {
+            // Served from the root, so the worker's scope covers the whole app
+            entryFileNames: chunk => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+          },
+        },
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)